@@ -1,20 +1,36 @@
 import { createClient } from "@/lib/supabase/server";
 import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
 // import type { Tables } from "@/lib/types/database.types"; // Keep if needed elsewhere, otherwise remove
 import type { ChatMessage } from "@/lib/types";
 // import { Database } from "@/lib/types/database.types"; // Assuming generated types
-// import { CopyInviteButton } from "@/components/rooms/copy-invite-button"; // Removed unused import
 import { RoomJoinHandler } from "@/components/rooms/room-join-handler"; // Import the join handler
 import { RealtimeChat } from "@/components/realtime-chat"; // Import Chat Component
 import { NavProtected } from "@/components/nav-protected";
+import { Button } from "@/components/ui/button";
 import PlayerTrigger from "@/components/player-trigger";
+import { PlaylistTrackBrowser } from "@/components/rooms/playlist-track-browser";
+import { MergeRoomPlaylistsDialog } from "@/components/rooms/merge-room-playlists-dialog";
+import { ManageRoomPlaylistsDialog } from "@/components/rooms/manage-room-playlists-dialog";
+import { RoomPlayHistory } from "@/components/rooms/room-play-history";
+import { RoomShortcuts } from "@/components/room-shortcuts";
+import { RoomInvitesDialog } from "@/components/rooms/room-invites-dialog";
+import { RoomMembersPanel } from "@/components/rooms/room-members-panel";
+import { RoomHeader } from "@/components/rooms/room-header";
+import { ROOM_INVITE_PARAM } from "@/lib/room-invites";
+import { getRoomDisplayName, toRoomAppearance } from "@/lib/room-appearance";
+import {
+  getMyRoomBanMessage,
+  getRoomInvitePreview,
+} from "@/lib/actions/supabase.actions";
+import { Settings } from "lucide-react";
 // import { RealtimeAvatarStack } from "@/components/realtime-avatar-stack"; // Removed unused import
-// Import Button component later when needed
 
 type RoomPageProps = {
   params: Promise<{
     roomId: string;
   }>;
+  searchParams: Promise<{ [ROOM_INVITE_PARAM]?: string }>;
 };
 
 // Use the generated type for messages Row - THIS CAN BE REMOVED if MessageRow is only used inside ChatMessage type
@@ -35,9 +51,13 @@ type RoomPageProps = {
 //   };
 // };
 
-export default async function RoomPage({ params }: RoomPageProps) {
+export default async function RoomPage({
+  params,
+  searchParams,
+}: RoomPageProps) {
   const supabase = await createClient();
   const { roomId } = await params;
+  const inviteToken = (await searchParams)[ROOM_INVITE_PARAM];
 
   // 1. Use getUser() for authenticated check and fresh user data
   const {
@@ -55,9 +75,11 @@ export default async function RoomPage({ params }: RoomPageProps) {
   // 2. Fetch Room Data
   const { data: room, error: roomError } = await supabase
     .from("rooms")
-    .select("id, name, created_by")
+    .select(
+      "id, name, created_by, visibility, archived_at, description, cover_type, cover_url, cover_mosaic_urls, accent_color"
+    )
     .eq("id", roomId)
-    .single();
+    .maybeSingle();
 
   // Add loading/error state check for room data
   if (roomError) {
@@ -73,10 +95,55 @@ export default async function RoomPage({ params }: RoomPageProps) {
   }
 
   if (!room) {
+    // Invite-only rooms are hidden until the invite is redeemed
+    if (inviteToken) {
+      return (
+        <RoomJoinHandler
+          roomId={roomId}
+          inviteToken={inviteToken}
+          isJoiningWithInvite
+          preview={await getRoomInvitePreview(roomId, inviteToken)}
+        />
+      );
+    }
     // Room not found or RLS prevents access
     notFound();
   }
 
+  if (room.archived_at) {
+    return (
+      <div className="mx-auto flex flex-col relative z-20 h-screen">
+        <NavProtected />
+        <main className="flex flex-col items-center gap-4 pt-24 text-center">
+          <p className="text-muted-foreground">
+            {room.name ?? "This room"} has been archived.
+            {room.created_by === userId &&
+              " Restore it from your rooms to use it again."}
+          </p>
+          <Link href="/rooms">
+            <Button variant="outline">Back to rooms</Button>
+          </Link>
+        </main>
+      </div>
+    );
+  }
+
+  // Banned users can still see public rooms; keep them out of the chat
+  const banMessage = await getMyRoomBanMessage(room.id);
+  if (banMessage) {
+    return (
+      <div className="mx-auto flex flex-col relative z-20 h-screen">
+        <NavProtected />
+        <main className="flex flex-col items-center gap-4 pt-24 text-center">
+          <p className="text-muted-foreground">{banMessage}</p>
+          <Link href="/rooms">
+            <Button variant="outline">Back to rooms</Button>
+          </Link>
+        </main>
+      </div>
+    );
+  }
+
   // 3. Fetch User Role in this Room (Removed as role is not currently used)
   // const { data: member, error: memberError } = await supabase
   //   .from("room_members")
@@ -166,11 +233,38 @@ export default async function RoomPage({ params }: RoomPageProps) {
 
   // We have confirmed user and room exist by this point
   const currentUserId = userId;
+  const appearance = toRoomAppearance(room);
 
   return (
     // Apply flex column layout and min screen height to the main container
     <div className="mx-auto flex flex-col relative z-20 h-screen">
-      <NavProtected>
+      <NavProtected
+        title={
+          <RoomHeader
+            appearance={appearance}
+            fallbackName={getRoomDisplayName(room)}
+          />
+        }
+      >
+        <PlaylistTrackBrowser />
+        <ManageRoomPlaylistsDialog roomId={room.id} />
+        <RoomPlayHistory roomId={room.id} />
+        <RoomMembersPanel roomId={room.id} currentUserId={userId} />
+        <MergeRoomPlaylistsDialog
+          roomId={room.id}
+          roomName={room.name ?? "Room playlists"}
+        />
+        <RoomShortcuts />
+        {room.created_by === userId && (
+          <>
+            <RoomInvitesDialog roomId={room.id} visibility={room.visibility} />
+            <Button variant="ghost" size="icon" title="Room settings" asChild>
+              <Link href={`/rooms/${room.id}/settings`}>
+                <Settings className="h-5 w-5" />
+              </Link>
+            </Button>
+          </>
+        )}
         <PlayerTrigger />
       </NavProtected>
 
@@ -181,10 +275,19 @@ export default async function RoomPage({ params }: RoomPageProps) {
                    h-24
                    z-40
                    pointer-events-none"
+        style={
+          appearance.accentColor
+            ? {
+                backgroundImage: `linear-gradient(to bottom, ${appearance.accentColor}66, transparent)`,
+              }
+            : undefined
+        }
       />
 
       {/* RoomJoinHandler might also need room.id, ensure it's available */}
-      {room && <RoomJoinHandler roomId={room.id} userId={userId} />}
+      {room && (
+        <RoomJoinHandler roomId={room.id} inviteToken={inviteToken} />
+      )}
 
       {/* Make the main content area grow and establish a flex context for the grid */}
       <main className="flex-grow pt-14 w-full">
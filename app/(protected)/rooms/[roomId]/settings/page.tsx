@@ -0,0 +1,79 @@
+import { createClient } from "@/lib/supabase/server";
+import { notFound, redirect } from "next/navigation";
+import { NavProtected } from "@/components/nav-protected";
+import { RoomSettingsForm } from "@/components/rooms/room-settings-form";
+import { getRoomPlaylistDetails } from "@/lib/actions/supabase.actions";
+import {
+  getMosaicCoverUrls,
+  getRoomDisplayName,
+  toRoomAppearance,
+} from "@/lib/room-appearance";
+
+type RoomSettingsPageProps = {
+  params: Promise<{
+    roomId: string;
+  }>;
+};
+
+// Only the room's creator gets here; everyone else goes back to the room
+export default async function RoomSettingsPage({
+  params,
+}: RoomSettingsPageProps) {
+  const supabase = await createClient();
+  const { roomId } = await params;
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    redirect(`/login?redirect=/rooms/${roomId}/settings`);
+  }
+
+  const { data: room, error: roomError } = await supabase
+    .from("rooms")
+    .select(
+      "id, name, created_by, description, cover_type, cover_url, cover_mosaic_urls, accent_color"
+    )
+    .eq("id", roomId)
+    .maybeSingle();
+
+  if (roomError) {
+    console.error("Error fetching room settings:", roomError);
+    return (
+      <div className="container mx-auto p-4 text-red-500">
+        Error loading room settings.
+      </div>
+    );
+  }
+
+  if (!room) {
+    notFound();
+  }
+
+  if (room.created_by !== user.id) {
+    redirect(`/rooms/${roomId}`);
+  }
+
+  // For previewing the mosaic; saving builds it again from the same data
+  const playlists = await getRoomPlaylistDetails(roomId);
+
+  return (
+    <>
+      <NavProtected />
+      <div className="mx-auto p-4 relative z-20">
+        <main className="flex flex-col items-center gap-8 pt-14">
+          <h2 className="text-xl font-semibold">
+            {getRoomDisplayName(room)} settings
+          </h2>
+          <RoomSettingsForm
+            roomId={room.id}
+            appearance={toRoomAppearance(room)}
+            playlistCoverUrls={getMosaicCoverUrls(playlists ?? [])}
+          />
+        </main>
+      </div>
+    </>
+  );
+}
@@ -3,6 +3,7 @@ import { CreateRoomForm } from "@/components/rooms/create-room-form";
 import { Toaster } from "@/components/ui/sonner";
 import { getUserRooms } from "../../../lib/actions/supabase.actions"; // Import the new server action
 import { Button } from "@/components/ui/button";
+import { Settings } from "lucide-react";
 import {
   Card,
   CardDescription,
@@ -10,28 +11,51 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import type { User } from "@supabase/supabase-js"; // Import the User type
-import { CopyInviteButton } from "@/components/rooms/copy-invite-button"; // Import the button
+import { RoomInvitesDialog } from "@/components/rooms/room-invites-dialog";
+import { RoomOwnerActions } from "@/components/rooms/room-owner-actions";
+import { RoomCover } from "@/components/rooms/room-cover";
+import type { RoomSummary } from "@/lib/types/index";
 import { NavProtected } from "@/components/nav-protected";
+import { getRoomDisplayName, toRoomAppearance } from "@/lib/room-appearance";
 
 // This page is within the (protected) group, so authentication is assumed
 // to be handled by middleware.
 
-// Define a type for the room data returned by the server action
-type RoomSummary = {
-  id: string;
-  name: string | null;
-  created_by: string;
-};
+// Cover, name and description, with the room's accent color as a stripe
+function RoomCardHeader({
+  room,
+  note,
+}: {
+  room: RoomSummary;
+  note?: string;
+}) {
+  const appearance = toRoomAppearance(room);
+  return (
+    <CardHeader
+      className="flex flex-row items-center gap-4 border-l-4 border-transparent"
+      style={
+        appearance.accentColor
+          ? { borderLeftColor: appearance.accentColor }
+          : undefined
+      }
+    >
+      <RoomCover appearance={appearance} className="h-14 w-14" />
+      <div className="min-w-0 space-y-1">
+        <CardTitle className="truncate">{getRoomDisplayName(room)}</CardTitle>
+        {room.description && (
+          <CardDescription className="line-clamp-2">
+            {room.description}
+          </CardDescription>
+        )}
+        {note && <CardDescription>{note}</CardDescription>}
+      </div>
+    </CardHeader>
+  );
+}
 
 // Make the component async to fetch data
 export default async function RoomsPage() {
-  // Use the imported User type
-  const {
-    rooms,
-    user,
-  }: { rooms: RoomSummary[]; user: User | null } = // Use User | null
-    await getUserRooms();
+  const { ownedRooms, joinedRooms, quota, user } = await getUserRooms();
 
   if (!user) {
     // This case should ideally be handled by middleware, but good to check
@@ -42,71 +66,129 @@ export default async function RoomsPage() {
     );
   }
 
-  const userId = user.id;
-  // Use the RoomSummary type in the callback
-  const userOwnsARoom = rooms.some(
-    (room: RoomSummary) => room.created_by === userId
-  );
+  const activeRooms = ownedRooms.filter((room) => !room.archived_at);
+  const archivedRooms = ownedRooms.filter((room) => room.archived_at);
+  // Let the server action report errors if the quota couldn't be read
+  const canCreateRoom = !quota || quota.activeRooms < quota.maxRooms;
 
   return (
     <>
       <NavProtected />
       <div className="mx-auto p-4 relative z-20">
         <main className="flex flex-col items-center gap-8 pt-10">
-          {/* Conditionally render Create Room Form */}
-          {!userOwnsARoom ? (
+          {/* Render Create Room Form while there's room in the quota */}
+          {!quota || quota.activeRooms < quota.maxRooms ? (
             <div className="w-full max-w-md">
               <h2 className="text-xl font-semibold mb-4 text-center">
                 Create a New Room
               </h2>
-              <p className="text-sm text-muted-foreground text-center mb-4">
-                You can only create one room.
-              </p>
+              {quota && (
+                <p className="text-sm text-muted-foreground text-center mb-4">
+                  You&apos;re using {quota.activeRooms} of {quota.maxRooms}{" "}
+                  rooms.
+                </p>
+              )}
               <CreateRoomForm />
             </div>
           ) : (
             <div className="w-full max-w-md text-center p-4 bg-muted rounded-lg">
               <p className="text-muted-foreground">
-                You have already created your room.
+                You&apos;re using all {quota.maxRooms} of your rooms. Archive
+                or delete one to create another.
               </p>
             </div>
           )}
 
-          {/* List existing rooms user is part of */}
+          {/* Rooms the user owns */}
           <div className="w-full max-w-2xl mt-10">
             <h3 className="text-lg font-semibold mb-4 text-center">
               Your Rooms
             </h3>
-            {rooms.length > 0 ? (
+            {activeRooms.length > 0 ? (
+              <div className="space-y-4">
+                {activeRooms.map((room) => (
+                  <Card key={room.id}>
+                    <RoomCardHeader room={room} note="You are the DJ" />
+                    <CardFooter className="flex justify-between items-center">
+                      <Link href={`/rooms/${room.id}`} passHref>
+                        <Button variant="outline">Enter Room</Button>
+                      </Link>
+                      <div className="flex items-center gap-2">
+                        <RoomInvitesDialog
+                          roomId={room.id}
+                          visibility={room.visibility}
+                        />
+                        <Button variant="outline" size="sm" asChild>
+                          <Link href={`/rooms/${room.id}/settings`}>
+                            <Settings className="mr-2 h-4 w-4" />
+                            Settings
+                          </Link>
+                        </Button>
+                        <RoomOwnerActions
+                          roomId={room.id}
+                          roomName={getRoomDisplayName(room)}
+                          isArchived={false}
+                        />
+                      </div>
+                    </CardFooter>
+                  </Card>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center text-muted-foreground">
+                You don&apos;t have any active rooms.
+                {canCreateRoom && " Why not create one?"}
+              </p>
+            )}
+          </div>
+
+          {/* Archived rooms only show to their owner */}
+          {archivedRooms.length > 0 && (
+            <div className="w-full max-w-2xl">
+              <h3 className="text-lg font-semibold mb-4 text-center">
+                Archived Rooms
+              </h3>
+              <div className="space-y-4">
+                {archivedRooms.map((room) => (
+                  <Card key={room.id} className="opacity-75">
+                    <RoomCardHeader
+                      room={room}
+                      note="Archived. Restore it to use it again."
+                    />
+                    <CardFooter className="flex justify-end items-center">
+                      <RoomOwnerActions
+                        roomId={room.id}
+                        roomName={getRoomDisplayName(room)}
+                        isArchived
+                      />
+                    </CardFooter>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Rooms the user joined */}
+          <div className="w-full max-w-2xl">
+            <h3 className="text-lg font-semibold mb-4 text-center">
+              Joined Rooms
+            </h3>
+            {joinedRooms.length > 0 ? (
               <div className="space-y-4">
-                {rooms.map((room: RoomSummary) => {
-                  // Determine if the current user is the DJ for this room
-                  const isDJ = room.created_by === userId;
-                  return (
-                    <Card key={room.id}>
-                      <CardHeader>
-                        <CardTitle>
-                          {room.name || `Room ${room.id.substring(0, 8)}...`}
-                        </CardTitle>
-                        {isDJ && (
-                          <CardDescription>You are the DJ</CardDescription>
-                        )}
-                      </CardHeader>
-                      <CardFooter className="flex justify-between items-center">
-                        <Link href={`/rooms/${room.id}`} passHref>
-                          <Button variant="outline">Enter Room</Button>
-                        </Link>
-                        {/* Use the CopyInviteButton component */}
-                        <CopyInviteButton roomId={room.id} isDJ={isDJ} />
-                      </CardFooter>
-                    </Card>
-                  );
-                })}
+                {joinedRooms.map((room) => (
+                  <Card key={room.id}>
+                    <RoomCardHeader room={room} />
+                    <CardFooter className="flex justify-between items-center">
+                      <Link href={`/rooms/${room.id}`} passHref>
+                        <Button variant="outline">Enter Room</Button>
+                      </Link>
+                    </CardFooter>
+                  </Card>
+                ))}
               </div>
             ) : (
               <p className="text-center text-muted-foreground">
-                You are not a member of any rooms yet.
-                {!userOwnsARoom && " Why not create one?"}
+                You haven&apos;t joined anyone else&apos;s rooms yet.
               </p>
             )}
           </div>
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { backfillLegacySpotifyCredentials } from "@/lib/spotify/credentials";
+
+export const dynamic = "force-dynamic";
+
+// Only callers holding the service role key, which can read every token anyway
+function isAuthorized(request: Request): boolean {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const authorization = request.headers.get("authorization") ?? "";
+  if (!serviceRoleKey) return false;
+
+  const expected = Buffer.from(`Bearer ${serviceRoleKey}`);
+  const actual = Buffer.from(authorization);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Encrypts the Spotify tokens older versions left in users' `user_metadata`
+ * into `spotify_credentials` and clears the metadata. See the README.
+ */
+export async function POST(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await backfillLegacySpotifyCredentials();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Spotify credentials backfill failed:", error);
+    return NextResponse.json(
+      { error: "Backfill failed. Check the server logs." },
+      { status: 500 }
+    );
+  }
+}
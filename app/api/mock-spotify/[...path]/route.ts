@@ -0,0 +1,19 @@
+import { getSharedMockSpotify } from "@/lib/spotify/mock/server";
+
+// Mock state changes on every request, never cache
+export const dynamic = "force-dynamic";
+
+/**
+ * Serves the in-memory mock Spotify API (lib/spotify/mock) when
+ * SPOTIFY_MOCK=true. Point the app at it with
+ * SPOTIFY_API_BASE_URL=<origin>/api/mock-spotify/v1 and
+ * SPOTIFY_ACCOUNTS_BASE_URL=<origin>/api/mock-spotify/accounts.
+ */
+async function handle(request: Request) {
+  if (process.env.SPOTIFY_MOCK !== "true") {
+    return new Response("Not Found", { status: 404 });
+  }
+  return getSharedMockSpotify().handle(request);
+}
+
+export { handle as GET, handle as POST, handle as PUT, handle as DELETE };
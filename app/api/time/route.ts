@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+
+// Must never be cached: clients measure round trips against this timestamp
+export const dynamic = "force-dynamic";
+
+/**
+ * Returns the server clock for NTP-style offset estimation (see lib/time-sync).
+ */
+export async function GET() {
+  return NextResponse.json(
+    { serverTime: Date.now() },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -1,6 +1,10 @@
 import { NextResponse } from "next/server";
 // The client you created from the Server-Side Auth instructions
 import { createClient } from "@/lib/supabase/server";
+import {
+  clearLegacySpotifyMetadata,
+  writeSpotifyCredentials,
+} from "@/lib/spotify/credentials";
 
 export async function GET(request: Request) {
   const { searchParams, origin } = new URL(request.url);
@@ -31,10 +35,6 @@ export async function GET(request: Request) {
       }
 
       const session = sessionData.session;
-      console.log(
-        "OAuth callback: Session obtained after exchange:",
-        JSON.stringify(session, null, 2)
-      );
 
       // Extract provider tokens from the session
       const providerToken = session.provider_token;
@@ -47,30 +47,20 @@ export async function GET(request: Request) {
         );
         // Proceed with redirect, but SDK might fail later
       } else {
-        console.log(
-          "OAuth callback: Provider tokens found, attempting to save to user_metadata."
-        );
-        // Save tokens to user_metadata
-        const { error: updateError } = await supabase.auth.updateUser({
-          data: {
-            provider_token: providerToken,
-            provider_refresh_token: providerRefreshToken,
-            provider_token_expires_at: providerExpiresAt, // Store expiry too
-            // Add any other metadata you want to persist here
-          },
+        // Store tokens encrypted and server-side only, never in user_metadata
+        const saved = await writeSpotifyCredentials(session.user.id, {
+          accessToken: providerToken,
+          refreshToken: providerRefreshToken,
+          expiresAt: providerExpiresAt ?? null,
         });
 
-        if (updateError) {
+        if (!saved) {
           console.error(
-            "OAuth callback: Error updating user metadata with provider tokens:",
-            updateError
+            "OAuth callback: Error saving provider tokens to spotify_credentials."
           );
-          // Decide how to handle: log, redirect to specific error, or continue?
           // Continuing might be okay if the session itself is valid
         } else {
-          console.log(
-            "OAuth callback: Successfully saved provider tokens to user_metadata."
-          );
+          await clearLegacySpotifyMetadata(session.user);
         }
       }
 
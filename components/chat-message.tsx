@@ -18,6 +18,7 @@ interface ChatMessageItemProps {
   isOwnMessage: boolean;
   showHeader: boolean;
   currentUserId?: string;
+  canModerate?: boolean; // May delete other people's messages
   onDelete?: (messageId: string) => void;
   onEdit?: (messageId: string, newContent: string) => Promise<void>;
 }
@@ -27,6 +28,7 @@ export const ChatMessageItem = ({
   isOwnMessage,
   showHeader,
   currentUserId,
+  canModerate = false,
   onDelete,
   onEdit,
 }: ChatMessageItemProps) => {
@@ -42,10 +44,11 @@ export const ChatMessageItem = ({
     }
   }, [message.content, isEditing]);
 
+  const isSent = message.status === "sent" || message.status === undefined;
   const canModify =
-    (onDelete || onEdit) &&
-    currentUserId === message.user.id &&
-    (message.status === "sent" || message.status === undefined);
+    (onDelete || onEdit) && currentUserId === message.user.id && isSent;
+  // Moderators can delete, but not edit, other people's messages
+  const canDelete = canModify || (!!onDelete && canModerate && isSent);
 
   const hasFailed = message.status === "failed";
 
@@ -199,22 +202,28 @@ export const ChatMessageItem = ({
         </span>
       )}
 
-      {canModify && !isEditing && !isTouchDevice && (
+      {canDelete && !isEditing && !isTouchDevice && (
         <div
           className={cn(
             "absolute top-1/2 -translate-y-1/2 flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity bg-secondary rounded-md p-1",
-            isOwnMessage ? "left-[-70px]" : "right-[-70px]"
+            isOwnMessage
+              ? "left-[-70px]"
+              : canModify
+              ? "right-[-70px]"
+              : "right-[-40px]"
           )}
         >
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-6 w-6 text-muted-foreground hover:text-foreground"
-            onClick={handleEdit}
-            title="Edit message"
-          >
-            <Pencil className="size-4" />
-          </Button>
+          {canModify && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-muted-foreground hover:text-foreground"
+              onClick={handleEdit}
+              title="Edit message"
+            >
+              <Pencil className="size-4" />
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="icon"
@@ -230,19 +239,21 @@ export const ChatMessageItem = ({
   );
 
   const MessageWrapper = ({ children }: { children: React.ReactNode }) =>
-    isTouchDevice && canModify && !isEditing ? (
+    isTouchDevice && canDelete && !isEditing ? (
       <Popover open={popoverOpen} onOpenChange={setPopoverOpen}>
         <PopoverTrigger asChild>{children}</PopoverTrigger>
         <PopoverContent className="w-auto p-1">
           <div className="flex flex-col gap-1">
-            <Button
-              variant="ghost"
-              size="sm"
-              className="justify-start px-2 py-1 h-auto"
-              onClick={handleEdit}
-            >
-              <Pencil className="size-4 mr-2" /> Edit
-            </Button>
+            {canModify && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="justify-start px-2 py-1 h-auto"
+                onClick={handleEdit}
+              >
+                <Pencil className="size-4 mr-2" /> Edit
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
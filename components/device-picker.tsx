@@ -0,0 +1,119 @@
+"use client";
+
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import {
+  Check,
+  Laptop,
+  Loader2,
+  MonitorSpeaker,
+  Smartphone,
+  Speaker,
+  Tv,
+} from "lucide-react";
+import { usePlayerContext } from "@/lib/contexts/player-context";
+
+// Icon per Spotify Connect device type, anything else uses MonitorSpeaker
+const DEVICE_ICONS: Record<string, typeof Speaker> = {
+  Computer: Laptop,
+  Smartphone: Smartphone,
+  Tablet: Smartphone,
+  Speaker: Speaker,
+  TV: Tv,
+};
+
+/**
+ * Lists the user's Spotify Connect devices and moves playback to the one
+ * picked. This browser's player is always listed first.
+ */
+export function DevicePicker() {
+  const {
+    playerDeviceId,
+    availableDevices,
+    selectedDeviceId,
+    isRemoteDevice,
+    isLoadingDevices,
+    isTransferringPlayback,
+    refreshDevices,
+    selectDevice,
+  } = usePlayerContext();
+
+  const remoteDevices = availableDevices.filter(
+    (device) => device.id && device.id !== playerDeviceId
+  );
+
+  return (
+    <Popover
+      onOpenChange={(open) => {
+        if (open) refreshDevices();
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`rounded-full h-7 w-7 ${
+            isRemoteDevice ? "text-green-500" : ""
+          }`}
+          title="Choose where to listen"
+        >
+          <MonitorSpeaker className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="top" align="center" className="w-60 p-2">
+        <div className="flex items-center justify-between px-2 pb-2">
+          <span className="text-xs font-semibold">Listen on</span>
+          {(isLoadingDevices || isTransferringPlayback) && (
+            <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+          )}
+        </div>
+        <div className="flex flex-col gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="justify-start text-xs"
+            onClick={() => selectDevice(null)}
+            disabled={!playerDeviceId || isTransferringPlayback}
+          >
+            <Laptop className="h-4 w-4 mr-2" />
+            <span className="flex-1 text-left">This browser</span>
+            {!isRemoteDevice && <Check className="h-4 w-4 text-green-500" />}
+          </Button>
+          {remoteDevices.map((device) => {
+            const DeviceIcon = DEVICE_ICONS[device.type] ?? MonitorSpeaker;
+            return (
+              <Button
+                key={device.id}
+                variant="ghost"
+                size="sm"
+                className="justify-start text-xs"
+                onClick={() => selectDevice(device.id)}
+                disabled={device.is_restricted || isTransferringPlayback}
+                title={
+                  device.is_restricted
+                    ? "This device can't be controlled from here"
+                    : device.name
+                }
+              >
+                <DeviceIcon className="h-4 w-4 mr-2" />
+                <span className="flex-1 truncate text-left">{device.name}</span>
+                {device.id === selectedDeviceId && (
+                  <Check className="h-4 w-4 text-green-500" />
+                )}
+              </Button>
+            );
+          })}
+          {!isLoadingDevices && remoteDevices.length === 0 && (
+            <p className="px-2 py-1 text-xs text-muted-foreground">
+              Open Spotify on another device to see it here.
+            </p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -30,7 +30,7 @@ export function LoginForm({
         provider: "spotify",
         options: {
           scopes:
-            "user-read-email user-read-private, streaming, user-modify-playback-state, user-read-playback-state, playlist-modify-public, user-library-read, user-library-modify",
+            "user-read-email user-read-private, streaming, user-modify-playback-state, user-read-playback-state, playlist-modify-public, playlist-modify-private, user-library-read, user-library-modify",
           redirectTo: `${window.location.origin}/auth/oauth?next=/rooms`,
         },
       });
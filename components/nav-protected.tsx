@@ -13,8 +13,15 @@ import { Button } from "./ui/button";
 /**
  * Renders the navigation header specific to the rooms section.
  * Includes user avatar popover with logout and conditional playlist adding.
+ * `title` shows next to the logo, e.g. the current room.
  */
-export function NavProtected({ children }: { children?: React.ReactNode }) {
+export function NavProtected({
+  children,
+  title,
+}: {
+  children?: React.ReactNode;
+  title?: React.ReactNode;
+}) {
   return (
     <nav className="absolute top-0 z-50 w-full px-4 sm:px-8">
       <div className="flex h-14 items-center">
@@ -25,6 +32,7 @@ export function NavProtected({ children }: { children?: React.ReactNode }) {
             </span>
           </Link>
         </div>
+        {title && <div className="mr-4 min-w-0 max-w-xs">{title}</div>}
         <div className="flex flex-1 items-center space-x-2 justify-end">
           <nav className="flex items-center space-x-2">
             {children}
@@ -22,14 +22,46 @@ import {
   Heart,
   Plus,
   Check,
+  ListOrdered,
+  Split,
+  IterationCw,
+  Info,
+  Repeat,
+  Repeat1,
 } from "lucide-react";
 import { VerticalVolumeControl } from "./vertical-volume-control";
+import { DevicePicker } from "./device-picker";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { ScrollArea } from "@/components/ui/scroll-area";
 import { usePlayerContext } from "@/lib/contexts/player-context";
 
 import { SimplePlaylistDetails } from "@/lib/types/index";
+import { ROOM_QUEUE_MODES, RoomQueueMode } from "@/lib/room-queue";
+import {
+  getNextRepeatState,
+  type SpotifyRepeatState,
+} from "@/lib/spotify/playback-state";
 import MarqueeText from "./ui/marquee-text";
 
+// Labels and icons for the room queue order toggle
+const QUEUE_MODE_LABELS: Record<RoomQueueMode, string> = {
+  sequential: "playlist by playlist",
+  interleaved: "alternate playlists",
+  shuffled: "shuffled",
+};
+
+const QUEUE_MODE_ICONS: Record<RoomQueueMode, typeof ListOrdered> = {
+  sequential: ListOrdered,
+  interleaved: Split,
+  shuffled: Shuffle,
+};
+
+const REPEAT_MODE_TITLES: Record<SpotifyRepeatState, string> = {
+  off: "Repeat off",
+  context: "Repeat playlist",
+  track: "Repeat track",
+};
+
 // Remove props interface
 // interface PlayerPopoverProps {
 //   player: Spotify.Player | null;
@@ -42,7 +74,6 @@ import MarqueeText from "./ui/marquee-text";
 // Remove props from function signature
 export default function PlayerPopover() {
   const {
-    player,
     isPlayerReady,
     isPlayerActive,
     currentTrack,
@@ -55,7 +86,14 @@ export default function PlayerPopover() {
     isTogglingShuffle,
     playNextPlaylist,
     playPreviousPlaylist,
+    wrapRoomPlaylists,
+    setWrapRoomPlaylists,
     togglePlayerShuffle,
+    isShuffleOn,
+    repeatMode,
+    isTogglingRepeat,
+    cyclePlayerRepeat,
+    playbackDisallows,
     togglePlayPause,
     skipToNextTrack,
     skipToPreviousTrack,
@@ -68,71 +106,53 @@ export default function PlayerPopover() {
     position,
     handleSeekChange,
     handleSeekCommit,
+    isRoomDJ,
+    isFollowingDJ,
+    roomQueue,
+    queueMode,
+    setQueueMode,
+    reshuffleQueue,
+    currentQueueIndex,
+    upNext,
+    isLoadingQueue,
+    playRoomQueue,
+    volumePercent: volume,
+    setPlayerVolume,
+    isRemoteDevice,
+    availableDevices,
+    selectedDeviceId,
+    isPreviewMode,
   } = usePlayerContext();
 
   // Local UI state derived from playbackState or for controls
-  const [volume, setVolume] = useState(50); // Local volume 0-100 for slider
-  const [isMuted, setIsMuted] = useState(false);
+  const isMuted = volume === 0;
   const [duration, setDuration] = useState(0); // Track duration in ms
 
   const [isVolumePopoverOpen, setIsVolumePopoverOpen] = useState(false);
 
-  // Keep local shuffle state for immediate UI feedback, synced from context
-  const [isShuffleActive, setIsShuffleActive] = useState(false);
-
   // Use derived state for checking if playing
   const isPlayingDerived = playbackState ? !playbackState.paused : false;
 
   // Effect to sync local UI state from context playbackState
   useEffect(() => {
-    if (!playbackState) {
-      setDuration(0);
-      setIsShuffleActive(false);
-      return;
-    }
-
-    // Sync duration and shuffle state directly from playbackState
-    setDuration(playbackState.duration);
-    setIsShuffleActive(playbackState.shuffle ?? false);
+    // Sync duration directly from playbackState
+    setDuration(playbackState?.duration ?? 0);
   }, [playbackState]);
 
-  // Handlers now use `player` from context
+  // Handlers go through the context so they work for remote devices too
   // const handleTogglePlay = () => {
   //   if (!player) return;
   //   player.togglePlay();
   // };
 
+  // Volume lives in the context so keyboard shortcuts can change it too
   const handleVolumeChange = (value: number[]) => {
-    const newVolume = value[0];
-    const sdkVolume = newVolume / 100;
-    setVolume(newVolume);
-    setIsMuted(newVolume === 0);
-    if (!player) {
-      return;
-    }
-    player.setVolume(sdkVolume).catch((err) => {
-      console.error("Error setting volume:", err);
-    });
+    setPlayerVolume(value[0]);
   };
 
   const handleToggleMute = () => {
-    const newMuteState = !isMuted;
     const restoreVolume = 50;
-    const newVolumePercent = newMuteState
-      ? 0
-      : volume > 0
-      ? volume
-      : restoreVolume;
-    const newSdkVolume = newVolumePercent / 100;
-
-    setIsMuted(newMuteState);
-    setVolume(newVolumePercent);
-    if (!player) {
-      return;
-    }
-    player.setVolume(newSdkVolume).catch((err) => {
-      console.error("Error toggling mute:", err);
-    });
+    setPlayerVolume(isMuted ? restoreVolume : 0);
   };
 
   // --- UI Logic ---
@@ -162,6 +182,29 @@ export default function PlayerPopover() {
   const canGoNextPlaylist = currentPlaylistIndex < roomPlaylists.length - 1;
   const canGoPrevPlaylist = currentPlaylistIndex > 0;
 
+  // Disallowed actions are disabled up front rather than failing
+  const RepeatIcon = repeatMode === "track" ? Repeat1 : Repeat;
+  const canCycleRepeat =
+    getNextRepeatState(repeatMode, playbackDisallows) !== repeatMode;
+  const isPlayPauseDisallowed = isPlayingDerived
+    ? playbackDisallows.pausing
+    : playbackDisallows.resuming;
+
+  const QueueModeIcon = QUEUE_MODE_ICONS[queueMode];
+  const nextQueueMode =
+    ROOM_QUEUE_MODES[
+      (ROOM_QUEUE_MODES.indexOf(queueMode) + 1) % ROOM_QUEUE_MODES.length
+    ];
+  const remoteDeviceName =
+    availableDevices.find((device) => device.id === selectedDeviceId)?.name ??
+    "another device";
+
+  const canPlayQueue =
+    isPlayerReady &&
+    (!!playerDeviceId || isPreviewMode) &&
+    roomQueue.length > 0 &&
+    !isChangingPlaylist;
+
   return (
     <div className="flex flex-col gap-4 p-4 w-full">
       {/* Status Indicator uses isPlayerReady, isPlayerActive from context */}
@@ -170,7 +213,11 @@ export default function PlayerPopover() {
           isPlayerActive ? (
             <span className="text-green-500 flex items-center gap-1">
               <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-              Player Active
+              {isPreviewMode
+                ? "Playing previews"
+                : isRemoteDevice
+                ? `Playing on ${remoteDeviceName}`
+                : "Player Active"}
             </span>
           ) : (
             <span className="text-blue-500 flex items-center gap-1">
@@ -184,8 +231,28 @@ export default function PlayerPopover() {
             Connecting Player...
           </span>
         )}
+        {isPlayerReady && !isRoomDJ && (
+          <span className="ml-3">
+            {isFollowingDJ ? "Following the DJ" : "Waiting for the DJ..."}
+          </span>
+        )}
       </div>
 
+      {/* Without Premium the player falls back to 30-second previews */}
+      {isPreviewMode && (
+        <div
+          className="flex items-start gap-2 rounded-md border border-yellow-500/50 bg-yellow-500/10 p-2 text-xs w-72"
+          role="status"
+        >
+          <Info className="h-4 w-4 flex-shrink-0 text-yellow-500" />
+          <span>
+            <span className="font-semibold">Preview mode.</span> Full tracks
+            need Spotify Premium, so you&apos;re hearing 30-second previews.
+            You can still save tracks and follow playlists.
+          </span>
+        </div>
+      )}
+
       {/* Now Playing uses currentTrack from context and currentPlaylistName */}
       <div className="flex items-center gap-4 mb-4">
         <Avatar className="h-16 w-16 rounded">
@@ -227,9 +294,14 @@ export default function PlayerPopover() {
         <Button
           variant="ghost"
           size="icon"
-          className={`rounded-full ${!isShuffleActive ? "opacity-50" : ""}`}
+          className={`rounded-full ${!isShuffleOn ? "opacity-50" : ""}`}
           onClick={togglePlayerShuffle}
-          disabled={!isPlayerReady || isTogglingShuffle}
+          disabled={
+            !isPlayerReady ||
+            isPreviewMode ||
+            isTogglingShuffle ||
+            playbackDisallows.toggling_shuffle
+          }
         >
           <Shuffle className="h-5 w-5" />
         </Button>
@@ -256,7 +328,12 @@ export default function PlayerPopover() {
           size="icon"
           className="rounded-full h-12 w-12"
           onClick={togglePlayPause}
-          disabled={!isPlayerReady || !isPlayerActive || !playbackState}
+          disabled={
+            !isPlayerReady ||
+            !isPlayerActive ||
+            !playbackState ||
+            isPlayPauseDisallowed
+          }
         >
           {/* isPlaying is local state synced from context */}
           {isPlayingDerived ? (
@@ -280,6 +357,23 @@ export default function PlayerPopover() {
         >
           <SkipForward className="h-5 w-5" />
         </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`rounded-full ${
+            repeatMode === "off" ? "opacity-50" : "text-green-500"
+          }`}
+          onClick={cyclePlayerRepeat}
+          disabled={
+            !isPlayerReady ||
+            !playbackState ||
+            isTogglingRepeat ||
+            !canCycleRepeat
+          }
+          title={REPEAT_MODE_TITLES[repeatMode]}
+        >
+          <RepeatIcon className="h-5 w-5" />
+        </Button>
         <Button
           variant="ghost"
           size="icon"
@@ -315,7 +409,11 @@ export default function PlayerPopover() {
           step={0.1}
           className="flex-1 [&>span:first-child]:bg-primary"
           disabled={
-            !isPlayerReady || !isPlayerActive || duration <= 0 || !playbackState
+            !isPlayerReady ||
+            !isPlayerActive ||
+            duration <= 0 ||
+            !playbackState ||
+            playbackDisallows.seeking
           }
           onValueChange={handleSeekChange}
           onValueCommit={handleSeekCommit}
@@ -370,15 +468,33 @@ export default function PlayerPopover() {
               onInteractOutside={() => setIsVolumePopoverOpen(false)}
             >
               <VerticalVolumeControl
-                value={volume} // Use local state
+                value={volume}
                 onVolumeChange={handleVolumeChange}
-                isMuted={isMuted} // Use local state
+                isMuted={isMuted}
                 onMuteToggle={handleToggleMute}
                 disabled={!isPlayerReady}
               />
             </PopoverContent>
           </Popover>
         </div>
+        {!isPreviewMode && <DevicePicker />}
+        {isRoomDJ && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className={`rounded-full h-7 w-7 ${
+              wrapRoomPlaylists ? "text-green-500" : "opacity-50"
+            }`}
+            onClick={() => setWrapRoomPlaylists(!wrapRoomPlaylists)}
+            title={
+              wrapRoomPlaylists
+                ? "Starting over after the last playlist"
+                : "Stopping after the last playlist"
+            }
+          >
+            <IterationCw className="h-4 w-4" />
+          </Button>
+        )}
         <Button
           variant="ghost"
           size="icon"
@@ -421,6 +537,83 @@ export default function PlayerPopover() {
           )}
         </Button>
       </div>
+
+      {/* Up Next from the room queue */}
+      <div className="flex flex-col gap-2 w-72 border-t pt-3">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-semibold">Up next</span>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="rounded-full h-7 w-7"
+              onClick={() =>
+                nextQueueMode === "shuffled"
+                  ? reshuffleQueue()
+                  : setQueueMode(nextQueueMode)
+              }
+              title={`Queue order: ${QUEUE_MODE_LABELS[queueMode]} (switch to ${QUEUE_MODE_LABELS[nextQueueMode]})`}
+            >
+              <QueueModeIcon className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-xs px-2"
+              onClick={() => playRoomQueue(Math.max(currentQueueIndex, 0))}
+              disabled={!canPlayQueue}
+              title="Play all room playlists as one queue"
+            >
+              <Play className="h-3 w-3 mr-1" />
+              Play queue
+            </Button>
+          </div>
+        </div>
+        {isLoadingQueue && roomQueue.length === 0 ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Loading tracks...
+          </div>
+        ) : upNext.length === 0 ? (
+          <span className="text-xs text-muted-foreground">
+            Nothing queued.
+          </span>
+        ) : (
+          <ScrollArea className="h-40">
+            <ol className="flex flex-col gap-1 pr-2">
+              {upNext.map((item, index) => (
+                <li key={item.uri}>
+                  <button
+                    type="button"
+                    className="flex w-full items-center gap-2 rounded px-1 py-1 text-left hover:bg-muted disabled:pointer-events-none disabled:opacity-50"
+                    onClick={() => playRoomQueue(currentQueueIndex + 1 + index)}
+                    disabled={!canPlayQueue}
+                    title={`Play ${item.name}`}
+                  >
+                    <Avatar className="h-8 w-8 rounded">
+                      <AvatarImage src={item.imageUrl} alt={item.albumName} />
+                      <AvatarFallback className="rounded bg-muted">
+                        <Music className="h-4 w-4 text-muted-foreground" />
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-xs font-medium">
+                        {item.name}
+                      </p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {item.artists.join(", ")}
+                      </p>
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDuration(item.durationMs)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </ScrollArea>
+        )}
+      </div>
     </div>
   );
 }
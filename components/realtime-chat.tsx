@@ -6,9 +6,12 @@ import { useChatScroll } from "@/hooks/use-chat-scroll";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { ROOM_CHAT_INPUT_ID } from "@/lib/keyboard-shortcuts";
 import { Send } from "lucide-react";
 import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
 import { useRealtimeChat } from "@/hooks/use-realtime-chat";
+import { useRoomContext } from "@/lib/contexts/room-context";
 import type { ChatMessage } from "@/lib/types";
 import { ScrollArea } from "@radix-ui/react-scroll-area";
 
@@ -38,6 +41,7 @@ export const RealtimeChat = ({
   onMessage,
 }: RealtimeChatProps) => {
   const { containerRef, scrollToBottom } = useChatScroll();
+  const { permissions, isMember, refreshRole } = useRoomContext();
 
   const {
     messages: allMessages,
@@ -45,10 +49,12 @@ export const RealtimeChat = ({
     deleteMessage,
     editMessage,
     isConnected,
+    isRemoved,
   } = useRealtimeChat({
     roomId,
     userId,
     username,
+    isMember,
     initialMessages,
   });
   const [newMessage, setNewMessage] = useState("");
@@ -64,6 +70,12 @@ export const RealtimeChat = ({
     scrollToBottom();
   }, [allMessages, scrollToBottom]);
 
+  useEffect(() => {
+    if (!isRemoved) return;
+    toast.error("You were removed from this room.");
+    refreshRole();
+  }, [isRemoved, refreshRole]);
+
   const handleSendMessage = useCallback(
     (e: React.FormEvent) => {
       e.preventDefault();
@@ -108,6 +120,7 @@ export const RealtimeChat = ({
                   isOwnMessage={isOwn}
                   showHeader={showHeader}
                   currentUserId={userId}
+                  canModerate={permissions.canModerateChat}
                   onDelete={deleteMessage}
                   onEdit={editMessage}
                 />
@@ -126,10 +139,15 @@ export const RealtimeChat = ({
             "rounded-full bg-background text-sm transition-all duration-300",
             isConnected && newMessage.trim() ? "w-[calc(100%-36px)]" : "w-full"
           )}
+          id={ROOM_CHAT_INPUT_ID}
           type="text"
           value={newMessage}
           onChange={(e) => setNewMessage(e.target.value)}
-          placeholder="Type a message..."
+          placeholder={
+            isRemoved
+              ? "You were removed from this room."
+              : "Type a message..."
+          }
           disabled={!isConnected}
         />
         {isConnected && newMessage.trim() && (
@@ -0,0 +1,159 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Keyboard } from "lucide-react";
+import { toast } from "sonner";
+import { usePlayerContext } from "@/lib/contexts/player-context";
+import {
+  useKeyboardShortcuts,
+  type ShortcutHandlers,
+} from "@/hooks/use-keyboard-shortcuts";
+import {
+  ROOM_CHAT_INPUT_ID,
+  ROOM_SHORTCUTS,
+  type KeyboardShortcut,
+} from "@/lib/keyboard-shortcuts";
+
+const SEEK_STEP_MS = 10000;
+const VOLUME_STEP_PERCENT = 10;
+
+const SHORTCUT_GROUPS: KeyboardShortcut["group"][] = ["Playback", "Room"];
+
+/**
+ * Registers the room's keyboard shortcuts and renders the overlay listing
+ * them, opened from the nav or with `?`.
+ */
+export function RoomShortcuts() {
+  const {
+    isPlayerReady,
+    playbackState,
+    playbackDisallows,
+    position,
+    duration,
+    volumePercent,
+    togglePlayPause,
+    seekTo,
+    setPlayerVolume,
+    skipToNextTrack,
+    skipToPreviousTrack,
+    playNextPlaylist,
+    playPreviousPlaylist,
+    saveCurrentTrack,
+  } = usePlayerContext();
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+
+  const handlers = useMemo<ShortcutHandlers>(() => {
+    const roomHandlers: ShortcutHandlers = {
+      focusChat: () => document.getElementById(ROOM_CHAT_INPUT_ID)?.focus(),
+      showHelp: () => setIsHelpOpen(true),
+    };
+    // Player shortcuts pass through to the page until there is playback
+    if (!isPlayerReady || !playbackState) return roomHandlers;
+
+    const changeVolume = (step: number) => {
+      const newVolume = Math.min(Math.max(volumePercent + step, 0), 100);
+      setPlayerVolume(newVolume);
+      toast(`Volume ${newVolume}%`, { id: "room-volume" });
+    };
+    const seekBy = (step: number) => {
+      if (playbackDisallows.seeking) return;
+      seekTo(Math.min(Math.max(position + step, 0), duration));
+    };
+
+    return {
+      ...roomHandlers,
+      togglePlay: () => {
+        const isDisallowed = playbackState.paused
+          ? playbackDisallows.resuming
+          : playbackDisallows.pausing;
+        if (!isDisallowed) togglePlayPause();
+      },
+      seekBackward: () => seekBy(-SEEK_STEP_MS),
+      seekForward: () => seekBy(SEEK_STEP_MS),
+      volumeUp: () => changeVolume(VOLUME_STEP_PERCENT),
+      volumeDown: () => changeVolume(-VOLUME_STEP_PERCENT),
+      nextTrack: () => {
+        if (!playbackDisallows.skipping_next) skipToNextTrack();
+      },
+      previousTrack: () => {
+        if (!playbackDisallows.skipping_prev) skipToPreviousTrack();
+      },
+      nextPlaylist: () => playNextPlaylist(),
+      previousPlaylist: () => playPreviousPlaylist(),
+      saveTrack: () => saveCurrentTrack(),
+    };
+  }, [
+    isPlayerReady,
+    playbackState,
+    playbackDisallows,
+    position,
+    duration,
+    volumePercent,
+    togglePlayPause,
+    seekTo,
+    setPlayerVolume,
+    skipToNextTrack,
+    skipToPreviousTrack,
+    playNextPlaylist,
+    playPreviousPlaylist,
+    saveCurrentTrack,
+  ]);
+
+  useKeyboardShortcuts(handlers);
+
+  return (
+    <Dialog open={isHelpOpen} onOpenChange={setIsHelpOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Keyboard shortcuts (?)">
+          <Keyboard className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            Shortcuts work anywhere in the room except while typing.
+          </DialogDescription>
+        </DialogHeader>
+        {SHORTCUT_GROUPS.map((group) => (
+          <div key={group} className="flex flex-col gap-2">
+            <h3 className="text-xs font-semibold text-muted-foreground">
+              {group}
+            </h3>
+            <ul className="flex flex-col gap-1">
+              {ROOM_SHORTCUTS.filter(
+                (shortcut) => shortcut.group === group
+              ).map((shortcut) => (
+                <li
+                  key={shortcut.id}
+                  className="flex items-center justify-between text-sm"
+                >
+                  <span>{shortcut.description}</span>
+                  <span className="flex gap-1">
+                    {shortcut.keys.map((key) => (
+                      <kbd
+                        key={key}
+                        className="rounded border bg-muted px-1.5 py-0.5 font-mono text-xs"
+                      >
+                        {key}
+                      </kbd>
+                    ))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </DialogContent>
+    </Dialog>
+  );
+}
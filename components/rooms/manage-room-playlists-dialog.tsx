@@ -0,0 +1,256 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  ArrowDown,
+  ArrowUp,
+  GripVertical,
+  ListOrdered,
+  Loader2,
+  Music,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  removeRoomPlaylist,
+  reorderRoomPlaylists,
+} from "@/lib/actions/supabase.actions";
+import { usePlayerContext } from "@/lib/contexts/player-context";
+import { useRoomContext } from "@/lib/contexts/room-context";
+import { moveItem } from "@/lib/room-playlists";
+
+type ManageRoomPlaylistsDialogProps = {
+  roomId: string;
+};
+
+/**
+ * Lets the room's DJ and co-DJs drag the room's playlists into a new order
+ * and remove them. Changes show right away and are rolled back by reloading
+ * the list when the server refuses them.
+ */
+export function ManageRoomPlaylistsDialog({
+  roomId,
+}: ManageRoomPlaylistsDialogProps) {
+  const {
+    roomPlaylists,
+    currentPlaylistIndex,
+    updateRoomPlaylists,
+    refreshRoomPlaylists,
+  } = usePlayerContext();
+  const { permissions } = useRoomContext();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [confirmRemoveId, setConfirmRemoveId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!permissions.canManagePlaylists) return null;
+
+  const move = async (from: number, to: number) => {
+    if (from === to || isSaving) return;
+    const reordered = moveItem(roomPlaylists, from, to);
+    updateRoomPlaylists(reordered);
+
+    setIsSaving(true);
+    const result = await reorderRoomPlaylists(
+      roomId,
+      reordered.map((playlist) => playlist.spotify_playlist_id)
+    );
+    if (!result.success) {
+      toast.error(result.error || "Failed to reorder playlists.");
+      await refreshRoomPlaylists();
+    }
+    setIsSaving(false);
+  };
+
+  const remove = async (spotifyPlaylistId: string) => {
+    setConfirmRemoveId(null);
+    setIsSaving(true);
+    const result = await removeRoomPlaylist(roomId, spotifyPlaylistId);
+    if (result.success) {
+      await refreshRoomPlaylists();
+    } else {
+      toast.error(result.error || "Failed to remove the playlist.");
+    }
+    setIsSaving(false);
+  };
+
+  const endDrag = () => {
+    setDraggedIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      endDrag();
+      setConfirmRemoveId(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Manage room playlists">
+          <ListOrdered className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Manage playlists</DialogTitle>
+          <DialogDescription>
+            Drag playlists to change the order they play in, or remove them
+            from the room.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-96">
+          <ol className="flex flex-col gap-1 pr-2">
+            {roomPlaylists.map((playlist, index) => {
+              const isConfirmingRemove =
+                confirmRemoveId === playlist.spotify_playlist_id;
+              return (
+                <li
+                  key={playlist.spotify_playlist_id}
+                  draggable={!isSaving}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    setDraggedIndex(index);
+                  }}
+                  onDragOver={(e) => {
+                    if (draggedIndex === null) return;
+                    e.preventDefault(); // Allows dropping here
+                    setDropIndex(index);
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (draggedIndex !== null) move(draggedIndex, index);
+                    endDrag();
+                  }}
+                  onDragEnd={endDrag}
+                  className={cn(
+                    "flex items-center gap-2 rounded border border-transparent px-1 py-1",
+                    draggedIndex === index && "opacity-50",
+                    dropIndex === index &&
+                      draggedIndex !== index &&
+                      "border-primary"
+                  )}
+                >
+                  <GripVertical className="h-4 w-4 shrink-0 cursor-grab text-muted-foreground" />
+                  <Avatar className="h-8 w-8 rounded">
+                    <AvatarImage
+                      src={playlist.images?.[0]?.url}
+                      alt={playlist.name}
+                    />
+                    <AvatarFallback className="rounded bg-muted">
+                      <Music className="h-4 w-4 text-muted-foreground" />
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0 flex-1">
+                    <p
+                      className={cn(
+                        "truncate text-xs font-medium",
+                        index === currentPlaylistIndex && "text-green-500"
+                      )}
+                    >
+                      {playlist.name}
+                    </p>
+                    {playlist.owner && (
+                      <p className="truncate text-xs text-muted-foreground">
+                        {playlist.owner}
+                      </p>
+                    )}
+                  </div>
+
+                  {isConfirmingRemove ? (
+                    <>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        className="text-xs"
+                        onClick={() => remove(playlist.spotify_playlist_id)}
+                        disabled={isSaving}
+                      >
+                        Remove
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-xs"
+                        onClick={() => setConfirmRemoveId(null)}
+                      >
+                        Cancel
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      {/* Buttons for reordering without a mouse */}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => move(index, index - 1)}
+                        disabled={isSaving || index === 0}
+                        title="Move up"
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => move(index, index + 1)}
+                        disabled={
+                          isSaving || index === roomPlaylists.length - 1
+                        }
+                        title="Move down"
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() =>
+                          setConfirmRemoveId(playlist.spotify_playlist_id)
+                        }
+                        disabled={isSaving}
+                        title={`Remove ${playlist.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+          {roomPlaylists.length === 0 && (
+            <p className="py-4 text-center text-xs text-muted-foreground">
+              This room has no playlists.
+            </p>
+          )}
+        </ScrollArea>
+
+        {isSaving && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Saving...
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
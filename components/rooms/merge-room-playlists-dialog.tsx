@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ExternalLink, ListPlus, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  mergeRoomPlaylists,
+  type MergeRoomPlaylistsProgress,
+  type MergeRoomPlaylistsResult,
+} from "@/lib/actions/spotify.actions";
+
+type MergeRoomPlaylistsDialogProps = {
+  roomId: string;
+  roomName: string;
+};
+
+type MergeStatus = "idle" | "collecting" | "adding" | "done" | "failed";
+
+/**
+ * Saves every track in the room to a new playlist on the user's Spotify
+ * account. Large rooms are added in several action calls, so progress is
+ * shown between them and a failed merge can be resumed where it stopped.
+ */
+export function MergeRoomPlaylistsDialog({
+  roomId,
+  roomName,
+}: MergeRoomPlaylistsDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [status, setStatus] = useState<MergeStatus>("idle");
+  const [progress, setProgress] = useState<MergeRoomPlaylistsProgress | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const isWorking = status === "collecting" || status === "adding";
+
+  const runMerge = async (resumeFrom: MergeRoomPlaylistsProgress | null) => {
+    setError(null);
+    setStatus(resumeFrom ? "adding" : "collecting");
+
+    // Keeps the last progress so the merge can be resumed
+    const fail = (message: string) => {
+      setError(message);
+      setStatus("failed");
+      toast.error(message);
+    };
+
+    let current = resumeFrom ?? undefined;
+    do {
+      let result: MergeRoomPlaylistsResult;
+      try {
+        result = await mergeRoomPlaylists(roomId, current);
+      } catch (err) {
+        console.error("Error merging room playlists:", err);
+        fail("Failed to merge the room playlists.");
+        return;
+      }
+      if (result.progress) {
+        current = result.progress;
+        setProgress(result.progress);
+        setStatus("adding");
+      }
+      if (!result.success) {
+        fail(result.error || "Failed to merge the room playlists.");
+        return;
+      }
+    } while (current && current.added < current.trackUris.length);
+
+    setStatus("done");
+    toast.success(`Saved "${roomName}" to your Spotify library`);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    // Keep the dialog open while tracks are being added
+    if (isWorking) return;
+    setIsOpen(open);
+    if (!open && status === "done") {
+      setStatus("idle");
+      setProgress(null);
+    }
+  };
+
+  const total = progress?.trackUris.length ?? 0;
+  const added = progress?.added ?? 0;
+  const percent = total > 0 ? Math.round((added / total) * 100) : 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Save room as a playlist">
+          <ListPlus className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save room as a playlist</DialogTitle>
+          <DialogDescription>
+            Creates a private playlist named &quot;{roomName}&quot; on your
+            Spotify account with every track from this room&apos;s playlists.
+            Tracks that appear in several playlists are added once.
+          </DialogDescription>
+        </DialogHeader>
+
+        {status === "collecting" && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Collecting tracks from the room&apos;s playlists...
+          </div>
+        )}
+
+        {progress && status !== "collecting" && (
+          <div className="flex flex-col gap-2">
+            <div
+              className="h-2 w-full overflow-hidden rounded-full bg-muted"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={total}
+              aria-valuenow={added}
+            >
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            <span className="text-xs text-muted-foreground">
+              {added} of {total} tracks added
+            </span>
+            {progress.truncated && (
+              <span className="text-xs text-muted-foreground">
+                Some playlists are too long to copy completely, so only their
+                first tracks are included.
+              </span>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <DialogFooter>
+          {status === "done" && progress?.playlistUrl ? (
+            <Button asChild>
+              <a href={progress.playlistUrl} target="_blank" rel="noreferrer">
+                <ExternalLink className="mr-2 h-4 w-4" />
+                Open in Spotify
+              </a>
+            </Button>
+          ) : status === "failed" && progress ? (
+            <Button onClick={() => runMerge(progress)}>Resume</Button>
+          ) : (
+            <Button
+              onClick={() => runMerge(null)}
+              disabled={isWorking || status === "done"}
+            >
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {status === "failed" ? "Try again" : "Create playlist"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,268 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ListMusic, Loader2, Music, Search } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getPlaylistTracksPage } from "@/lib/actions/spotify.actions";
+import { usePlayerContext } from "@/lib/contexts/player-context";
+import type { SimplePlaylistTrack } from "@/lib/types/index";
+
+// A playlist's tracks as loaded so far
+type LoadedPlaylistTracks = {
+  tracks: SimplePlaylistTrack[];
+  nextOffset: number | null; // Null once every page is loaded
+  total: number;
+  error: string | null;
+};
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds < 10 ? "0" : ""}${seconds}`;
+}
+
+function matchesSearch(track: SimplePlaylistTrack, query: string) {
+  return [track.name, track.albumName, ...track.artists].some((text) =>
+    text.toLowerCase().includes(query)
+  );
+}
+
+/**
+ * Lists the tracks of each room playlist with a search box; picking a track
+ * starts its playlist at that track. Pages load one after another while the
+ * dialog is open, so the first tracks show up right away.
+ */
+export function PlaylistTrackBrowser() {
+  const {
+    roomPlaylists,
+    currentPlaylistIndex,
+    currentTrack,
+    isPlayerReady,
+    isChangingPlaylist,
+    playPlaylistTrack,
+  } = usePlayerContext();
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [search, setSearch] = useState("");
+  const [loaded, setLoaded] = useState<Record<string, LoadedPlaylistTracks>>(
+    {}
+  );
+
+  const selectedPlaylist = roomPlaylists[selectedIndex];
+  const playlistId = selectedPlaylist?.spotify_playlist_id ?? null;
+  const playlistTracks = playlistId ? loaded[playlistId] : undefined;
+  const isLoading =
+    !!playlistId &&
+    (!playlistTracks ||
+      (playlistTracks.nextOffset !== null && !playlistTracks.error));
+
+  // Load the next page until the playlist is complete
+  useEffect(() => {
+    if (!isOpen || !playlistId) return;
+    const current = loaded[playlistId];
+    if (current && (current.nextOffset === null || current.error)) return;
+
+    let isCancelled = false;
+    getPlaylistTracksPage(playlistId, current?.nextOffset ?? 0).then(
+      (result) => {
+        if (isCancelled) return;
+        setLoaded((previous) => {
+          const before = previous[playlistId];
+          return {
+            ...previous,
+            [playlistId]: {
+              tracks: [...(before?.tracks ?? []), ...result.tracks],
+              nextOffset: result.error
+                ? before?.nextOffset ?? 0
+                : result.nextOffset,
+              total: result.total || before?.total || 0,
+              error: result.error ?? null,
+            },
+          };
+        });
+      }
+    );
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, playlistId, loaded]);
+
+  const query = search.trim().toLowerCase();
+  const visibleTracks = useMemo(() => {
+    const tracks = (playlistTracks?.tracks ?? []).map((track, index) => ({
+      track,
+      index,
+    }));
+    return query
+      ? tracks.filter(({ track }) => matchesSearch(track, query))
+      : tracks;
+  }, [playlistTracks, query]);
+
+  const currentTrackUri =
+    currentTrack?.linked_from?.uri ?? currentTrack?.uri ?? null;
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      // Start on the playlist that's playing
+      setSelectedIndex(
+        Math.min(currentPlaylistIndex, Math.max(roomPlaylists.length - 1, 0))
+      );
+      setSearch("");
+    }
+  };
+
+  const retry = () => {
+    if (!playlistId) return;
+    setLoaded((previous) => ({
+      ...previous,
+      [playlistId]: { ...previous[playlistId], error: null },
+    }));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Browse room playlists"
+          disabled={roomPlaylists.length === 0}
+        >
+          <ListMusic className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Room playlists</DialogTitle>
+          <DialogDescription>
+            Pick a track to play its playlist from there.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="w-full whitespace-nowrap">
+          <div className="flex gap-2 pb-2">
+            {roomPlaylists.map((playlist, index) => (
+              <Button
+                key={playlist.spotify_playlist_id}
+                variant={index === selectedIndex ? "default" : "outline"}
+                size="sm"
+                className="text-xs"
+                onClick={() => setSelectedIndex(index)}
+              >
+                {playlist.name}
+              </Button>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className="relative">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            className="pl-8"
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search tracks, artists or albums"
+            aria-label="Search tracks"
+          />
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {query
+              ? `${visibleTracks.length} matching`
+              : `${playlistTracks?.tracks.length ?? 0} tracks`}
+            {isLoading && playlistTracks?.total
+              ? ` (loading ${playlistTracks.total})`
+              : ""}
+          </span>
+          {isLoading && <Loader2 className="h-3 w-3 animate-spin" />}
+        </div>
+
+        {playlistTracks?.error && (
+          <div className="flex items-center justify-between text-sm text-red-500">
+            <span>{playlistTracks.error}</span>
+            <Button variant="outline" size="sm" onClick={retry}>
+              Retry
+            </Button>
+          </div>
+        )}
+
+        <ScrollArea className="h-80">
+          <ol className="flex flex-col gap-1 pr-2">
+            {visibleTracks.map(({ track, index }) => {
+              const isPlaying =
+                track.uri === currentTrackUri &&
+                selectedIndex === currentPlaylistIndex;
+              return (
+                <li key={`${track.uri}-${track.position ?? index}`}>
+                  <button
+                    type="button"
+                    className={cn(
+                      "flex w-full items-center gap-2 rounded px-1 py-1 text-left hover:bg-muted disabled:pointer-events-none disabled:opacity-50",
+                      isPlaying && "bg-muted"
+                    )}
+                    onClick={() =>
+                      playPlaylistTrack(
+                        selectedIndex,
+                        playlistTracks?.tracks ?? [],
+                        index
+                      )
+                    }
+                    disabled={!isPlayerReady || isChangingPlaylist}
+                    title={`Play ${track.name}`}
+                  >
+                    <span className="w-6 text-right text-xs text-muted-foreground">
+                      {(track.position ?? index) + 1}
+                    </span>
+                    <Avatar className="h-8 w-8 rounded">
+                      <AvatarImage src={track.imageUrl} alt={track.albumName} />
+                      <AvatarFallback className="rounded bg-muted">
+                        <Music className="h-4 w-4 text-muted-foreground" />
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0 flex-1">
+                      <p
+                        className={cn(
+                          "truncate text-xs font-medium",
+                          isPlaying && "text-green-500"
+                        )}
+                      >
+                        {track.name}
+                      </p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {track.artists.join(", ")}
+                      </p>
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDuration(track.durationMs)}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+          {!isLoading && visibleTracks.length === 0 && (
+            <p className="py-4 text-center text-xs text-muted-foreground">
+              {query ? "No tracks match your search." : "No playable tracks."}
+            </p>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Music } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { RoomAppearance } from "@/lib/types/index";
+
+type RoomCoverProps = {
+  appearance: Pick<
+    RoomAppearance,
+    "name" | "coverType" | "coverUrl" | "coverMosaicUrls" | "accentColor"
+  >;
+  className?: string;
+};
+
+function CoverFallback({ accentColor }: { accentColor: string | null }) {
+  return (
+    <AvatarFallback
+      className="rounded bg-muted"
+      style={accentColor ? { backgroundColor: accentColor } : undefined}
+    >
+      <Music
+        className={cn(
+          "h-1/2 w-1/2",
+          accentColor ? "text-white/80" : "text-muted-foreground"
+        )}
+      />
+    </AvatarFallback>
+  );
+}
+
+/**
+ * A room's cover art: the uploaded image, a 2x2 mosaic of playlist covers,
+ * or a music note on the room's accent color. Size it with `className`.
+ */
+export function RoomCover({ appearance, className }: RoomCoverProps) {
+  const { name, coverType, coverUrl, coverMosaicUrls, accentColor } =
+    appearance;
+  const alt = name ?? "Room cover";
+
+  if (coverType === "mosaic" && coverMosaicUrls.length > 1) {
+    // Repeat covers to fill the grid when there are fewer than four
+    const tiles = [0, 1, 2, 3].map(
+      (index) => coverMosaicUrls[index % coverMosaicUrls.length]
+    );
+    return (
+      <div
+        className={cn(
+          "grid shrink-0 grid-cols-2 overflow-hidden rounded",
+          className
+        )}
+      >
+        {tiles.map((url, index) => (
+          <Avatar key={index} className="size-full rounded-none">
+            <AvatarImage src={url} alt={alt} className="object-cover" />
+            <CoverFallback accentColor={accentColor} />
+          </Avatar>
+        ))}
+      </div>
+    );
+  }
+
+  const src =
+    coverType === "upload"
+      ? coverUrl
+      : coverType === "mosaic"
+        ? coverMosaicUrls[0]
+        : null;
+
+  return (
+    <Avatar className={cn("rounded", className)}>
+      {src && <AvatarImage src={src} alt={alt} className="object-cover" />}
+      <CoverFallback accentColor={accentColor} />
+    </Avatar>
+  );
+}
@@ -0,0 +1,39 @@
+import { RoomCover } from "@/components/rooms/room-cover";
+import type { RoomAppearance } from "@/lib/types/index";
+
+type RoomHeaderProps = {
+  appearance: RoomAppearance;
+  fallbackName: string;
+};
+
+/**
+ * The room's cover, name and description for the top bar of the room page,
+ * underlined in the room's accent color.
+ */
+export function RoomHeader({ appearance, fallbackName }: RoomHeaderProps) {
+  return (
+    <div
+      className="flex min-w-0 items-center gap-2 border-b-2 border-transparent pb-0.5"
+      style={
+        appearance.accentColor
+          ? { borderColor: appearance.accentColor }
+          : undefined
+      }
+    >
+      <RoomCover appearance={appearance} className="h-8 w-8" />
+      <div className="min-w-0">
+        <p className="truncate text-sm font-semibold">
+          {appearance.name || fallbackName}
+        </p>
+        {appearance.description && (
+          <p
+            className="hidden truncate text-xs text-muted-foreground sm:block"
+            title={appearance.description}
+          >
+            {appearance.description}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
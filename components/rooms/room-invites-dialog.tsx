@@ -0,0 +1,304 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Copy, Loader2, Lock, Trash2, UserPlus } from "lucide-react";
+import { formatDistanceToNowStrict } from "date-fns";
+import { toast } from "sonner";
+import {
+  createRoomInvite,
+  getRoomInvites,
+  revokeRoomInvite,
+  setRoomVisibility,
+} from "@/lib/actions/supabase.actions";
+import { buildRoomInviteUrl, getRoomInviteStatus } from "@/lib/room-invites";
+import type { RoomInvite, RoomVisibility } from "@/lib/types/index";
+
+type RoomInvitesDialogProps = {
+  roomId: string;
+  visibility: RoomVisibility;
+};
+
+const EXPIRY_OPTIONS: { label: string; hours: number | null }[] = [
+  { label: "1 hour", hours: 1 },
+  { label: "1 day", hours: 24 },
+  { label: "7 days", hours: 24 * 7 },
+  { label: "Never", hours: null },
+];
+
+function getSiteUrl() {
+  // Ensure NEXT_PUBLIC_SITE_URL is set in env for links shared off-site
+  return process.env.NEXT_PUBLIC_SITE_URL || window.location.origin;
+}
+
+async function copyLink(url: string) {
+  try {
+    await navigator.clipboard.writeText(url);
+    toast.success("Invite link copied to clipboard!");
+  } catch (err) {
+    console.error("Failed to copy text: ", err);
+    toast.error("Failed to copy link.");
+  }
+}
+
+function describeInvite(invite: RoomInvite, now: number) {
+  const status = getRoomInviteStatus(invite, now);
+  if (status === "expired") return "Expired";
+  if (status === "used_up") return "Used up";
+  const uses =
+    invite.maxUses === null
+      ? `${invite.useCount} uses`
+      : `${invite.useCount}/${invite.maxUses} uses`;
+  const expiry = invite.expiresAt
+    ? `expires ${formatDistanceToNowStrict(new Date(invite.expiresAt), {
+        addSuffix: true,
+      })}`
+    : "never expires";
+  return `${uses}, ${expiry}`;
+}
+
+/**
+ * Lets the room's DJ choose who can join: anyone with the room link, or only
+ * people with an invite link. Invite links can expire after a while or a
+ * number of uses, and can be revoked.
+ */
+export function RoomInvitesDialog({
+  roomId,
+  visibility: initialVisibility,
+}: RoomInvitesDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [visibility, setVisibility] =
+    useState<RoomVisibility>(initialVisibility);
+  const [invites, setInvites] = useState<RoomInvite[]>([]);
+  const [expiresInHours, setExpiresInHours] = useState<number | null>(24);
+  const [maxUses, setMaxUses] = useState("");
+  const [isLoadingInvites, setIsLoadingInvites] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadInvites = async () => {
+    setIsLoadingInvites(true);
+    const result = await getRoomInvites(roomId);
+    if (result.error) {
+      toast.error(result.error);
+    } else {
+      setInvites(result.invites);
+    }
+    setIsLoadingInvites(false);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) loadInvites();
+  };
+
+  const changeVisibility = async (newVisibility: RoomVisibility) => {
+    if (newVisibility === visibility || isSaving) return;
+    setIsSaving(true);
+    const result = await setRoomVisibility(roomId, newVisibility);
+    if (result.success) {
+      setVisibility(newVisibility);
+    } else {
+      toast.error(result.error || "Failed to change who can join.");
+    }
+    setIsSaving(false);
+  };
+
+  const createInvite = async () => {
+    const parsedMaxUses = maxUses.trim() ? Number(maxUses) : null;
+    if (
+      parsedMaxUses !== null &&
+      (!Number.isInteger(parsedMaxUses) || parsedMaxUses < 1)
+    ) {
+      toast.error("Max uses must be a whole number above 0.");
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await createRoomInvite(roomId, {
+      expiresInHours,
+      maxUses: parsedMaxUses,
+    });
+    const invite = result.invite;
+    if (result.success && invite) {
+      setInvites((previous) => [invite, ...previous]);
+      setMaxUses("");
+      await copyLink(buildRoomInviteUrl(getSiteUrl(), roomId, invite.token));
+    } else {
+      toast.error(result.error || "Failed to create the invite.");
+    }
+    setIsSaving(false);
+  };
+
+  const revokeInvite = async (inviteId: string) => {
+    setIsSaving(true);
+    const result = await revokeRoomInvite(roomId, inviteId);
+    if (result.success) {
+      setInvites((previous) =>
+        previous.filter((invite) => invite.id !== inviteId)
+      );
+      toast.success("Invite revoked");
+    } else {
+      toast.error(result.error || "Failed to revoke the invite.");
+    }
+    setIsSaving(false);
+  };
+
+  const now = Date.now();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          {visibility === "invite_only" ? (
+            <Lock className="mr-2 h-4 w-4" />
+          ) : (
+            <UserPlus className="mr-2 h-4 w-4" />
+          )}
+          Invite
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Invite people</DialogTitle>
+          <DialogDescription>
+            {visibility === "public"
+              ? "Anyone with the room link can join."
+              : "Only people with an invite link can find and join this room."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Button
+            variant={visibility === "public" ? "default" : "outline"}
+            size="sm"
+            onClick={() => changeVisibility("public")}
+            disabled={isSaving}
+          >
+            Public
+          </Button>
+          <Button
+            variant={visibility === "invite_only" ? "default" : "outline"}
+            size="sm"
+            onClick={() => changeVisibility("invite_only")}
+            disabled={isSaving}
+          >
+            Invite-only
+          </Button>
+        </div>
+
+        {visibility === "public" ? (
+          <Button
+            variant="outline"
+            onClick={() => copyLink(buildRoomInviteUrl(getSiteUrl(), roomId))}
+          >
+            <Copy className="mr-2 h-4 w-4" />
+            Copy room link
+          </Button>
+        ) : (
+          <>
+            <div className="flex flex-col gap-2">
+              <Label>Link expires after</Label>
+              <div className="flex flex-wrap gap-2">
+                {EXPIRY_OPTIONS.map((option) => (
+                  <Button
+                    key={option.label}
+                    variant={
+                      expiresInHours === option.hours ? "default" : "outline"
+                    }
+                    size="sm"
+                    className="text-xs"
+                    onClick={() => setExpiresInHours(option.hours)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+              <Label htmlFor="invite-max-uses">Max uses</Label>
+              <Input
+                id="invite-max-uses"
+                type="number"
+                min={1}
+                value={maxUses}
+                onChange={(e) => setMaxUses(e.target.value)}
+                placeholder="Unlimited"
+              />
+              <Button onClick={createInvite} disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create and copy invite link
+              </Button>
+            </div>
+
+            <ScrollArea className="max-h-60">
+              <ul className="flex flex-col gap-1 pr-2">
+                {invites.map((invite) => {
+                  const isActive =
+                    getRoomInviteStatus(invite, now) === "active";
+                  return (
+                    <li
+                      key={invite.id}
+                      className="flex items-center gap-2 text-xs"
+                    >
+                      <span
+                        className={
+                          isActive
+                            ? "flex-1 truncate"
+                            : "flex-1 truncate text-muted-foreground"
+                        }
+                      >
+                        {describeInvite(invite, now)}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() =>
+                          copyLink(
+                            buildRoomInviteUrl(
+                              getSiteUrl(),
+                              roomId,
+                              invite.token
+                            )
+                          )
+                        }
+                        disabled={!isActive}
+                        title="Copy invite link"
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => revokeInvite(invite.id)}
+                        disabled={isSaving}
+                        title="Revoke invite"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  );
+                })}
+              </ul>
+              {!isLoadingInvites && invites.length === 0 && (
+                <p className="py-2 text-center text-xs text-muted-foreground">
+                  No invite links yet.
+                </p>
+              )}
+            </ScrollArea>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,70 +1,102 @@
 "use client";
 
-import { useEffect } from "react";
-import { createClient } from "@/lib/supabase/client";
-// Assuming database types are correctly set up for client-side usage if needed
-// import { Database } from "@/lib/types/database.types";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { joinRoom } from "@/lib/actions/supabase.actions";
+import { RoomCover } from "@/components/rooms/room-cover";
+import { useRoomContext } from "@/lib/contexts/room-context";
+import type { RoomAppearance } from "@/lib/types/index";
 
 type RoomJoinHandlerProps = {
   roomId: string;
-  userId: string | undefined; // Passed from server component
+  inviteToken?: string; // From the invite link, required for invite-only rooms
+  // The room isn't visible yet, so this is all the page shows
+  isJoiningWithInvite?: boolean;
+  // What the invite leads to, shown while joining
+  preview?: RoomAppearance | null;
 };
 
-export function RoomJoinHandler({ roomId, userId }: RoomJoinHandlerProps) {
+/**
+ * Makes the current user a member of the room they opened. Joining goes
+ * through the joinRoom server action, which lets anyone into public rooms and
+ * checks the invite token for invite-only rooms.
+ */
+export function RoomJoinHandler({
+  roomId,
+  inviteToken,
+  isJoiningWithInvite = false,
+  preview,
+}: RoomJoinHandlerProps) {
+  const router = useRouter();
+  const { refreshRole } = useRoomContext();
+  const [error, setError] = useState<string | null>(null);
+
   useEffect(() => {
-    const joinRoomIfNeeded = async () => {
-      if (!userId) {
-        console.warn("RoomJoinHandler: userId not provided.");
+    let isCancelled = false;
+
+    joinRoom(roomId, inviteToken).then((result) => {
+      if (isCancelled) return;
+      if (!result.success) {
+        const message = result.error || "Failed to join the room.";
+        setError(message);
+        if (!isJoiningWithInvite) toast.error(message);
         return;
       }
-      if (!roomId) {
-        console.warn("RoomJoinHandler: roomId not provided.");
-        return;
+      // Pick up the new role, which lets the chat connect
+      if (result.joined) refreshRole();
+      if (inviteToken) {
+        // Drop the token from the URL; reloads the room if it was hidden
+        router.replace(`/rooms/${roomId}`);
+        router.refresh();
       }
+    });
 
-      const supabase = createClient(); // Client-side Supabase client
-
-      try {
-        // 1. Check if user is already a member
-        const { data: existingMember, error: checkError } = await supabase
-          .from("room_members")
-          .select("user_id")
-          .eq("room_id", roomId)
-          .eq("user_id", userId)
-          .maybeSingle(); // Use maybeSingle to handle 0 or 1 row
-
-        if (checkError && checkError.code !== "PGRST116") {
-          // PGRST116: "Searched for one row but found 0" - expected if not a member
-          console.error("Error checking room membership:", checkError);
-          return;
-        }
-
-        // 2. If not already a member, insert them
-        if (!existingMember) {
-          console.log(
-            `User ${userId} not found in room ${roomId}. Attempting to join...`
-          );
-          const { error: insertError } = await supabase
-            .from("room_members")
-            .insert({
-              room_id: roomId,
-              user_id: userId,
-              role: "member", // Assign the default 'member' role
-            });
-
-          if (insertError) {
-            console.error("Error joining room:", insertError);
-            // Potentially show a toast notification to the user here
-          }
-        }
-      } catch (error) {
-        console.error("Unexpected error in joinRoomIfNeeded:", error);
-      }
+    return () => {
+      isCancelled = true;
     };
+  }, [roomId, inviteToken, isJoiningWithInvite, router, refreshRole]);
 
-    joinRoomIfNeeded();
-  }, [roomId, userId]); // Re-run if roomId or userId changes
+  if (!isJoiningWithInvite) return null;
 
-  // This component does not render anything visual
-  return null;
+  return (
+    <div className="flex flex-col items-center gap-4 p-8 text-center">
+      {preview && (
+        <div
+          className="flex max-w-sm flex-col items-center gap-2 rounded-lg border-t-4 border-transparent p-4"
+          style={
+            preview.accentColor
+              ? { borderTopColor: preview.accentColor }
+              : undefined
+          }
+        >
+          <RoomCover appearance={preview} className="h-32 w-32" />
+          <p className="text-lg font-semibold">
+            {preview.name || "You're invited to a room"}
+          </p>
+          {preview.description && (
+            <p className="text-sm text-muted-foreground">
+              {preview.description}
+            </p>
+          )}
+        </div>
+      )}
+      {error ? (
+        <>
+          <p className="text-red-500">{error}</p>
+          <Button variant="outline" asChild>
+            <Link href="/rooms">Back to your rooms</Link>
+          </Button>
+        </>
+      ) : (
+        <p className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Joining room...
+        </p>
+      )}
+    </div>
+  );
 }
@@ -0,0 +1,421 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Ban, Crown, Loader2, UserMinus, Users } from "lucide-react";
+import { formatDistanceToNowStrict } from "date-fns";
+import { toast } from "sonner";
+import {
+  banRoomMember,
+  getRoomBans,
+  getRoomMembers,
+  removeRoomMember,
+  setRoomMemberRole,
+  transferRoomOwnership,
+  unbanRoomMember,
+} from "@/lib/actions/supabase.actions";
+import { useRoomContext } from "@/lib/contexts/room-context";
+import { ROOM_ROLE_LABELS } from "@/lib/room-permissions";
+import type { RoomBan, RoomMember } from "@/lib/types/index";
+
+type RoomMembersPanelProps = {
+  roomId: string;
+  currentUserId: string;
+};
+
+// What the owner is confirming for a member
+type PendingAction = { userId: string; type: "transfer" | "remove" | "ban" };
+
+const BAN_DURATION_OPTIONS: { label: string; hours: number | null }[] = [
+  { label: "1 day", hours: 24 },
+  { label: "7 days", hours: 24 * 7 },
+  { label: "Permanent", hours: null },
+];
+
+const PENDING_ACTION_HINTS: Record<PendingAction["type"], string> = {
+  transfer: "They become the room's owner and DJ; you stay on as a co-DJ.",
+  remove: "They leave the room but can join again if it's public.",
+  ban: "They leave the room and can't join again until the ban ends.",
+};
+
+function getInitials(name: string) {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase();
+}
+
+/**
+ * Lists the room's members and their roles. The owner can make members
+ * co-DJs, demote them again, remove or ban them, or hand the room to
+ * someone else.
+ */
+export function RoomMembersPanel({
+  roomId,
+  currentUserId,
+}: RoomMembersPanelProps) {
+  const router = useRouter();
+  const { permissions, refreshRole } = useRoomContext();
+  const [isOpen, setIsOpen] = useState(false);
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [bans, setBans] = useState<RoomBan[]>([]);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(
+    null
+  );
+  const [banReason, setBanReason] = useState("");
+  const [banDurationHours, setBanDurationHours] = useState<number | null>(24);
+
+  const loadMembers = async () => {
+    setIsLoading(true);
+    const result = await getRoomMembers(roomId);
+    if (result.error) {
+      toast.error(result.error);
+    } else {
+      setMembers(result.members);
+    }
+    setIsLoading(false);
+  };
+
+  // Only the owner can read bans
+  const loadBans = async () => {
+    const result = await getRoomBans(roomId);
+    if (result.error) {
+      toast.error(result.error);
+    } else {
+      setBans(result.bans);
+    }
+  };
+
+  const confirmAction = (action: PendingAction | null) => {
+    setPendingAction(action);
+    setBanReason("");
+    setBanDurationHours(24);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    confirmAction(null);
+    if (open) {
+      loadMembers();
+      if (permissions.canManageMembers) loadBans();
+    }
+  };
+
+  const changeRole = async (member: RoomMember) => {
+    const newRole = member.role === "co_dj" ? "member" : "co_dj";
+    setBusyUserId(member.userId);
+    const result = await setRoomMemberRole(roomId, member.userId, newRole);
+    if (result.success) {
+      setMembers((previous) =>
+        previous.map((m) =>
+          m.userId === member.userId ? { ...m, role: newRole } : m
+        )
+      );
+    } else {
+      toast.error(result.error || "Failed to change the role.");
+    }
+    setBusyUserId(null);
+  };
+
+  const transferOwnership = async (member: RoomMember) => {
+    confirmAction(null);
+    setBusyUserId(member.userId);
+    const result = await transferRoomOwnership(roomId, member.userId);
+    if (result.success) {
+      toast.success(`${member.name} is now the room's DJ`);
+      await Promise.all([refreshRole(), loadMembers()]);
+      router.refresh();
+    } else {
+      toast.error(result.error || "Failed to transfer the room.");
+    }
+    setBusyUserId(null);
+  };
+
+  const removeMember = async (member: RoomMember) => {
+    confirmAction(null);
+    setBusyUserId(member.userId);
+    const result = await removeRoomMember(roomId, member.userId);
+    if (result.success) {
+      setMembers((previous) =>
+        previous.filter((m) => m.userId !== member.userId)
+      );
+      toast.success(`${member.name} was removed from the room`);
+    } else {
+      toast.error(result.error || "Failed to remove the member.");
+    }
+    setBusyUserId(null);
+  };
+
+  const banMember = async (member: RoomMember) => {
+    const options = {
+      reason: banReason.trim() || null,
+      durationHours: banDurationHours,
+    };
+    confirmAction(null);
+    setBusyUserId(member.userId);
+    const result = await banRoomMember(roomId, member.userId, options);
+    if (result.success) {
+      setMembers((previous) =>
+        previous.filter((m) => m.userId !== member.userId)
+      );
+      toast.success(`${member.name} was banned from the room`);
+      await loadBans();
+    } else {
+      toast.error(result.error || "Failed to ban the member.");
+    }
+    setBusyUserId(null);
+  };
+
+  const unban = async (ban: RoomBan) => {
+    setBusyUserId(ban.userId);
+    const result = await unbanRoomMember(roomId, ban.userId);
+    if (result.success) {
+      setBans((previous) => previous.filter((b) => b.userId !== ban.userId));
+      toast.success(`${ban.name} can join the room again`);
+    } else {
+      toast.error(result.error || "Failed to lift the ban.");
+    }
+    setBusyUserId(null);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Room members">
+          <Users className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Members</DialogTitle>
+          <DialogDescription>
+            The DJ controls playback. Co-DJs can add and arrange playlists and
+            moderate the chat.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-96">
+          <ul className="flex flex-col gap-1 pr-2">
+            {members.map((member) => {
+              const isSelf = member.userId === currentUserId;
+              const canManage =
+                permissions.canManageMembers && !isSelf && member.role !== "DJ";
+              const isBusy = busyUserId === member.userId;
+              return (
+                <li
+                  key={member.userId}
+                  className="flex items-center gap-2 rounded px-1 py-1"
+                >
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={member.avatarUrl} alt={member.name} />
+                    <AvatarFallback className="text-xs">
+                      {getInitials(member.name)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-xs font-medium">
+                      {member.name}
+                      {isSelf && " (you)"}
+                    </p>
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                      {member.role === "DJ" && <Crown className="h-3 w-3" />}
+                      {ROOM_ROLE_LABELS[member.role]}
+                    </p>
+                  </div>
+
+                  {isBusy && <Loader2 className="h-4 w-4 animate-spin" />}
+                  {canManage &&
+                    !isBusy &&
+                    (pendingAction?.userId === member.userId ? (
+                      <>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          className="text-xs"
+                          onClick={() => {
+                            if (pendingAction.type === "transfer") {
+                              transferOwnership(member);
+                            } else if (pendingAction.type === "remove") {
+                              removeMember(member);
+                            } else {
+                              banMember(member);
+                            }
+                          }}
+                        >
+                          {pendingAction.type === "transfer"
+                            ? "Make DJ"
+                            : pendingAction.type === "remove"
+                              ? "Remove"
+                              : "Ban"}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-xs"
+                          onClick={() => confirmAction(null)}
+                        >
+                          Cancel
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-xs"
+                          onClick={() => changeRole(member)}
+                          disabled={!!busyUserId}
+                        >
+                          {member.role === "co_dj"
+                            ? "Remove co-DJ"
+                            : "Make co-DJ"}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() =>
+                            confirmAction({
+                              userId: member.userId,
+                              type: "transfer",
+                            })
+                          }
+                          disabled={!!busyUserId}
+                          title={`Hand the room to ${member.name}`}
+                        >
+                          <Crown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() =>
+                            confirmAction({
+                              userId: member.userId,
+                              type: "remove",
+                            })
+                          }
+                          disabled={!!busyUserId}
+                          title={`Remove ${member.name}`}
+                        >
+                          <UserMinus className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() =>
+                            confirmAction({
+                              userId: member.userId,
+                              type: "ban",
+                            })
+                          }
+                          disabled={!!busyUserId}
+                          title={`Ban ${member.name}`}
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      </>
+                    ))}
+                </li>
+              );
+            })}
+          </ul>
+          {isLoading && members.length === 0 && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </ScrollArea>
+
+        {pendingAction && (
+          <p className="text-xs text-muted-foreground">
+            {PENDING_ACTION_HINTS[pendingAction.type]}
+          </p>
+        )}
+
+        {pendingAction?.type === "ban" && (
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="ban-reason">Reason (optional)</Label>
+            <Input
+              id="ban-reason"
+              value={banReason}
+              onChange={(e) => setBanReason(e.target.value)}
+              maxLength={200}
+              placeholder="Shown to them if they try to rejoin"
+            />
+            <Label>Ban for</Label>
+            <div className="flex flex-wrap gap-2">
+              {BAN_DURATION_OPTIONS.map((option) => (
+                <Button
+                  key={option.label}
+                  variant={
+                    banDurationHours === option.hours ? "default" : "outline"
+                  }
+                  size="sm"
+                  className="text-xs"
+                  onClick={() => setBanDurationHours(option.hours)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {permissions.canManageMembers && bans.length > 0 && (
+          <div className="flex flex-col gap-1">
+            <p className="text-xs font-medium">Banned</p>
+            <ul className="flex flex-col gap-1">
+              {bans.map((ban) => (
+                <li key={ban.userId} className="flex items-center gap-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-xs">{ban.name}</p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {ban.expiresAt
+                        ? `Ends ${formatDistanceToNowStrict(
+                            new Date(ban.expiresAt),
+                            { addSuffix: true }
+                          )}`
+                        : "Permanent"}
+                      {ban.reason && ` · ${ban.reason}`}
+                    </p>
+                  </div>
+                  {busyUserId === ban.userId ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-xs"
+                      onClick={() => unban(ban)}
+                      disabled={!!busyUserId}
+                    >
+                      Unban
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Archive, ArchiveRestore, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { deleteRoom, setRoomArchived } from "@/lib/actions/supabase.actions";
+
+type RoomOwnerActionsProps = {
+  roomId: string;
+  roomName: string;
+  isArchived: boolean;
+};
+
+/**
+ * Archive, restore and delete buttons for a room card on the rooms page.
+ * Deleting asks for confirmation first since it can't be undone.
+ */
+export function RoomOwnerActions({
+  roomId,
+  roomName,
+  isArchived,
+}: RoomOwnerActionsProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const toggleArchived = async () => {
+    setIsSaving(true);
+    const result = await setRoomArchived(roomId, !isArchived);
+    if (result.success) {
+      toast.success(
+        isArchived ? `${roomName} was restored` : `${roomName} was archived`
+      );
+    } else {
+      toast.error(result.error || "Failed to update the room.");
+    }
+    setIsSaving(false);
+  };
+
+  const remove = async () => {
+    setIsSaving(true);
+    const result = await deleteRoom(roomId);
+    if (result.success) {
+      setIsConfirmingDelete(false);
+      toast.success(`${roomName} was deleted`);
+    } else {
+      toast.error(result.error || "Failed to delete the room.");
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={toggleArchived}
+        disabled={isSaving}
+        title={isArchived ? "Restore room" : "Archive room"}
+      >
+        {isArchived ? (
+          <ArchiveRestore className="h-4 w-4" />
+        ) : (
+          <Archive className="h-4 w-4" />
+        )}
+      </Button>
+      <Dialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <DialogTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={isSaving}
+            title="Delete room"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete {roomName}?</DialogTitle>
+            <DialogDescription>
+              The room&apos;s chat, playlists and play history are deleted
+              with it and everyone loses access. This can&apos;t be undone;
+              archive the room instead to keep it.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="ghost"
+              onClick={() => setIsConfirmingDelete(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={remove} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete room
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
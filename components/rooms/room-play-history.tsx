@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ExternalLink, History, Loader2, Users } from "lucide-react";
+import { format, formatDistanceToNowStrict } from "date-fns";
+import { getRoomPlayHistory } from "@/lib/actions/supabase.actions";
+import type { RoomPlayHistoryEntry } from "@/lib/types/index";
+
+type RoomPlayHistoryProps = {
+  roomId: string;
+};
+
+// "spotify:track:<id>" -> open.spotify.com link
+function getTrackUrl(trackUri: string): string | null {
+  const [, type, id] = trackUri.split(":");
+  return type === "track" && id ? `https://open.spotify.com/track/${id}` : null;
+}
+
+/**
+ * Lists the tracks played in the room, newest first. Reloaded each time it
+ * opens; older entries load a page at a time.
+ */
+export function RoomPlayHistory({ roomId }: RoomPlayHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<RoomPlayHistoryEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (before?: string) => {
+    setIsLoading(true);
+    setError(null);
+    const result = await getRoomPlayHistory(roomId, before);
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setEntries((previous) =>
+        before ? [...previous, ...result.entries] : result.entries
+      );
+      setHasMore(result.hasMore);
+    }
+    setIsLoading(false);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) load();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Play history">
+          <History className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Play history</DialogTitle>
+          <DialogDescription>
+            Everything the DJ played in this room, newest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <ScrollArea className="h-96">
+          <ol className="flex flex-col gap-1 pr-2">
+            {entries.map((entry) => {
+              const trackUrl = getTrackUrl(entry.trackUri);
+              const startedAt = new Date(entry.startedAt);
+              return (
+                <li
+                  key={entry.id}
+                  className="flex items-center gap-2 rounded px-1 py-1 hover:bg-muted"
+                >
+                  <div
+                    className="w-16 shrink-0 text-xs text-muted-foreground"
+                    title={format(startedAt, "PPpp")}
+                  >
+                    <p>{format(startedAt, "HH:mm")}</p>
+                    <p className="truncate">
+                      {formatDistanceToNowStrict(startedAt, {
+                        addSuffix: true,
+                      })}
+                    </p>
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-xs font-medium">
+                      {entry.trackName}
+                    </p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {entry.artists.join(", ")}
+                      {entry.playlistName && ` · ${entry.playlistName}`}
+                    </p>
+                  </div>
+                  <span
+                    className="flex items-center gap-1 text-xs text-muted-foreground"
+                    title={`${entry.listenerCount} listening`}
+                  >
+                    <Users className="h-3 w-3" />
+                    {entry.listenerCount}
+                  </span>
+                  {trackUrl && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      asChild
+                    >
+                      <a
+                        href={trackUrl}
+                        target="_blank"
+                        rel="noreferrer"
+                        title="Open in Spotify"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+          {!isLoading && !error && entries.length === 0 && (
+            <p className="py-4 text-center text-xs text-muted-foreground">
+              Nothing has been played in this room yet.
+            </p>
+          )}
+          {isLoading && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {hasMore && !isLoading && (
+            <div className="flex justify-center py-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => load(entries[entries.length - 1]?.startedAt)}
+              >
+                Load older
+              </Button>
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
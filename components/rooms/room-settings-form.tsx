@@ -0,0 +1,256 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, ImageUp, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { createClient } from "@/lib/supabase/client";
+import { updateRoomSettings } from "@/lib/actions/supabase.actions";
+import {
+  MAX_ROOM_COVER_BYTES,
+  ROOM_ACCENT_COLORS,
+  ROOM_COVERS_BUCKET,
+  ROOM_COVER_MIME_TYPES,
+  normalizeAccentColor,
+} from "@/lib/room-appearance";
+import { RoomCover } from "@/components/rooms/room-cover";
+import type { RoomAppearance, RoomCoverType } from "@/lib/types/index";
+
+type RoomSettingsFormProps = {
+  roomId: string;
+  appearance: RoomAppearance;
+  // Covers of the room's playlists right now, for previewing a mosaic
+  playlistCoverUrls: string[];
+};
+
+const COVER_OPTIONS: { label: string; type: RoomCoverType }[] = [
+  { label: "None", type: "none" },
+  { label: "Upload", type: "upload" },
+  { label: "Playlist mosaic", type: "mosaic" },
+];
+
+/**
+ * The room owner's settings form: name, description, cover art and accent
+ * color. Cover images upload to storage straight away; nothing else changes
+ * until the form is saved.
+ */
+export function RoomSettingsForm({
+  roomId,
+  appearance,
+  playlistCoverUrls,
+}: RoomSettingsFormProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState(appearance.name ?? "");
+  const [description, setDescription] = useState(appearance.description ?? "");
+  const [coverType, setCoverType] = useState<RoomCoverType>(
+    appearance.coverType
+  );
+  const [coverUrl, setCoverUrl] = useState(appearance.coverUrl);
+  const [accentColor, setAccentColor] = useState(appearance.accentColor);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const uploadCover = async (file: File) => {
+    if (!ROOM_COVER_MIME_TYPES.includes(file.type)) {
+      toast.error("Covers must be JPEG, PNG or WebP images.");
+      return;
+    }
+    if (file.size > MAX_ROOM_COVER_BYTES) {
+      toast.error("Covers can be at most 2 MB.");
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const supabase = createClient();
+      const extension = file.type.split("/")[1];
+      const path = `${roomId}/${crypto.randomUUID()}.${extension}`;
+      const { error } = await supabase.storage
+        .from(ROOM_COVERS_BUCKET)
+        .upload(path, file, { contentType: file.type });
+      if (error) throw error;
+
+      const { data } = supabase.storage
+        .from(ROOM_COVERS_BUCKET)
+        .getPublicUrl(path);
+      setCoverUrl(data.publicUrl);
+      setCoverType("upload");
+    } catch (error) {
+      console.error("Error uploading room cover:", error);
+      toast.error("Failed to upload the cover.");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const chooseCoverType = (type: RoomCoverType) => {
+    if (type === "upload" && !coverUrl) {
+      fileInputRef.current?.click();
+      return;
+    }
+    setCoverType(type);
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const result = await updateRoomSettings(roomId, {
+      name,
+      description: description.trim() || null,
+      accentColor,
+      coverType,
+      coverUrl,
+    });
+    if (result.success) {
+      toast.success("Room settings saved");
+    } else {
+      toast.error(result.error || "Failed to save the room settings.");
+    }
+    setIsSaving(false);
+  };
+
+  const preview: RoomAppearance = {
+    name,
+    description,
+    coverType,
+    coverUrl,
+    coverMosaicUrls:
+      coverType === "mosaic" ? playlistCoverUrls : appearance.coverMosaicUrls,
+    accentColor,
+  };
+
+  return (
+    <form onSubmit={save} className="flex w-full max-w-md flex-col gap-6">
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="room-name">Name</Label>
+        <Input
+          id="room-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={80}
+          required
+        />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="room-description">Description</Label>
+        <Textarea
+          id="room-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={500}
+          placeholder="What's this room about?"
+        />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label>Cover art</Label>
+        <div className="flex items-center gap-4">
+          <RoomCover appearance={preview} className="h-24 w-24" />
+          <div className="flex flex-col gap-2">
+            <div className="flex flex-wrap gap-2">
+              {COVER_OPTIONS.map((option) => (
+                <Button
+                  key={option.type}
+                  type="button"
+                  variant={coverType === option.type ? "default" : "outline"}
+                  size="sm"
+                  className="text-xs"
+                  onClick={() => chooseCoverType(option.type)}
+                  disabled={
+                    isUploading ||
+                    (option.type === "mosaic" && playlistCoverUrls.length === 0)
+                  }
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="justify-start text-xs"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+            >
+              {isUploading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <ImageUp className="mr-2 h-4 w-4" />
+              )}
+              {coverUrl ? "Upload a different image" : "Upload an image"}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ROOM_COVER_MIME_TYPES.join(",")}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) uploadCover(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label>Accent color</Label>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            type="button"
+            variant={accentColor ? "outline" : "default"}
+            size="sm"
+            className="text-xs"
+            onClick={() => setAccentColor(null)}
+          >
+            None
+          </Button>
+          {ROOM_ACCENT_COLORS.map((color) => (
+            <button
+              key={color}
+              type="button"
+              className={cn(
+                "flex h-7 w-7 items-center justify-center rounded-full",
+                accentColor === color && "ring-2 ring-ring ring-offset-2"
+              )}
+              style={{ backgroundColor: color }}
+              onClick={() => setAccentColor(color)}
+              title={color}
+            >
+              {accentColor === color && (
+                <Check className="h-4 w-4 text-white" />
+              )}
+            </button>
+          ))}
+          <Input
+            type="color"
+            className="h-7 w-10 cursor-pointer p-0.5"
+            value={accentColor ?? "#000000"}
+            onChange={(e) =>
+              setAccentColor(normalizeAccentColor(e.target.value))
+            }
+            title="Pick any color"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={isSaving || isUploading}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+        <Button type="button" variant="ghost" asChild>
+          <Link href={`/rooms/${roomId}`}>Back to room</Link>
+        </Button>
+      </div>
+    </form>
+  );
+}
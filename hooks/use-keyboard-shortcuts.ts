@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import {
+  findShortcut,
+  isTypingTarget,
+  type RoomShortcutId,
+} from "@/lib/keyboard-shortcuts";
+
+export type ShortcutHandlers = Partial<Record<RoomShortcutId, () => void>>;
+
+/**
+ * Calls the handler of the room shortcut a key press matches. Presses while
+ * typing in an input, or on a shortcut without a handler, pass through to
+ * the page.
+ */
+export const useKeyboardShortcuts = (
+  handlers: ShortcutHandlers,
+  enabled: boolean = true
+) => {
+  // The listener is attached once and reads the latest handlers
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || isTypingTarget(event.target)) return;
+
+      const shortcut = findShortcut(event);
+      const handler = shortcut && handlersRef.current[shortcut.id];
+      if (!handler) return;
+
+      // Keeps space from scrolling or clicking a focused button
+      event.preventDefault();
+      // Holding an arrow key keeps seeking or changing volume; other keys
+      // fire once per press
+      if (event.repeat && !shortcut.key.startsWith("Arrow")) return;
+      handler();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+};
@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+interface UseMediaSessionProps {
+  currentTrack: Spotify.Track | null;
+  playbackState: Spotify.PlaybackState | null;
+  onTogglePlay: () => void;
+  onNextTrack: () => void;
+  onPreviousTrack: () => void;
+  onSeekTo: (positionMs: number) => void;
+}
+
+const isMediaSessionSupported = () =>
+  typeof navigator !== "undefined" && "mediaSession" in navigator;
+
+/**
+ * Publishes the playing track to the Media Session API and routes the OS
+ * media controls (media keys, lock screen, notification) back to the player.
+ */
+export const useMediaSession = ({
+  currentTrack,
+  playbackState,
+  onTogglePlay,
+  onNextTrack,
+  onPreviousTrack,
+  onSeekTo,
+}: UseMediaSessionProps) => {
+  // Handlers are registered once and call through to the latest callbacks
+  const handlersRef = useRef({
+    onTogglePlay,
+    onNextTrack,
+    onPreviousTrack,
+    onSeekTo,
+  });
+  const isPausedRef = useRef(true);
+
+  useEffect(() => {
+    handlersRef.current = {
+      onTogglePlay,
+      onNextTrack,
+      onPreviousTrack,
+      onSeekTo,
+    };
+  }, [onTogglePlay, onNextTrack, onPreviousTrack, onSeekTo]);
+
+  useEffect(() => {
+    isPausedRef.current = playbackState?.paused ?? true;
+  }, [playbackState?.paused]);
+
+  const isActive = !!currentTrack;
+
+  useEffect(() => {
+    if (!isMediaSessionSupported() || !isActive) return;
+    const { mediaSession } = navigator;
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      [
+        "play",
+        () => {
+          if (isPausedRef.current) handlersRef.current.onTogglePlay();
+        },
+      ],
+      [
+        "pause",
+        () => {
+          if (!isPausedRef.current) handlersRef.current.onTogglePlay();
+        },
+      ],
+      ["nexttrack", () => handlersRef.current.onNextTrack()],
+      ["previoustrack", () => handlersRef.current.onPreviousTrack()],
+      [
+        "seekto",
+        (details) => {
+          if (details.seekTime === undefined) return;
+          handlersRef.current.onSeekTo(Math.round(details.seekTime * 1000));
+        },
+      ],
+    ];
+
+    handlers.forEach(([action, handler]) => {
+      try {
+        mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Browsers throw for actions they don't support
+      }
+    });
+
+    return () => {
+      handlers.forEach(([action]) => {
+        try {
+          mediaSession.setActionHandler(action, null);
+        } catch {
+          // Same as above
+        }
+      });
+      mediaSession.metadata = null;
+      mediaSession.playbackState = "none";
+    };
+  }, [isActive]);
+
+  // Track details for the OS controls
+  useEffect(() => {
+    if (!isMediaSessionSupported() || !currentTrack) return;
+
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: currentTrack.name,
+      artist: currentTrack.artists.map((artist) => artist.name).join(", "),
+      album: currentTrack.album.name,
+      artwork: currentTrack.album.images.map((image) => ({
+        src: image.url,
+        ...(image.width && image.height
+          ? { sizes: `${image.width}x${image.height}` }
+          : {}),
+      })),
+    });
+  }, [currentTrack]);
+
+  // Playing state and position; the OS extrapolates the position itself
+  useEffect(() => {
+    if (!isMediaSessionSupported() || !playbackState) return;
+    const { mediaSession } = navigator;
+
+    mediaSession.playbackState = playbackState.paused ? "paused" : "playing";
+    if (playbackState.duration > 0) {
+      try {
+        mediaSession.setPositionState({
+          duration: playbackState.duration / 1000,
+          position:
+            Math.min(playbackState.position, playbackState.duration) / 1000,
+          playbackRate: 1,
+        });
+      } catch (error) {
+        console.warn("[useMediaSession] Invalid position state:", error);
+      }
+    }
+  }, [playbackState]);
+};
@@ -0,0 +1,195 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SimplePlaylistTrack } from "@/lib/types/index";
+import { toPreviewPlaybackState } from "@/lib/spotify/playback-state";
+
+// Spotify's preview clips are 30 seconds; used until the audio reports its own
+const DEFAULT_PREVIEW_DURATION_MS = 30000;
+// Same as the SDK's track window
+const NEXT_TRACKS_SHOWN = 2;
+// Going back later than this into a clip restarts it instead
+const RESTART_THRESHOLD_MS = 3000;
+// Matches the SDK player's initial volume
+const INITIAL_VOLUME = 0.5;
+
+interface UsePreviewPlayerProps {
+  enabled: boolean;
+}
+
+interface UsePreviewPlayerReturn {
+  playbackState: Spotify.PlaybackState | null;
+  currentTrack: Spotify.Track | null;
+  // Plays `tracks` from `startIndex`, skipping tracks without a preview.
+  // Returns the track that started, or null when none has a preview.
+  playTracks: (
+    tracks: SimplePlaylistTrack[],
+    startIndex?: number
+  ) => SimplePlaylistTrack | null;
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
+  seek: (positionMs: number) => Promise<void>;
+  next: () => void;
+  previous: () => void;
+  setVolume: (volumePercent: number) => void;
+}
+
+/**
+ * Plays tracks' 30-second preview clips through an HTML audio element, for
+ * accounts the Web Playback SDK refuses (it requires Spotify Premium). The
+ * state is exposed in the same shape as the SDK's.
+ */
+export const usePreviewPlayer = ({
+  enabled,
+}: UsePreviewPlayerProps): UsePreviewPlayerReturn => {
+  const [playbackState, setPlaybackState] =
+    useState<Spotify.PlaybackState | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const tracksRef = useRef<SimplePlaylistTrack[]>([]); // Only tracks with a preview
+  const indexRef = useRef<number>(-1);
+
+  // Publish the audio element's current state
+  const sample = useCallback(() => {
+    const audio = audioRef.current;
+    const track = tracksRef.current[indexRef.current];
+    if (!audio || !track) {
+      setPlaybackState(null);
+      return;
+    }
+
+    setPlaybackState(
+      toPreviewPlaybackState(
+        {
+          track,
+          nextTracks: tracksRef.current.slice(
+            indexRef.current + 1,
+            indexRef.current + 1 + NEXT_TRACKS_SHOWN
+          ),
+          positionMs: Math.round(audio.currentTime * 1000),
+          durationMs: Number.isFinite(audio.duration)
+            ? Math.round(audio.duration * 1000)
+            : DEFAULT_PREVIEW_DURATION_MS,
+          paused: audio.paused,
+        },
+        Date.now()
+      )
+    );
+  }, []);
+
+  const load = useCallback(
+    (index: number) => {
+      const audio = audioRef.current;
+      const track = tracksRef.current[index];
+      if (!audio || !track?.previewUrl) return;
+
+      indexRef.current = index;
+      audio.src = track.previewUrl;
+      sample();
+      audio.play().catch((error) => {
+        // Browsers block autoplay until the user interacts with the page
+        console.warn("[usePreviewPlayer] Preview didn't start:", error);
+        sample();
+      });
+    },
+    [sample]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const audio = new Audio();
+    audio.preload = "auto";
+    audio.volume = INITIAL_VOLUME;
+    audioRef.current = audio;
+
+    const handleEnded = () => {
+      if (indexRef.current + 1 < tracksRef.current.length) {
+        load(indexRef.current + 1);
+        return;
+      }
+      // Out of previews: stay on the last one, rewound
+      audio.currentTime = 0;
+      sample();
+    };
+
+    const events = ["play", "pause", "seeked", "loadedmetadata"] as const;
+    events.forEach((event) => audio.addEventListener(event, sample));
+    audio.addEventListener("ended", handleEnded);
+
+    return () => {
+      events.forEach((event) => audio.removeEventListener(event, sample));
+      audio.removeEventListener("ended", handleEnded);
+      audio.pause();
+      audio.removeAttribute("src");
+      audioRef.current = null;
+      tracksRef.current = [];
+      indexRef.current = -1;
+      setPlaybackState(null);
+    };
+  }, [enabled, load, sample]);
+
+  const playTracks = useCallback(
+    (tracks: SimplePlaylistTrack[], startIndex = 0) => {
+      const playable = tracks
+        .slice(startIndex)
+        .filter((track) => !!track.previewUrl);
+      if (!audioRef.current || playable.length === 0) return null;
+
+      tracksRef.current = playable;
+      load(0);
+      return playable[0];
+    },
+    [load]
+  );
+
+  const pause = useCallback(async () => {
+    audioRef.current?.pause();
+  }, []);
+
+  const resume = useCallback(async () => {
+    await audioRef.current?.play();
+  }, []);
+
+  const seek = useCallback(async (positionMs: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.max(0, positionMs / 1000);
+  }, []);
+
+  const next = useCallback(() => {
+    if (indexRef.current + 1 < tracksRef.current.length) {
+      load(indexRef.current + 1);
+    }
+  }, [load]);
+
+  const previous = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (
+      indexRef.current <= 0 ||
+      audio.currentTime * 1000 > RESTART_THRESHOLD_MS
+    ) {
+      audio.currentTime = 0;
+      return;
+    }
+    load(indexRef.current - 1);
+  }, [load]);
+
+  const setVolume = useCallback((volumePercent: number) => {
+    if (audioRef.current) {
+      audioRef.current.volume = Math.min(Math.max(volumePercent / 100, 0), 1);
+    }
+  }, []);
+
+  return {
+    playbackState,
+    currentTrack: playbackState?.track_window.current_track ?? null,
+    playTracks,
+    pause,
+    resume,
+    seek,
+    next,
+    previous,
+    setVolume,
+  };
+};
@@ -7,6 +7,8 @@ interface UseRealtimeChatProps {
   roomId: string;
   userId: string;
   username: string;
+  // The chat channel is private to members; wait until the user has joined
+  isMember: boolean;
   initialMessages?: ChatMessage[];
   userProfile?: Pick<UserProfile, "name" | "avatarUrl">;
 }
@@ -17,17 +19,20 @@ interface UseRealtimeChatReturn {
   deleteMessage: (messageId: string) => Promise<void>;
   editMessage: (messageId: string, newContent: string) => Promise<void>;
   isConnected: boolean;
+  isRemoved: boolean;
 }
 
 export const useRealtimeChat = ({
   roomId,
   userId,
   username,
+  isMember,
   initialMessages = [],
   userProfile,
 }: UseRealtimeChatProps): UseRealtimeChatReturn => {
   const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
   const [isConnected, setIsConnected] = useState(false);
+  const [isRemoved, setIsRemoved] = useState(false);
   const channel = useRef<RealtimeChannel | null>(null);
   const supabase = createClient();
 
@@ -267,14 +272,17 @@ export const useRealtimeChat = ({
       );
       return;
     }
+    if (!isMember) return;
 
     const channelName = `chat:${roomId}`;
+    setIsRemoved(false);
 
     channel.current = supabase
       .channel(channelName, {
         config: {
           broadcast: { self: true },
           presence: { key: username },
+          private: true,
         },
       })
       .on(
@@ -406,6 +414,17 @@ export const useRealtimeChat = ({
           }
         }
       )
+      // Sent by the server when the DJ removes or bans someone
+      .on("broadcast", { event: "member_removed" }, ({ payload }) => {
+        if (payload?.user_id !== userId) return;
+        // Removed or banned by the DJ: stop listening to the room's chat
+        if (channel.current) {
+          supabase.removeChannel(channel.current);
+          channel.current = null;
+        }
+        setIsConnected(false);
+        setIsRemoved(true);
+      })
       .on("presence", { event: "sync" }, () => {
         if (!channel.current) return;
         channel.current.presenceState(); // Call is needed even if result isn't used
@@ -433,7 +452,14 @@ export const useRealtimeChat = ({
         channel.current = null;
       }
     };
-  }, [roomId, supabase, userId, username, updateLocalMessage]);
-
-  return { messages, sendMessage, deleteMessage, editMessage, isConnected };
+  }, [roomId, isMember, supabase, userId, username, updateLocalMessage]);
+
+  return {
+    messages,
+    sendMessage,
+    deleteMessage,
+    editMessage,
+    isConnected,
+    isRemoved,
+  };
 };
@@ -0,0 +1,115 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getPlaybackState } from "@/lib/actions/spotify.actions";
+import {
+  detectRemoteContextEnd,
+  toSdkPlaybackState,
+  type ContextEndEvent,
+  type SpotifyDevice,
+} from "@/lib/spotify/playback-state";
+
+// Remote devices don't push state changes, so poll while one is selected
+const POLL_INTERVAL_MS = 3000;
+// Spotify takes a moment to reflect a command in /me/player
+const REFRESH_AFTER_COMMAND_MS = 500;
+
+interface UseRemotePlaybackProps {
+  enabled: boolean;
+  onContextEnd?: (event: ContextEndEvent) => void;
+}
+
+interface UseRemotePlaybackReturn {
+  playbackState: Spotify.PlaybackState | null;
+  currentTrack: Spotify.Track | null;
+  device: SpotifyDevice | null; // The device Spotify reports as playing
+  refresh: () => void;
+}
+
+/**
+ * Follows playback on a remote Spotify Connect device through the Web API,
+ * exposing it in the same shape as the Web Playback SDK's state.
+ * `onContextEnd` is called when the playing context runs out, see
+ * detectRemoteContextEnd.
+ */
+export const useRemotePlayback = ({
+  enabled,
+  onContextEnd,
+}: UseRemotePlaybackProps): UseRemotePlaybackReturn => {
+  const [playbackState, setPlaybackState] =
+    useState<Spotify.PlaybackState | null>(null);
+  const [device, setDevice] = useState<SpotifyDevice | null>(null);
+  const refreshTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Previous poll to detect transitions, and the latest end-of-context callback
+  const previousStateRef = useRef<Spotify.PlaybackState | null>(null);
+  const onContextEndRef = useRef(onContextEnd);
+
+  useEffect(() => {
+    onContextEndRef.current = onContextEnd;
+  }, [onContextEnd]);
+
+  const poll = useCallback(async () => {
+    // Runs from timers, so a thrown error would go unhandled
+    try {
+      const result = await getPlaybackState();
+      if (result.error) {
+        console.error(
+          "[useRemotePlayback] Failed to poll playback:",
+          result.error
+        );
+        return;
+      }
+      const sampledAt = Date.now();
+      const state = result.state
+        ? toSdkPlaybackState(result.state, sampledAt)
+        : null;
+      const contextEnd = detectRemoteContextEnd(
+        previousStateRef.current,
+        state,
+        sampledAt
+      );
+      previousStateRef.current = state;
+      setPlaybackState(state);
+      setDevice(result.state?.device ?? null);
+      if (contextEnd) {
+        onContextEndRef.current?.(contextEnd);
+      }
+    } catch (error) {
+      console.error("[useRemotePlayback] Failed to poll playback:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    previousStateRef.current = null;
+    if (!enabled) {
+      setPlaybackState(null);
+      setDevice(null);
+      return;
+    }
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      if (refreshTimeoutRef.current) {
+        clearTimeout(refreshTimeoutRef.current);
+        refreshTimeoutRef.current = null;
+      }
+    };
+  }, [enabled, poll]);
+
+  const refresh = useCallback(() => {
+    if (!enabled) return;
+    if (refreshTimeoutRef.current) {
+      clearTimeout(refreshTimeoutRef.current);
+    }
+    refreshTimeoutRef.current = setTimeout(poll, REFRESH_AFTER_COMMAND_MS);
+  }, [enabled, poll]);
+
+  return {
+    playbackState,
+    currentTrack: playbackState?.track_window.current_track ?? null,
+    device,
+    refresh,
+  };
+};
@@ -0,0 +1,145 @@
+"use client";
+
+import { createClient } from "@/lib/supabase/client";
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { RoomPlaybackSnapshot } from "@/lib/types/index";
+import { parseRoomPlaybackSnapshot } from "@/lib/room-playback";
+
+// How often the DJ re-sends the latest snapshot so members can correct drift
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+interface UseRoomPlaybackSyncProps {
+  roomId: string | null;
+  isDJ: boolean;
+  onRemoteSnapshot: (snapshot: RoomPlaybackSnapshot) => void;
+}
+
+interface UseRoomPlaybackSyncReturn {
+  broadcastSnapshot: (snapshot: RoomPlaybackSnapshot) => void;
+  isConnected: boolean;
+  listenerCount: number; // Players open in the room, including this one
+}
+
+/**
+ * Keeps everyone in a room listening to the same thing.
+ * The DJ publishes playback snapshots on a per-room Realtime broadcast channel;
+ * members receive them through `onRemoteSnapshot`. Members that join late ask
+ * for the current state and the DJ answers with its latest snapshot.
+ * Every player also joins the channel's presence, which gives the number of
+ * listeners. The channel is private: RLS only lets members listen and only
+ * the DJ broadcast snapshots, and snapshots are checked before they're used.
+ */
+export const useRoomPlaybackSync = ({
+  roomId,
+  isDJ,
+  onRemoteSnapshot,
+}: UseRoomPlaybackSyncProps): UseRoomPlaybackSyncReturn => {
+  const [isConnected, setIsConnected] = useState(false);
+  const [listenerCount, setListenerCount] = useState(0);
+  const channel = useRef<RealtimeChannel | null>(null);
+  const latestSnapshotRef = useRef<RoomPlaybackSnapshot | null>(null);
+  const onRemoteSnapshotRef = useRef(onRemoteSnapshot);
+
+  // Keep the latest callback without re-subscribing the channel
+  useEffect(() => {
+    onRemoteSnapshotRef.current = onRemoteSnapshot;
+  }, [onRemoteSnapshot]);
+
+  const sendSnapshot = useCallback((snapshot: RoomPlaybackSnapshot) => {
+    channel.current
+      ?.send({
+        type: "broadcast",
+        event: "playback_state",
+        payload: snapshot,
+      })
+      .catch((error) =>
+        console.error("[useRoomPlaybackSync] Failed to send snapshot:", error)
+      );
+  }, []);
+
+  const broadcastSnapshot = useCallback(
+    (snapshot: RoomPlaybackSnapshot) => {
+      latestSnapshotRef.current = snapshot;
+      if (!isDJ) return;
+      sendSnapshot(snapshot);
+    },
+    [isDJ, sendSnapshot]
+  );
+
+  useEffect(() => {
+    if (!roomId) {
+      return;
+    }
+
+    const supabase = createClient();
+    channel.current = supabase
+      .channel(`playback:${roomId}`, { config: { private: true } })
+      .on("presence", { event: "sync" }, () => {
+        setListenerCount(
+          Object.keys(channel.current?.presenceState() ?? {}).length
+        );
+      })
+      .on("broadcast", { event: "playback_state" }, ({ payload }) => {
+        if (isDJ) return; // The DJ is the source of truth, ignore echoes
+        const snapshot = parseRoomPlaybackSnapshot(payload);
+        if (!snapshot) {
+          console.warn("[useRoomPlaybackSync] Ignoring invalid snapshot");
+          return;
+        }
+        onRemoteSnapshotRef.current(snapshot);
+      })
+      .on("broadcast", { event: "request_state" }, () => {
+        if (isDJ && latestSnapshotRef.current) {
+          sendSnapshot(latestSnapshotRef.current);
+        }
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          setIsConnected(true);
+          channel.current
+            ?.track({ isDJ })
+            .catch((error) =>
+              console.error(
+                "[useRoomPlaybackSync] Failed to join presence:",
+                error
+              )
+            );
+          if (!isDJ) {
+            channel.current?.send({
+              type: "broadcast",
+              event: "request_state",
+              payload: {},
+            });
+          }
+        } else {
+          setIsConnected(false);
+        }
+      });
+
+    return () => {
+      if (channel.current) {
+        supabase.removeChannel(channel.current);
+        channel.current = null;
+      }
+      setIsConnected(false);
+      setListenerCount(0);
+    };
+  }, [roomId, isDJ, sendSnapshot]);
+
+  // DJ heartbeat: re-send the latest snapshot while connected
+  useEffect(() => {
+    if (!isDJ || !isConnected) return;
+
+    const heartbeat = setInterval(() => {
+      const snapshot = latestSnapshotRef.current;
+      if (snapshot && !snapshot.isPaused) {
+        sendSnapshot(snapshot);
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(heartbeat);
+  }, [isDJ, isConnected, sendSnapshot]);
+
+  return { broadcastSnapshot, isConnected, listenerCount };
+};
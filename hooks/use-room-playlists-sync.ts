@@ -0,0 +1,89 @@
+"use client";
+
+import { createClient } from "@/lib/supabase/client";
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { useEffect, useRef } from "react";
+
+// A reorder arrives as one update per playlist; reload once for all of them
+const CHANGE_DEBOUNCE_MS = 300;
+
+interface UseRoomPlaylistsSyncProps {
+  roomId: string | null;
+  onChange: () => void;
+}
+
+/**
+ * Calls `onChange` when the room's playlists are added, removed or
+ * reordered, from Postgres changes on `room_playlists` and the
+ * `playlists_changed` broadcasts the server actions send. The channel is
+ * private: RLS only lets members listen. Bursts of changes are reported once.
+ */
+export const useRoomPlaylistsSync = ({
+  roomId,
+  onChange,
+}: UseRoomPlaylistsSyncProps) => {
+  const channel = useRef<RealtimeChannel | null>(null);
+  const onChangeRef = useRef(onChange);
+
+  // Keep the latest callback without re-subscribing the channel
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    if (!roomId) {
+      return;
+    }
+
+    let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleChange = () => {
+      if (debounceTimer) clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(() => {
+        debounceTimer = null;
+        onChangeRef.current();
+      }, CHANGE_DEBOUNCE_MS);
+    };
+
+    const supabase = createClient();
+    const roomFilter = `room_id=eq.${roomId}`;
+    channel.current = supabase
+      .channel(`room_playlists:${roomId}`, { config: { private: true } })
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "room_playlists",
+          filter: roomFilter,
+        },
+        scheduleChange
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "room_playlists",
+          filter: roomFilter,
+        },
+        scheduleChange
+      )
+      // Deletes only carry the row's id, so removals are broadcast instead
+      .on("broadcast", { event: "playlists_changed" }, scheduleChange)
+      .subscribe((status) => {
+        if (status === "CHANNEL_ERROR") {
+          console.error(
+            `[useRoomPlaylistsSync] Failed to subscribe to room ${roomId}`
+          );
+        }
+      });
+
+    return () => {
+      if (debounceTimer) clearTimeout(debounceTimer);
+      if (channel.current) {
+        supabase.removeChannel(channel.current);
+        channel.current = null;
+      }
+    };
+  }, [roomId]);
+};
@@ -0,0 +1,127 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { getPlaylistTracks } from "@/lib/actions/spotify.actions";
+import {
+  buildRoomQueue,
+  findQueueIndex,
+  getUpNext,
+  RoomQueueItem,
+  RoomQueueMode,
+} from "@/lib/room-queue";
+import type {
+  SimplePlaylistDetails,
+  SimplePlaylistTrack,
+} from "@/lib/types/index";
+
+// Number of tracks exposed as "up next"
+const UP_NEXT_COUNT = 10;
+
+const randomSeed = () => Math.floor(Math.random() * 2 ** 32);
+
+interface UseRoomQueueProps {
+  playlists: SimplePlaylistDetails[];
+  currentTrackUri: string | null;
+}
+
+interface UseRoomQueueReturn {
+  queue: RoomQueueItem[];
+  queueMode: RoomQueueMode;
+  setQueueMode: (mode: RoomQueueMode) => void;
+  reshuffleQueue: () => void;
+  currentQueueIndex: number;
+  upNext: RoomQueueItem[];
+  isLoadingQueue: boolean;
+}
+
+/**
+ * Loads the tracks of every room playlist and merges them into one queue.
+ * Tracks are fetched once per playlist; changing the mode or the playlist
+ * order only rebuilds the queue.
+ */
+export const useRoomQueue = ({
+  playlists,
+  currentTrackUri,
+}: UseRoomQueueProps): UseRoomQueueReturn => {
+  const [tracksByPlaylist, setTracksByPlaylist] = useState<
+    Record<string, SimplePlaylistTrack[]>
+  >({});
+  const [loadingIds, setLoadingIds] = useState<string[]>([]);
+  const [queueMode, setQueueMode] = useState<RoomQueueMode>("sequential");
+  const [shuffleSeed, setShuffleSeed] = useState<number>(randomSeed);
+
+  useEffect(() => {
+    const missingIds = playlists
+      .map((playlist) => playlist.spotify_playlist_id)
+      .filter((id) => !(id in tracksByPlaylist) && !loadingIds.includes(id));
+    if (missingIds.length === 0) return;
+
+    setLoadingIds((ids) => [...ids, ...missingIds]);
+    missingIds.forEach(async (playlistId) => {
+      let tracks: SimplePlaylistTrack[] = [];
+      try {
+        const result = await getPlaylistTracks(playlistId);
+        if (result.error) {
+          console.error(
+            `[useRoomQueue] Failed to load tracks for ${playlistId}:`,
+            result.error
+          );
+        }
+        tracks = result.tracks;
+      } catch (error) {
+        console.error(
+          `[useRoomQueue] Failed to load tracks for ${playlistId}:`,
+          error
+        );
+      }
+      // An empty list still marks the playlist as loaded so it isn't retried
+      setTracksByPlaylist((current) => ({
+        ...current,
+        [playlistId]: tracks,
+      }));
+      setLoadingIds((ids) => ids.filter((id) => id !== playlistId));
+    });
+  }, [playlists, tracksByPlaylist, loadingIds]);
+
+  const queue = useMemo(
+    () =>
+      buildRoomQueue(
+        playlists
+          .filter(
+            (playlist) => playlist.spotify_playlist_id in tracksByPlaylist
+          )
+          .map((playlist) => ({
+            playlistId: playlist.spotify_playlist_id,
+            tracks: tracksByPlaylist[playlist.spotify_playlist_id],
+          })),
+        queueMode,
+        shuffleSeed
+      ),
+    [playlists, tracksByPlaylist, queueMode, shuffleSeed]
+  );
+
+  const currentQueueIndex = useMemo(
+    () => findQueueIndex(queue, currentTrackUri),
+    [queue, currentTrackUri]
+  );
+
+  const upNext = useMemo(
+    () => getUpNext(queue, currentQueueIndex, UP_NEXT_COUNT),
+    [queue, currentQueueIndex]
+  );
+
+  const reshuffleQueue = useCallback(() => {
+    setShuffleSeed(randomSeed());
+    setQueueMode("shuffled");
+  }, []);
+
+  return {
+    queue,
+    queueMode,
+    setQueueMode,
+    reshuffleQueue,
+    currentQueueIndex,
+    upNext,
+    isLoadingQueue: loadingIds.length > 0,
+  };
+};
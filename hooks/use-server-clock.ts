@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  getClockSyncState,
+  isClockSyncStale,
+  serverNow,
+  subscribeToClockSync,
+  syncServerClock,
+  TIME_SYNC_MAX_AGE_MS,
+} from "@/lib/time-sync";
+
+/**
+ * Keeps the shared server clock estimate fresh while mounted and exposes
+ * `serverNow()` for time-sensitive room features.
+ */
+export const useServerClock = () => {
+  const [syncState, setSyncState] = useState(getClockSyncState);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToClockSync(() =>
+      setSyncState(getClockSyncState())
+    );
+
+    const syncIfStale = () => {
+      if (!document.hidden && isClockSyncStale()) {
+        syncServerClock();
+      }
+    };
+
+    syncIfStale();
+    // Re-measure after sleep/background, when the local clock may have jumped
+    document.addEventListener("visibilitychange", syncIfStale);
+    const interval = setInterval(syncIfStale, TIME_SYNC_MAX_AGE_MS);
+
+    return () => {
+      unsubscribe();
+      document.removeEventListener("visibilitychange", syncIfStale);
+      clearInterval(interval);
+    };
+  }, []);
+
+  return {
+    serverNow,
+    offsetMs: syncState.offsetMs,
+    isSynced: syncState.lastSyncedAt !== null,
+  };
+};
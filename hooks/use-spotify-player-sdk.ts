@@ -1,10 +1,11 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
+import { getSpotifyAccessToken } from "@/lib/actions/spotify.actions";
 import {
-  getSpotifyAccessToken,
-  refreshSpotifyToken, // Import the refresh action
-} from "@/lib/actions/spotify.actions";
+  detectContextEnd,
+  type ContextEndEvent,
+} from "@/lib/spotify/playback-state";
 
 // Declare the global callback used by the SDK script
 declare global {
@@ -30,18 +31,23 @@ interface SpotifyPlayerSDKHookState {
   isActive: boolean; // Is the player currently active in Spotify Connect?
   currentTrack: SpotifyTrack | null; // Current playing track object
   playbackState: SpotifyPlaybackState | null; // Full playback state
+  accountError: string | null; // Set when the SDK rejects the account, e.g. not Premium
 }
 
 /**
  * Hook to manage the Spotify Web Playback SDK instance and state,
  * including playback status updates.
+ * `onContextEnd` is called when the playing context runs out, see
+ * detectContextEnd.
  */
 export function useSpotifyPlayerSDK(options?: {
   initialize?: boolean;
+  onContextEnd?: (event: ContextEndEvent) => void;
 }): SpotifyPlayerSDKHookState & {
   playerRef: React.RefObject<SpotifyPlayer | null>;
 } {
-  const { initialize = true } = options ?? {}; // Default initialize to true
+  // Default initialize to true
+  const { initialize = true, onContextEnd } = options ?? {};
 
   const [player, setPlayer] = useState<SpotifyPlayer | null>(null);
   const [isReady, setIsReady] = useState(false);
@@ -51,6 +57,7 @@ export function useSpotifyPlayerSDK(options?: {
   const [playbackState, setPlaybackState] =
     useState<SpotifyPlaybackState | null>(null);
   const playerRef = useRef<SpotifyPlayer | null>(null); // Define the playerRef
+  const [accountError, setAccountError] = useState<string | null>(null);
   const [isConnecting, setIsConnecting] = useState(false); // State to prevent multiple concurrent connections
   const reconnectionAttemptRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -62,6 +69,14 @@ export function useSpotifyPlayerSDK(options?: {
   // Ref for attemptReconnect to break circular dependency for initializePlayer's handleError
   const attemptReconnectRef = useRef<() => void>(() => {});
 
+  // Previous state to detect transitions, and the latest end-of-context callback
+  const previousStateRef = useRef<SpotifyPlaybackState | null>(null);
+  const onContextEndRef = useRef(onContextEnd);
+
+  useEffect(() => {
+    onContextEndRef.current = onContextEnd;
+  }, [onContextEnd]);
+
   // --- Resilience: Event Listeners / Reconnection ---
 
   // Function to initialize the player (extracted for re-use)
@@ -91,6 +106,7 @@ export function useSpotifyPlayerSDK(options?: {
       setCurrentTrack(null);
       setPlaybackState(null);
     }
+    previousStateRef.current = null;
 
     const newPlayer = new window.Spotify.Player({
       name: "Playlist Chat Rooms Player",
@@ -103,6 +119,7 @@ export function useSpotifyPlayerSDK(options?: {
       setPlayer(newPlayer);
       setIsReady(true);
       setDeviceId(instance.device_id);
+      setAccountError(null);
       playerRef.current = newPlayer;
       setIsConnecting(false); // Connection successful
     };
@@ -159,7 +176,24 @@ export function useSpotifyPlayerSDK(options?: {
       }
     };
 
+    // The SDK only plays for Premium accounts; remember why it gave up so
+    // callers can fall back to previews. Reconnecting won't help here.
+    const handleAccountError = (error: SpotifyError) => {
+      console.error("useSpotifyPlayerSDK: Account error.", error);
+      setAccountError(error?.message || "Spotify Premium required.");
+      setIsReady(false);
+      setIsActive(false);
+      setDeviceId(null);
+      setIsConnecting(false);
+    };
+
     const handleStateChange = (state: SpotifyPlaybackState | null) => {
+      const contextEnd = detectContextEnd(previousStateRef.current, state);
+      previousStateRef.current = state;
+      if (contextEnd) {
+        onContextEndRef.current?.(contextEnd);
+      }
+
       setPlaybackState(state);
       setCurrentTrack(state?.track_window.current_track ?? null);
       setIsActive(!!state); // Active if state is not null
@@ -170,7 +204,7 @@ export function useSpotifyPlayerSDK(options?: {
     newPlayer.addListener("player_state_changed", handleStateChange);
     newPlayer.addListener("initialization_error", handleError);
     newPlayer.addListener("authentication_error", handleError);
-    newPlayer.addListener("account_error", handleError);
+    newPlayer.addListener("account_error", handleAccountError);
     newPlayer.addListener("playback_error", handleError);
 
     if (shouldConnect) {
@@ -231,105 +265,27 @@ export function useSpotifyPlayerSDK(options?: {
     window.addEventListener("offline", handleOffline);
   }, [handleOnline, handleOffline]);
 
-  // Implement getOAuthToken logic
+  // Implement getOAuthToken logic. Expired tokens are refreshed on the server
+  // by getSpotifyAccessToken, the refresh token never reaches the browser.
   const getOAuthToken = useCallback(
     async (callback: (token: string) => void) => {
-      let tokenInfo: Awaited<ReturnType<typeof getSpotifyAccessToken>> | null =
-        null;
-      let refreshedTokenInfo: Awaited<
-        ReturnType<typeof refreshSpotifyToken>
-      > | null = null;
-
-      // 1. Attempt to get current token info
       try {
-        console.log(
-          "useSpotifyPlayerSDK: Attempting to get access token info..."
-        );
-        tokenInfo = await getSpotifyAccessToken();
-        console.log(
-          "useSpotifyPlayerSDK: Got token info:",
-          tokenInfo ? "Yes" : "No",
-          tokenInfo
+        const tokenInfo = await getSpotifyAccessToken();
+        if (tokenInfo.accessToken) {
+          callback(tokenInfo.accessToken);
+          return;
+        }
+        console.error(
+          "useSpotifyPlayerSDK: No valid access token available. Calling SDK callback with empty token.",
+          tokenInfo.error
         );
       } catch (error) {
         console.error(
-          "useSpotifyPlayerSDK: Network error fetching initial token info:",
+          "useSpotifyPlayerSDK: Network error fetching access token:",
           error
         );
-        // If fetching token info fails entirely, we can't proceed.
-        console.log(
-          "useSpotifyPlayerSDK: Calling SDK callback with empty token due to fetch error."
-        );
-        callback(""); // Indicate failure to SDK
-        return;
-      }
-
-      // 2. Check if refresh is needed
-      let needsRefresh = false;
-      if (
-        tokenInfo?.providerRefreshToken &&
-        (!tokenInfo.accessToken ||
-          (tokenInfo.expiresAt && Date.now() / 1000 > tokenInfo.expiresAt - 60))
-      ) {
-        needsRefresh = true;
-      }
-      console.log(
-        "useSpotifyPlayerSDK: Needs refresh?",
-        needsRefresh,
-        "Refresh Token available?",
-        !!tokenInfo?.providerRefreshToken
-      );
-
-      // 3. Attempt refresh if needed
-      if (needsRefresh && tokenInfo?.providerRefreshToken) {
-        console.log("useSpotifyPlayerSDK: Attempting token refresh...");
-        try {
-          refreshedTokenInfo = await refreshSpotifyToken(
-            tokenInfo.providerRefreshToken
-          );
-          if (refreshedTokenInfo?.accessToken) {
-            console.log(
-              "useSpotifyPlayerSDK: Token refresh successful. Calling SDK callback with refreshed token."
-            );
-            callback(refreshedTokenInfo.accessToken);
-            return;
-          } else {
-            console.error(
-              "useSpotifyPlayerSDK: Refresh attempt failed, no access token returned.",
-              refreshedTokenInfo
-            );
-            // Fall through to potentially use stale token if available
-          }
-        } catch (error) {
-          console.error(
-            "useSpotifyPlayerSDK: Network error during token refresh:",
-            error
-          );
-          // Fall through to potentially use stale token if refresh fetch failed
-        }
-      }
-
-      // 4. Provide best available token (refreshed, original, or indicate failure)
-      if (refreshedTokenInfo?.accessToken) {
-        // This case should technically be handled above, but added for completeness
-        console.log(
-          "useSpotifyPlayerSDK: Calling SDK callback with refreshed token (fallback check)."
-        );
-        callback(refreshedTokenInfo.accessToken);
-      } else if (tokenInfo?.accessToken) {
-        // Check expiry again just in case, though SDK might handle it
-        const isExpired =
-          tokenInfo.expiresAt && Date.now() / 1000 > tokenInfo.expiresAt;
-        console.log(
-          `useSpotifyPlayerSDK: Calling SDK callback with existing token (Expired: ${isExpired}).`
-        );
-        callback(tokenInfo.accessToken);
-      } else {
-        console.error(
-          "useSpotifyPlayerSDK: No valid access token available after get/refresh attempts. Calling SDK callback with empty token."
-        );
-        callback(""); // Indicate failure to SDK
       }
+      callback(""); // Indicate failure to SDK
     },
     []
   );
@@ -437,6 +393,7 @@ export function useSpotifyPlayerSDK(options?: {
     isActive,
     currentTrack,
     playbackState,
+    accountError,
     playerRef,
   };
 }
@@ -12,8 +12,8 @@ module.exports = {
     "^.+\\.tsx?$": [
       "ts-jest",
       {
-        tsconfig: "tsconfig.json", // Or your tsconfig.test.json if you have one
-        jsx: "react-jsx", // Or "react" depending on your tsconfig jsx setting
+        // Next needs `jsx: preserve`; tests compile JSX themselves
+        tsconfig: "tsconfig.jest.json",
       },
     ],
   },
@@ -1,30 +1,51 @@
 "use server";
 
 import { createClient } from "@/lib/supabase/server";
-import { Buffer } from "buffer";
-
-const SPOTIFY_ACCOUNTS_URL = "https://accounts.spotify.com/api/token";
-
-// Define the expected return structure for the access token info
-// Updated to reflect potential error state more clearly
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  migrateLegacySpotifyCredentials,
+  readSpotifyCredentials,
+} from "@/lib/spotify/credentials";
+import {
+  isTokenExpiring,
+  refreshSpotifyCredentials,
+} from "@/lib/spotify/token-refresh";
+import { Database } from "@/lib/types/database.types";
+import {
+  describeSpotifyError,
+  getSpotifyApiBase,
+  spotifyAccountsRequest,
+  spotifyRequest,
+  type SpotifyApiError,
+  type SpotifyErrorKind,
+} from "@/lib/spotify/client";
+import type {
+  SpotifyApiPlaybackState,
+  SpotifyDevice,
+  SpotifyRepeatState,
+} from "@/lib/spotify/playback-state";
+import type { SimplePlaylistTrack } from "@/lib/types/index";
+
+// Define the expected return structure for the access token info.
+// The refresh token deliberately isn't part of it: this is returned to the
+// browser, and the refresh token must stay on the server.
 export type SpotifyTokenResult =
   | {
       accessToken: string;
       expiresAt: number | null;
-      providerRefreshToken: string | null;
       error?: never;
     }
   | {
       accessToken?: null;
       expiresAt?: null;
-      providerRefreshToken?: null;
       error: string;
     };
 
 /**
- * Server Action to retrieve the stored Spotify OAuth tokens for the current user.
- * Fetches data stored by Supabase Auth during the OAuth flow.
- * Handles token refresh automatically if the stored token is expired.
+ * Server Action to retrieve the current user's Spotify access token.
+ * Reads the encrypted credentials stored by the OAuth callback (moving them
+ * out of user_metadata for users who logged in before that existed) and
+ * refreshes the token automatically if it is expired.
  * @returns {Promise<SpotifyTokenResult>} An object containing token information or an error.
  */
 export async function getSpotifyAccessToken(): Promise<SpotifyTokenResult> {
@@ -40,19 +61,21 @@ export async function getSpotifyAccessToken(): Promise<SpotifyTokenResult> {
       return { error: "Authentication required." };
     }
     const { user } = userData;
-    const userMetadata = user.user_metadata ?? {};
 
-    let accessToken = (userMetadata.provider_token as string) ?? null;
-    const providerRefreshToken =
-      (userMetadata.provider_refresh_token as string) ?? null;
-    let expiresAtTimestamp =
-      (userMetadata.provider_token_expires_at as number) ?? null;
+    const credentials =
+      (await readSpotifyCredentials(user.id)) ??
+      (await migrateLegacySpotifyCredentials(user));
+
+    let accessToken = credentials?.accessToken ?? null;
+    let expiresAtTimestamp = credentials?.expiresAt ?? null;
 
     // --- Token Refresh Logic ---
-    const nowInSeconds = Math.floor(Date.now() / 1000);
-    // Check if expired (add a 60-second buffer)
-    if (expiresAtTimestamp && expiresAtTimestamp < nowInSeconds + 60) {
-      if (!providerRefreshToken) {
+    if (
+      credentials &&
+      (isTokenExpiring(credentials) ||
+        (!credentials.accessToken && credentials.refreshToken))
+    ) {
+      if (!credentials.refreshToken) {
         console.error(
           "getSpotifyAccessToken Error: Token expired, but no refresh token found."
         );
@@ -62,40 +85,16 @@ export async function getSpotifyAccessToken(): Promise<SpotifyTokenResult> {
         };
       }
 
-      const refreshedTokenInfo = await refreshSpotifyToken(
-        providerRefreshToken
+      // Single-flight per user, persists the new token (and rotated refresh token)
+      const refreshed = await refreshSpotifyCredentials(
+        user.id,
+        credentials.refreshToken
       );
-
-      if (refreshedTokenInfo) {
-        accessToken = refreshedTokenInfo.accessToken;
-        const newExpiresAt = nowInSeconds + refreshedTokenInfo.expiresIn;
-        expiresAtTimestamp = newExpiresAt; // Update local variable for return
-
-        // Update Supabase user metadata with the new token and expiry
-        const { error: updateError } = await supabase.auth.updateUser({
-          data: {
-            ...userMetadata, // Preserve existing metadata
-            provider_token: accessToken,
-            provider_token_expires_at: newExpiresAt,
-            // Keep the same refresh token unless Spotify provides a new one (usually doesn't)
-          },
-        });
-
-        if (updateError) {
-          console.error(
-            "getSpotifyAccessToken Error: Failed to update user metadata with refreshed token:",
-            updateError
-          );
-          // Proceed with the refreshed token for this request, but warn about persistence issue
-          // Or return an error? Let's return error for now to be safe.
-          return { error: "Failed to save refreshed Spotify token." };
-        }
-      } else {
-        console.error(
-          "getSpotifyAccessToken Error: Refresh token attempt failed."
-        );
-        return { error: "Failed to refresh Spotify token. Please re-login." };
+      if (!refreshed.credentials) {
+        return { error: refreshed.error };
       }
+      accessToken = refreshed.credentials.accessToken;
+      expiresAtTimestamp = refreshed.credentials.expiresAt;
     }
     // --- End Refresh Logic ---
 
@@ -109,7 +108,6 @@ export async function getSpotifyAccessToken(): Promise<SpotifyTokenResult> {
     return {
       accessToken,
       expiresAt: expiresAtTimestamp,
-      providerRefreshToken, // Still return the refresh token if needed elsewhere
     };
   } catch (error) {
     console.error("getSpotifyAccessToken Error: Unexpected error", error);
@@ -117,339 +115,598 @@ export async function getSpotifyAccessToken(): Promise<SpotifyTokenResult> {
   }
 }
 
-// Define the expected return structure for the refresh token action
-export interface SpotifyRefreshedTokenInfo {
-  accessToken: string;
-  expiresIn: number; // Duration in seconds until the new token expires
+interface SpotifyTokenResponse {
+  access_token?: string;
+  expires_in?: number;
 }
 
 /**
- * Server Action to refresh a Spotify access token using a provider refresh token.
- * Requires SPOTIFY_CLIENT_ID and SPOTIFY_CLIENT_SECRET environment variables.
- * @param providerRefreshToken The refresh token obtained from Supabase session.
- * @returns {Promise<SpotifyRefreshedTokenInfo | null>} New token info or null if refresh failed.
+ * Result shape shared by the player and library actions. `errorKind` lets
+ * callers react to specific failures (e.g. prompt for Premium) without
+ * matching on the message.
  */
-export async function refreshSpotifyToken(
-  providerRefreshToken: string
-): Promise<SpotifyRefreshedTokenInfo | null> {
-  if (!providerRefreshToken) {
-    console.error("refreshSpotifyToken Error: Missing provider refresh token.");
-    return null;
-  }
+export type SpotifyActionResult = {
+  success: boolean;
+  error?: string;
+  errorKind?: SpotifyErrorKind;
+};
+
+function toActionError(
+  error: SpotifyApiError,
+  overrides: Partial<Record<SpotifyErrorKind, string>>,
+  fallback: string
+): { error: string; errorKind: SpotifyErrorKind } {
+  return {
+    error: describeSpotifyError(error, overrides, fallback),
+    errorKind: error.kind,
+  };
+}
 
-  const clientId = process.env.SPOTIFY_CLIENT_ID;
-  const clientSecret = process.env.SPOTIFY_CLIENT_SECRET;
+// --- New Server Actions for Player Control ---
 
-  if (!clientId || !clientSecret) {
-    console.error(
-      "refreshSpotifyToken Error: Missing SPOTIFY_CLIENT_ID or SPOTIFY_CLIENT_SECRET env vars."
-    );
-    return null;
+/**
+ * Options for starting playback. Mirrors the body accepted by
+ * `PUT /me/player/play`: either a context (playlist/album) or explicit track URIs,
+ * optionally starting at a specific track (`offset`) and position.
+ */
+export interface StartPlaybackOptions {
+  contextUri?: string;
+  uris?: string[];
+  positionMs?: number;
+  // Where to start in the context: a track URI or a zero-based position
+  offset?: { uri: string } | { position: number };
+}
+
+/**
+ * Server Action to start or resume playback on a specific device,
+ * optionally playing a specific context URI (like a playlist) or list of tracks.
+ * @param deviceId The ID of the device to play on.
+ * @param options Context/track URIs, offset and start position. All optional.
+ * @returns {Promise<SpotifyActionResult>} Status of the operation.
+ */
+export async function startPlayback(
+  deviceId: string,
+  options: StartPlaybackOptions = {}
+): Promise<SpotifyActionResult> {
+  const { contextUri, uris, positionMs, offset } = options;
+
+  const body: {
+    context_uri?: string;
+    uris?: string[];
+    position_ms?: number;
+    offset?: { uri: string } | { position: number };
+  } = {};
+  if (contextUri) {
+    body.context_uri = contextUri;
+  } else if (uris && uris.length > 0) {
+    body.uris = uris;
+  }
+  if (offset) {
+    body.offset = offset;
+  }
+  if (positionMs !== undefined) {
+    body.position_ms = Math.max(0, Math.round(positionMs));
   }
 
-  const basicAuth = Buffer.from(`${clientId}:${clientSecret}`).toString(
-    "base64"
+  const result = await spotifyRequest(
+    getSpotifyAccessToken,
+    "/me/player/play",
+    {
+      method: "PUT",
+      query: { device_id: deviceId },
+      body: Object.keys(body).length > 0 ? body : undefined, // Only include body if non-empty
+    }
   );
 
-  try {
-    const response = await fetch(SPOTIFY_ACCOUNTS_URL, {
-      method: "POST",
-      headers: {
-        Authorization: `Basic ${basicAuth}`,
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        grant_type: "refresh_token",
-        refresh_token: providerRefreshToken,
-      }),
-      // Important: Use no-store cache to ensure fresh request
-      cache: "no-store",
-    });
+  if (!result.ok) {
+    return {
+      success: false,
+      ...toActionError(
+        result.error,
+        { forbidden: "Spotify Premium required or action forbidden." },
+        "Failed to start playback."
+      ),
+    };
+  }
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error(
-        `refreshSpotifyToken Error (${response.status}): Failed to refresh token.`,
-        errorData
-      );
-      // Specific handling for invalid refresh token? Spotify might return 400 Bad Request
-      return null;
+  // Spotify returns 204 No Content on success
+  return { success: true };
+}
+
+/**
+ * Server Action to toggle shuffle mode for the user's playback.
+ * @param deviceId The ID of the device (optional, but recommended).
+ * @param shuffleState The desired shuffle state (true for on, false for off).
+ * @returns {Promise<SpotifyActionResult>} Status of the operation.
+ */
+export async function toggleShuffle(
+  shuffleState: boolean,
+  deviceId?: string
+): Promise<SpotifyActionResult> {
+  const result = await spotifyRequest(
+    getSpotifyAccessToken,
+    "/me/player/shuffle",
+    {
+      method: "PUT",
+      query: { state: shuffleState, device_id: deviceId },
     }
+  );
+
+  if (!result.ok) {
+    return {
+      success: false,
+      ...toActionError(result.error, {}, "Failed to toggle shuffle."),
+    };
+  }
 
-    const data = await response.json();
+  // Spotify returns 204 No Content on success
+  return { success: true };
+}
 
-    // Check if the expected fields are present
-    if (!data.access_token || typeof data.expires_in !== "number") {
-      console.error(
-        "refreshSpotifyToken Error: Invalid response format from Spotify.",
-        data
-      );
-      return null;
+/**
+ * Server Action to set the repeat mode for the user's playback.
+ * @param repeatState "off", "context" (the playlist) or "track".
+ * @param deviceId The ID of the device (optional, defaults to the active one).
+ * @returns {Promise<SpotifyActionResult>} Status of the operation.
+ */
+export async function setRepeatMode(
+  repeatState: SpotifyRepeatState,
+  deviceId?: string
+): Promise<SpotifyActionResult> {
+  const result = await spotifyRequest(
+    getSpotifyAccessToken,
+    "/me/player/repeat",
+    {
+      method: "PUT",
+      query: { state: repeatState, device_id: deviceId },
     }
+  );
 
+  if (!result.ok) {
     return {
-      accessToken: data.access_token,
-      expiresIn: data.expires_in,
+      success: false,
+      ...toActionError(result.error, {}, "Failed to set repeat mode."),
     };
-  } catch (error) {
-    console.error("refreshSpotifyToken Error: Network or other error.", error);
-    return null;
   }
+
+  // Spotify returns 204 No Content on success
+  return { success: true };
 }
 
-const SPOTIFY_API_BASE = "https://api.spotify.com/v1";
+// --- Spotify Connect Device Actions ---
 
-// Helper function to make authenticated Spotify API calls
-async function fetchSpotifyApi(
-  endpoint: string,
-  token: string,
-  options: RequestInit = {}
-): Promise<Response> {
-  return fetch(`${SPOTIFY_API_BASE}${endpoint}`, {
-    ...options,
-    headers: {
-      ...options.headers,
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json", // Often needed for PUT/POST
-    },
-    cache: "no-store", // Ensure fresh requests for player actions
-  });
-}
+/**
+ * Server Action to list the user's available Spotify Connect devices.
+ * @returns The devices, or an error.
+ */
+export async function getAvailableDevices(): Promise<{
+  devices: SpotifyDevice[];
+  error?: string;
+  errorKind?: SpotifyErrorKind;
+}> {
+  const result = await spotifyRequest<{ devices: SpotifyDevice[] }>(
+    getSpotifyAccessToken,
+    "/me/player/devices"
+  );
 
-// --- New Server Actions for Player Control ---
+  if (!result.ok) {
+    return {
+      devices: [],
+      ...toActionError(result.error, {}, "Failed to load devices."),
+    };
+  }
+
+  return { devices: result.data?.devices ?? [] };
+}
 
 /**
- * Server Action to start or resume playback on a specific device,
- * optionally playing a specific context URI (like a playlist).
- * @param deviceId The ID of the device to play on.
- * @param contextUri The Spotify context URI to play (e.g., "spotify:playlist:..."). Optional.
- * @param positionMs The position in milliseconds to start playback from. Optional.
- * @returns {Promise<{ success: boolean; error?: string }>} Status of the operation.
+ * Server Action to move the user's playback to another device.
+ * @param deviceId The device to transfer to.
+ * @param play Start playing on the new device (true), or keep the current state.
+ * @returns {Promise<SpotifyActionResult>} Status of the operation.
  */
-export async function startPlayback(
+export async function transferPlayback(
   deviceId: string,
-  contextUri?: string,
-  positionMs?: number
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    const tokenInfo = await getSpotifyAccessToken();
-    if (!tokenInfo?.accessToken) {
-      console.error("startPlayback Error: Could not get access token.");
-      return { success: false, error: "Authentication required." };
-    }
+  play = true
+): Promise<SpotifyActionResult> {
+  if (!deviceId) {
+    return { success: false, error: "Device ID is required." };
+  }
 
-    const body: { context_uri?: string; position_ms?: number } = {};
-    if (contextUri) {
-      body.context_uri = contextUri;
-    }
-    if (positionMs !== undefined) {
-      body.position_ms = positionMs;
-    }
+  const result = await spotifyRequest(getSpotifyAccessToken, "/me/player", {
+    method: "PUT",
+    body: { device_ids: [deviceId], play },
+  });
 
-    const response = await fetchSpotifyApi(
-      `/me/player/play?device_id=${deviceId}`,
-      tokenInfo.accessToken,
-      {
-        method: "PUT",
-        body: Object.keys(body).length > 0 ? JSON.stringify(body) : undefined, // Only include body if non-empty
-      }
-    );
+  if (!result.ok) {
+    return {
+      success: false,
+      ...toActionError(
+        result.error,
+        { no_active_device: "That device is no longer available." },
+        "Failed to transfer playback."
+      ),
+    };
+  }
 
-    if (!response.ok) {
-      const errorData = await response.text(); // Get text for more info
-      console.error(
-        `startPlayback Error (${response.status}): Failed to start playback.`,
-        errorData
-      );
-      // Specific error handling (e.g., 404 device not found, 403 premium required)
-      let errorMessage = "Failed to start playback.";
-      if (response.status === 404)
-        errorMessage = "Device not found or inactive.";
-      if (response.status === 403)
-        errorMessage = "Spotify Premium required or action forbidden.";
-      return { success: false, error: errorMessage };
-    }
+  return { success: true };
+}
 
-    // Spotify returns 204 No Content on success
-    return { success: true };
-  } catch (error) {
-    console.error("startPlayback Error: Unexpected error", error);
-    return { success: false, error: "An unexpected error occurred." };
+/**
+ * Server Action to read the user's current playback on any device.
+ * @returns The playback state, or null when nothing is playing.
+ */
+export async function getPlaybackState(): Promise<{
+  state: SpotifyApiPlaybackState | null;
+  error?: string;
+  errorKind?: SpotifyErrorKind;
+}> {
+  const result = await spotifyRequest<SpotifyApiPlaybackState>(
+    getSpotifyAccessToken,
+    "/me/player"
+  );
+
+  if (!result.ok) {
+    return {
+      state: null,
+      ...toActionError(result.error, {}, "Failed to load playback state."),
+    };
   }
+
+  // Spotify returns 204 No Content when no device is active
+  return { state: result.data ?? null };
 }
 
 /**
- * Server Action to toggle shuffle mode for the user's playback.
- * @param deviceId The ID of the device (optional, but recommended).
- * @param shuffleState The desired shuffle state (true for on, false for off).
- * @returns {Promise<{ success: boolean; error?: string }>} Status of the operation.
+ * Server Action for the transport commands on a device: pause, skip to the
+ * next or previous track. (Resuming is `startPlayback` without options.)
+ * @param command The command to send.
+ * @param deviceId The device to control, the active device if omitted.
+ * @returns {Promise<SpotifyActionResult>} Status of the operation.
  */
-export async function toggleShuffle(
-  shuffleState: boolean,
+export async function controlPlayback(
+  command: "pause" | "next" | "previous",
   deviceId?: string
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    const tokenInfo = await getSpotifyAccessToken();
-    if (!tokenInfo?.accessToken) {
-      console.error("toggleShuffle Error: Could not get access token.");
-      return { success: false, error: "Authentication required." };
+): Promise<SpotifyActionResult> {
+  const result = await spotifyRequest(
+    getSpotifyAccessToken,
+    `/me/player/${command}`,
+    {
+      method: command === "pause" ? "PUT" : "POST",
+      query: { device_id: deviceId },
     }
+  );
 
-    let endpoint = `/me/player/shuffle?state=${shuffleState}`;
-    if (deviceId) {
-      endpoint += `&device_id=${deviceId}`;
-    }
+  if (!result.ok) {
+    return {
+      success: false,
+      ...toActionError(result.error, {}, `Failed to ${command} playback.`),
+    };
+  }
+
+  return { success: true };
+}
 
-    const response = await fetchSpotifyApi(endpoint, tokenInfo.accessToken, {
+/**
+ * Server Action to seek within the current track.
+ * @param positionMs The position to seek to, in milliseconds.
+ * @param deviceId The device to control, the active device if omitted.
+ * @returns {Promise<SpotifyActionResult>} Status of the operation.
+ */
+export async function seekToPosition(
+  positionMs: number,
+  deviceId?: string
+): Promise<SpotifyActionResult> {
+  const result = await spotifyRequest(
+    getSpotifyAccessToken,
+    "/me/player/seek",
+    {
       method: "PUT",
-    });
+      query: {
+        position_ms: Math.max(0, Math.round(positionMs)),
+        device_id: deviceId,
+      },
+    }
+  );
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error(
-        `toggleShuffle Error (${response.status}): Failed to toggle shuffle.`,
-        errorData
-      );
-      let errorMessage = "Failed to toggle shuffle.";
-      if (response.status === 404)
-        errorMessage = "Device not found or inactive.";
-      if (response.status === 403) errorMessage = "Action forbidden.";
-      return { success: false, error: errorMessage };
+  if (!result.ok) {
+    return {
+      success: false,
+      ...toActionError(result.error, {}, "Failed to seek."),
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Server Action to set the volume of a device.
+ * @param volumePercent The volume, 0-100.
+ * @param deviceId The device to control, the active device if omitted.
+ * @returns {Promise<SpotifyActionResult>} Status of the operation.
+ */
+export async function setPlaybackVolume(
+  volumePercent: number,
+  deviceId?: string
+): Promise<SpotifyActionResult> {
+  const result = await spotifyRequest(
+    getSpotifyAccessToken,
+    "/me/player/volume",
+    {
+      method: "PUT",
+      query: {
+        volume_percent: Math.min(100, Math.max(0, Math.round(volumePercent))),
+        device_id: deviceId,
+      },
     }
+  );
 
-    // Spotify returns 204 No Content on success
-    return { success: true };
-  } catch (error) {
-    console.error("toggleShuffle Error: Unexpected error", error);
-    return { success: false, error: "An unexpected error occurred." };
+  if (!result.ok) {
+    return {
+      success: false,
+      ...toActionError(
+        result.error,
+        { forbidden: "This device doesn't allow changing the volume." },
+        "Failed to set volume."
+      ),
+    };
   }
+
+  return { success: true };
 }
 
 // --- Save Track Action ---
-export async function saveTrack(
-  trackId: string
-): Promise<{ success: boolean; error?: string }> {
+export async function saveTrack(trackId: string): Promise<SpotifyActionResult> {
   if (!trackId) {
     return { success: false, error: "Track ID is required." };
   }
 
-  const tokenInfo = await getSpotifyAccessToken();
-  if (tokenInfo.error || !tokenInfo.accessToken) {
+  const result = await spotifyRequest(getSpotifyAccessToken, "/me/tracks", {
+    method: "PUT",
+    body: { ids: [trackId] },
+  });
+
+  if (!result.ok) {
+    console.error(`saveTrack Error: Failed to save track ${trackId}.`);
     return {
       success: false,
-      error: tokenInfo.error || "Spotify token unavailable.",
+      ...toActionError(
+        result.error,
+        {
+          forbidden: "Permission denied (check scopes?).",
+          not_found: "Track not found.",
+        },
+        "Failed to save track."
+      ),
     };
   }
 
-  try {
-    const response = await fetchSpotifyApi(
-      `/me/tracks`,
-      tokenInfo.accessToken,
-      {
-        method: "PUT",
-        body: JSON.stringify({ ids: [trackId] }), // Ensure trackId is used here
-      }
-    );
-
-    if (!response.ok) {
-      const errorData = await response.text(); // Read text for potential non-JSON errors
-      console.error(
-        `saveTrack Error (${response.status}): Failed to save track ${trackId}.`,
-        errorData
-      );
-      let userError = "Failed to save track.";
-      if (response.status === 401) {
-        userError = "Authentication failed. Please re-login.";
-      } else if (response.status === 403) {
-        userError = "Permission denied (check scopes?).";
-      } else if (response.status === 404) {
-        userError = "Track not found.";
-      }
-      return { success: false, error: userError };
-    }
-
-    return { success: true };
-  } catch (error) {
-    console.error(
-      `saveTrack Error: Unexpected error saving track ${trackId}.`,
-      error
-    );
-    return { success: false, error: "An unexpected error occurred." };
-  }
+  return { success: true };
 }
 
 // --- Follow Playlist Action ---
 export async function followPlaylist(
   playlistId: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<SpotifyActionResult> {
   if (!playlistId) {
     return { success: false, error: "Playlist ID is required." };
   }
 
-  const tokenInfo = await getSpotifyAccessToken();
+  const result = await spotifyRequest(
+    getSpotifyAccessToken,
+    `/playlists/${playlistId}/followers`,
+    { method: "PUT" }
+  );
 
-  // Token Check (same as saveTrack)
-  if (!tokenInfo || typeof tokenInfo !== "object") {
-    return { success: false, error: "Invalid token info received." };
-  }
-  if ("error" in tokenInfo && typeof tokenInfo.error === "string") {
-    return { success: false, error: tokenInfo.error };
-  }
-  if (
-    !("accessToken" in tokenInfo) ||
-    typeof tokenInfo.accessToken !== "string" ||
-    !tokenInfo.accessToken
-  ) {
+  if (!result.ok) {
+    console.error(`Failed to follow playlist ${playlistId}.`);
     return {
       success: false,
-      error: "Could not retrieve valid Spotify access token.",
+      ...toActionError(
+        result.error,
+        {
+          forbidden: "Permission denied (check scopes?).",
+          not_found: "Playlist not found.",
+        },
+        "Failed to follow playlist."
+      ),
     };
   }
-  const accessToken = tokenInfo.accessToken;
 
-  // Note: The API endpoint uses PUT, but doesn't strictly require a body for following.
-  // Some docs suggest sending an empty body or `{"public": false}` might be needed,
-  // but often just the PUT request is sufficient.
-  const url = `https://api.spotify.com/v1/playlists/${playlistId}/followers`;
+  return { success: true };
+}
 
-  try {
-    const response = await fetch(url, {
-      method: "PUT",
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        // "Content-Type": "application/json", // Often not needed for this endpoint
-      },
-      // body: JSON.stringify({}), // Optional empty body if required by Spotify
-    });
+// --- Merge Room Playlists Action ---
 
-    // Check for 200 OK (Success)
-    if (response.status === 200) {
-      return { success: true };
-    } else {
-      // Handle errors (e.g., 401 Unauthorized, 403 Forbidden, 404 Not Found)
-      let errorDetails = `Spotify API Error: ${response.status} ${response.statusText}`;
-      try {
-        const errorBody = await response.json();
-        errorDetails = errorBody?.error?.message || errorDetails;
-      } catch (e) {
-        console.error("Could not parse Spotify error response body:", e);
+// POST /playlists/{id}/tracks accepts at most 100 URIs per request
+const MERGE_BATCH_SIZE = 100;
+// Batches added per action call, so the client can report progress between calls
+const MERGE_BATCHES_PER_CALL = 5;
+
+/**
+ * Where a merge stands. Returned by every mergeRoomPlaylists call and passed
+ * back in to continue; `added` of `trackUris` are already in the playlist.
+ */
+export interface MergeRoomPlaylistsProgress {
+  playlistId: string;
+  playlistUrl: string | null;
+  trackUris: string[];
+  added: number;
+  // Set when a playlist was too long to copy completely
+  truncated: boolean;
+}
+
+export type MergeRoomPlaylistsResult = SpotifyActionResult & {
+  progress?: MergeRoomPlaylistsProgress;
+};
+
+/**
+ * Server Action that copies every track of a room's playlists into one new
+ * playlist on the user's Spotify account, named after the room.
+ * The first call collects and de-duplicates the tracks, creates the playlist
+ * and adds the first batches. Large rooms take several calls: pass the
+ * returned progress back in until `added` reaches `trackUris.length`. A
+ * failed call returns the progress so far and can be retried with it.
+ * @param roomId The room whose playlists to merge.
+ * @param progress Progress from the previous call, omitted to start.
+ */
+export async function mergeRoomPlaylists(
+  roomId: string,
+  progress?: MergeRoomPlaylistsProgress
+): Promise<MergeRoomPlaylistsResult> {
+  if (!roomId) {
+    return { success: false, error: "Room ID is required." };
+  }
+
+  let current = progress;
+  if (!current) {
+    const supabase = await createClient();
+    const { data: room, error: roomError } = await supabase
+      .from("rooms")
+      .select("name")
+      .eq("id", roomId)
+      .maybeSingle();
+    if (roomError || !room) {
+      console.error(
+        `mergeRoomPlaylists Error: Room ${roomId} not found.`,
+        roomError
+      );
+      return { success: false, error: "Room not found." };
+    }
+
+    const roomName: string = room.name || "Room playlists";
+
+    const { data: roomPlaylists, error: playlistsError } = await supabase
+      .from("room_playlists")
+      .select("spotify_playlist_id")
+      .eq("room_id", roomId)
+      .order("position", { ascending: true });
+    if (playlistsError) {
+      console.error(
+        "mergeRoomPlaylists Error: Failed to load room playlists:",
+        playlistsError
+      );
+      return { success: false, error: "Failed to load the room's playlists." };
+    }
+
+    // Tracks in room order, each track once
+    const trackUris = new Set<string>();
+    let truncated = false;
+    const playlistIds = (roomPlaylists ?? [])
+      .map((row) => row.spotify_playlist_id)
+      .filter((id): id is string => typeof id === "string" && id !== "");
+    for (const playlistId of playlistIds) {
+      const result = await getPlaylistTracks(playlistId);
+      if (result.error) {
+        return {
+          success: false,
+          error: result.error,
+          errorKind: result.errorKind,
+        };
       }
-      console.error(`Failed to follow playlist ${playlistId}: ${errorDetails}`);
-      return { success: false, error: errorDetails };
+      result.tracks.forEach(({ uri }) => trackUris.add(uri));
+      truncated ||= Boolean(result.truncated);
     }
-  } catch (error) {
-    console.error(`Unexpected error following playlist ${playlistId}:`, error);
-    return {
-      success: false,
-      error: "An unexpected error occurred while following the playlist.",
+    if (trackUris.size === 0) {
+      return { success: false, error: "The room's playlists have no tracks." };
+    }
+
+    const me = await spotifyRequest<{ id: string }>(
+      getSpotifyAccessToken,
+      "/me"
+    );
+    if (!me.ok) {
+      return {
+        success: false,
+        ...toActionError(me.error, {}, "Failed to load your Spotify profile."),
+      };
+    }
+
+    const created = await spotifyRequest<{
+      id: string;
+      external_urls?: { spotify?: string };
+    }>(
+      getSpotifyAccessToken,
+      `/users/${encodeURIComponent(me.data?.id ?? "")}/playlists`,
+      {
+        method: "POST",
+        body: {
+          name: roomName,
+          description: `Every playlist from the room "${roomName}".`,
+          public: false,
+        },
+      }
+    );
+    if (!created.ok) {
+      console.error(
+        `mergeRoomPlaylists Error: Failed to create playlist for room ${roomId}.`
+      );
+      return {
+        success: false,
+        ...toActionError(
+          created.error,
+          { forbidden: "Permission denied (check scopes?)." },
+          "Failed to create the playlist."
+        ),
+      };
+    }
+    if (!created.data?.id) {
+      return {
+        success: false,
+        error: "Invalid response format from Spotify.",
+        errorKind: "invalid_response",
+      };
+    }
+
+    current = {
+      playlistId: created.data.id,
+      playlistUrl: created.data.external_urls?.spotify ?? null,
+      trackUris: Array.from(trackUris),
+      added: 0,
+      truncated,
     };
   }
+
+  for (
+    let batch = 0;
+    batch < MERGE_BATCHES_PER_CALL && current.added < current.trackUris.length;
+    batch++
+  ) {
+    const uris = current.trackUris.slice(
+      current.added,
+      current.added + MERGE_BATCH_SIZE
+    );
+    const result = await spotifyRequest(
+      getSpotifyAccessToken,
+      `/playlists/${current.playlistId}/tracks`,
+      { method: "POST", body: { uris } }
+    );
+    if (!result.ok) {
+      console.error(
+        `mergeRoomPlaylists Error: Failed to add tracks to ${current.playlistId} at ${current.added}.`
+      );
+      return {
+        success: false,
+        progress: current,
+        ...toActionError(
+          result.error,
+          { forbidden: "Permission denied (check scopes?)." },
+          "Failed to add tracks to the playlist."
+        ),
+      };
+    }
+    current = { ...current, added: current.added + uris.length };
+  }
+
+  return { success: true, progress: current };
 }
 
 // --- Check Tracks Saved Action ---
-export async function checkTracksSaved(
-  trackIds: string[]
-): Promise<{ data: boolean[] | null; error?: string }> {
+export async function checkTracksSaved(trackIds: string[]): Promise<{
+  data: boolean[] | null;
+  error?: string;
+  errorKind?: SpotifyErrorKind;
+}> {
   if (!trackIds || trackIds.length === 0) {
     return { data: [] }; // Return empty array if no IDs provided
   }
@@ -458,236 +715,110 @@ export async function checkTracksSaved(
     return { data: null, error: "Cannot check more than 50 tracks at once." };
   }
 
-  const tokenInfo = await getSpotifyAccessToken();
+  const result = await spotifyRequest<boolean[]>(
+    getSpotifyAccessToken,
+    "/me/tracks/contains",
+    { query: { ids: trackIds.join(",") } }
+  );
 
-  // Token Check
-  if (!tokenInfo || typeof tokenInfo !== "object") {
-    return { data: null, error: "Invalid token info received." };
-  }
-  if ("error" in tokenInfo && typeof tokenInfo.error === "string") {
-    return { data: null, error: tokenInfo.error };
-  }
-  if (
-    !("accessToken" in tokenInfo) ||
-    typeof tokenInfo.accessToken !== "string" ||
-    !tokenInfo.accessToken
-  ) {
+  if (!result.ok) {
+    console.error(
+      `Failed to check saved tracks [${trackIds.join(", ")}]: ${result.error.message}`
+    );
     return {
       data: null,
-      error: "Could not retrieve valid Spotify access token.",
+      ...toActionError(result.error, {}, "Failed to check saved tracks."),
     };
   }
-  const accessToken = tokenInfo.accessToken;
-
-  // Construct URL with query parameter
-  const url = `https://api.spotify.com/v1/me/tracks/contains?ids=${trackIds.join(
-    ","
-  )}`;
-
-  try {
-    const response = await fetch(url, {
-      method: "GET", // This is a GET request
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
-    });
 
-    // Check for 200 OK
-    if (response.status === 200) {
-      const data: boolean[] = await response.json();
-
-      // Ensure response is an array of booleans matching input length
-      if (
-        Array.isArray(data) &&
-        data.length === trackIds.length &&
-        data.every((item) => typeof item === "boolean")
-      ) {
-        return { data: data };
-      } else {
-        console.error(
-          "Spotify API Error: Invalid response format from /me/tracks/contains",
-          data
-        );
-        return { data: null, error: "Invalid response format from Spotify." };
-      }
-    } else {
-      // Handle errors
-      let errorDetails = `Spotify API Error: ${response.status} ${response.statusText}`;
-      try {
-        const errorBody = await response.json();
-        errorDetails = errorBody?.error?.message || errorDetails;
-      } catch (e) {
-        console.error("Could not parse Spotify error response body:", e);
-      }
-      console.error(
-        `Failed to check saved tracks [${trackIds.join(", ")}]: ${errorDetails}`
-      );
-      return { data: null, error: errorDetails };
-    }
-  } catch (error) {
+  const data = result.data;
+  // Ensure response is an array of booleans matching input length
+  if (
+    !Array.isArray(data) ||
+    data.length !== trackIds.length ||
+    !data.every((item) => typeof item === "boolean")
+  ) {
     console.error(
-      `Unexpected error checking saved tracks [${trackIds.join(", ")}]:`,
-      error
+      "Spotify API Error: Invalid response format from /me/tracks/contains",
+      data
     );
     return {
       data: null,
-      error: "An unexpected error occurred while checking saved tracks.",
+      error: "Invalid response format from Spotify.",
+      errorKind: "invalid_response",
     };
   }
+
+  return { data };
 }
 
 // --- Check Playlist Followed Action ---
-export async function checkPlaylistFollowed(
-  playlistId: string
-): Promise<{ isFollowing: boolean | null; error?: string }> {
+export async function checkPlaylistFollowed(playlistId: string): Promise<{
+  isFollowing: boolean | null;
+  error?: string;
+  errorKind?: SpotifyErrorKind;
+}> {
   if (!playlistId) {
     return { isFollowing: null, error: "Playlist ID is required." };
   }
 
-  const tokenInfo = await getSpotifyAccessToken();
-
-  // Token Check (consistent with other actions)
-  if (!tokenInfo || typeof tokenInfo !== "object") {
-    return { isFollowing: null, error: "Invalid token info received." };
-  }
-  if ("error" in tokenInfo && typeof tokenInfo.error === "string") {
-    return { isFollowing: null, error: tokenInfo.error };
-  }
-  if (
-    !("accessToken" in tokenInfo) ||
-    typeof tokenInfo.accessToken !== "string" ||
-    !tokenInfo.accessToken
-  ) {
-    return {
-      isFollowing: null,
-      error: "Could not retrieve valid Spotify access token.",
-    };
-  }
-  const accessToken = tokenInfo.accessToken;
-
   // We need the user's Spotify ID for this check
-  // Note: Using a separate helper or including it here
-  let userId: string | null = null;
-  try {
-    let meResponse: Response | null = null;
-    let attempts = 0;
-    const maxAttempts = 3;
-    const retryDelayMs = 500;
-
-    while (attempts < maxAttempts) {
-      attempts++;
-      meResponse = await fetch("https://api.spotify.com/v1/me", {
-        headers: { Authorization: `Bearer ${accessToken}` },
-        cache: "no-store", // Ensure we get the user ID reliably
-      });
-
-      // If successful or it's a non-retryable client error (4xx), break the loop
-      if (
-        meResponse.ok ||
-        (meResponse.status >= 400 && meResponse.status < 500)
-      ) {
-        break;
-      }
-
-      // If it's a server error (5xx) and we have attempts left, wait and retry
-      if (meResponse.status >= 500 && attempts < maxAttempts) {
-        console.warn(
-          `Spotify API /me Error (${meResponse.status}): Attempt ${attempts} failed. Retrying in ${retryDelayMs}ms...`
-        );
-        await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
-      } else if (meResponse.status >= 500) {
-        // Max attempts reached for server error
-        console.error(
-          `Spotify API /me Error (${meResponse.status}): Max retries reached.`
-        );
-        // Keep meResponse to throw the error outside the loop
-      }
-    }
-
-    // Check the final response after the loop
-    if (!meResponse || !meResponse.ok) {
-      const statusText = meResponse
-        ? `${meResponse.status} ${meResponse.statusText}`
-        : "Unknown fetch error";
-      throw new Error(`Failed to get user ID: ${statusText}`);
-    }
-
-    // Process successful response
-    const meData = await meResponse.json();
-    userId = meData.id;
-  } catch (error: unknown) {
-    console.error("checkPlaylistFollowed Error: Failed to get user ID", error);
-    const message = error instanceof Error ? error.message : "Unknown error";
+  const meResult = await spotifyRequest<{ id?: string }>(
+    getSpotifyAccessToken,
+    "/me"
+  );
+  if (!meResult.ok) {
+    console.error("checkPlaylistFollowed Error: Failed to get user ID");
     return {
       isFollowing: null,
-      error: `Failed to get user details: ${message}`,
+      ...toActionError(meResult.error, {}, "Failed to get user details."),
     };
   }
 
+  const userId = meResult.data?.id;
   if (!userId) {
     return { isFollowing: null, error: "Could not determine Spotify User ID." };
   }
 
-  // Construct URL for checking if the user follows the playlist
-  const url = `https://api.spotify.com/v1/playlists/${playlistId}/followers/contains?ids=${userId}`;
+  const result = await spotifyRequest<boolean[]>(
+    getSpotifyAccessToken,
+    `/playlists/${playlistId}/followers/contains`,
+    { query: { ids: userId } }
+  );
 
-  try {
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
-    });
+  if (!result.ok) {
+    console.error(`Failed to check follow status for playlist ${playlistId}.`);
+    return {
+      isFollowing: null,
+      ...toActionError(
+        result.error,
+        { not_found: "Playlist not found." },
+        "Failed to check follow status."
+      ),
+    };
+  }
 
-    // Check for 200 OK
-    if (response.status === 200) {
-      const data: boolean[] = await response.json();
-      // The response is an array of booleans, one for each user ID checked.
-      // Since we only check one user, we expect [true] or [false].
-      if (
-        Array.isArray(data) &&
-        data.length === 1 &&
-        typeof data[0] === "boolean"
-      ) {
-        return { isFollowing: data[0] };
-      } else {
-        console.error(
-          "Spotify API Error: Invalid response format from /playlists/.../followers/contains",
-          data
-        );
-        return {
-          isFollowing: null,
-          error: "Invalid response format from Spotify.",
-        };
-      }
-    } else {
-      // Handle errors (401, 403, 404, etc.)
-      let errorDetails = `Spotify API Error: ${response.status} ${response.statusText}`;
-      try {
-        const errorBody = await response.json();
-        errorDetails = errorBody?.error?.message || errorDetails;
-      } catch {
-        // Ignore if error body isn't JSON
-      }
-      console.error(
-        `Failed to check follow status for playlist ${playlistId}: ${errorDetails}`
-      );
-      return { isFollowing: null, error: errorDetails };
-    }
-  } catch (error: unknown) {
+  // The response is an array of booleans, one for each user ID checked.
+  // Since we only check one user, we expect [true] or [false].
+  const data = result.data;
+  if (
+    !Array.isArray(data) ||
+    data.length !== 1 ||
+    typeof data[0] !== "boolean"
+  ) {
     console.error(
-      `Unexpected error checking follow status for playlist ${playlistId}:`,
-      error
+      "Spotify API Error: Invalid response format from /playlists/.../followers/contains",
+      data
     );
-    const message = error instanceof Error ? error.message : "Unknown error";
     return {
       isFollowing: null,
-      error: `An unexpected error occurred: ${message}`,
+      error: "Invalid response format from Spotify.",
+      errorKind: "invalid_response",
     };
   }
-}
 
-// --- Get Current Playback State ---
+  return { isFollowing: data[0] };
+}
 
 // --- Functions moved from spotify-api.ts ---
 
@@ -709,60 +840,74 @@ export interface SpotifyPlaylist {
     total: number;
   };
   uri: string;
+  snapshot_id: string; // Changes whenever the playlist is modified
   // Add other fields as needed from the Spotify API response
 }
 
+// Only request playlist metadata, not the first page of tracks
+const PLAYLIST_METADATA_FIELDS =
+  "id,name,description,owner(id,display_name),images,tracks(href,total),uri,snapshot_id";
+
+// Client-credentials token shared by every request in this server process
+let clientCredentialsToken: { accessToken: string; expiresAt: number } | null =
+  null;
+let pendingClientCredentialsToken: Promise<string | null> | null = null;
+// Renew a minute early so in-flight requests don't race the expiry
+const CLIENT_CREDENTIALS_EXPIRY_BUFFER_MS = 60 * 1000;
+
 /**
  * Fetches a Spotify API access token using the Client Credentials flow.
  * Requires SPOTIFY_CLIENT_ID and SPOTIFY_CLIENT_SECRET environment variables.
- * Note: This is a simplified version. A production implementation should
- * securely cache the token and handle expiration/refresh.
+ * The token is cached in-process until shortly before `expires_in` runs out,
+ * and concurrent callers share a single token request.
  *
  * @returns {Promise<string | null>} The access token or null if an error occurred.
  */
 export async function getSpotifyClientCredentialsToken(): Promise<
   string | null
 > {
-  const clientId = process.env.SPOTIFY_CLIENT_ID;
-  const clientSecret = process.env.SPOTIFY_CLIENT_SECRET;
-
-  if (!clientId || !clientSecret) {
-    console.error(
-      "Spotify API Error: SPOTIFY_CLIENT_ID or SPOTIFY_CLIENT_SECRET not set."
-    );
-    return null;
+  if (
+    clientCredentialsToken &&
+    clientCredentialsToken.expiresAt - CLIENT_CREDENTIALS_EXPIRY_BUFFER_MS >
+      Date.now()
+  ) {
+    return clientCredentialsToken.accessToken;
   }
 
-  const authHeader = `Basic ${Buffer.from(
-    `${clientId}:${clientSecret}`
-  ).toString("base64")}`;
+  if (!pendingClientCredentialsToken) {
+    pendingClientCredentialsToken = (async () => {
+      const result = await spotifyAccountsRequest<SpotifyTokenResponse>({
+        grant_type: "client_credentials",
+      });
 
-  try {
-    const response = await fetch(SPOTIFY_ACCOUNTS_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-        Authorization: authHeader,
-      },
-      body: "grant_type=client_credentials",
-      cache: "no-store", // Consider caching strategy later
-    });
+      if (!result.ok) {
+        console.error(
+          `Spotify API Error (${result.error.kind}): Failed to get client credentials token.`,
+          result.error.message
+        );
+        return null;
+      }
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error(
-        `Spotify API Error (${response.status}): Failed to get client credentials token.`,
-        errorData
-      );
-      return null;
-    }
+      const accessToken = result.data?.access_token;
+      if (!accessToken) {
+        console.error(
+          "Spotify API Error: Invalid client credentials token response.",
+          result.data
+        );
+        return null;
+      }
 
-    const data = await response.json();
-    return data.access_token || null;
-  } catch (error) {
-    console.error("Spotify API Error: Network error getting token.", error);
-    return null;
+      clientCredentialsToken = {
+        accessToken,
+        expiresAt: Date.now() + (result.data?.expires_in ?? 3600) * 1000,
+      };
+      return accessToken;
+    })().finally(() => {
+      pendingClientCredentialsToken = null;
+    });
   }
+
+  return pendingClientCredentialsToken;
 }
 
 /**
@@ -784,42 +929,470 @@ export async function getPlaylistDetails(
     return null;
   }
 
-  const url = `${SPOTIFY_API_BASE}/playlists/${playlistId}`; // Use existing SPOTIFY_API_BASE
+  const result = await spotifyRequest<SpotifyPlaylist>(
+    token,
+    `/playlists/${playlistId}`,
+    { query: { fields: PLAYLIST_METADATA_FIELDS } }
+  );
 
-  try {
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${token}`,
+  if (!result.ok) {
+    console.error(
+      `Error fetching playlist ${playlistId}: ${result.error.kind} ${result.error.message}`
+    );
+    return null;
+  }
+
+  const data = result.data;
+  // Basic validation
+  if (typeof data === "object" && data !== null && data.id === playlistId) {
+    return data;
+  }
+  console.error(
+    `Spotify API Error: Unexpected data format for playlist ${playlistId}`,
+    data
+  );
+  return null;
+}
+
+// --- Playlist Tracks ---
+
+// Only request the track fields the player and room queue use
+const PLAYLIST_TRACK_FIELDS =
+  "items(track(id,uri,name,type,is_local,duration_ms,preview_url,artists(name),album(name,images))),next,total";
+// Spotify's maximum page size for /playlists/{id}/tracks
+const PLAYLIST_TRACKS_PAGE_LIMIT = 100;
+// Stop paging after this many pages so one huge playlist can't stall a room
+const PLAYLIST_TRACKS_MAX_PAGES = 50;
+
+interface SpotifyPlaylistTrackItem {
+  track: {
+    id: string | null;
+    uri: string;
+    name: string;
+    type?: string;
+    is_local?: boolean;
+    duration_ms: number;
+    preview_url?: string | null;
+    artists?: { name: string }[];
+    album?: { name: string; images?: { url: string }[] };
+  } | null;
+}
+
+interface SpotifyPlaylistTracksPage {
+  items: SpotifyPlaylistTrackItem[];
+  next: string | null;
+  total: number;
+}
+
+type PlaylistTracksPageResult =
+  | {
+      ok: true;
+      tracks: SimplePlaylistTrack[];
+      next: string | null;
+      total: number;
+    }
+  | { ok: false; error: string; errorKind?: SpotifyErrorKind };
+
+// Fetches the page of playable tracks starting at `offset`. Positions count
+// every playlist item, so they stay valid as playback offsets.
+async function fetchPlaylistTracksPage(
+  token: string,
+  playlistId: string,
+  offset: number
+): Promise<PlaylistTracksPageResult> {
+  const result = await spotifyRequest<SpotifyPlaylistTracksPage>(
+    token,
+    `/playlists/${playlistId}/tracks`,
+    {
+      query: {
+        fields: PLAYLIST_TRACK_FIELDS,
+        limit: PLAYLIST_TRACKS_PAGE_LIMIT,
+        offset,
       },
-      cache: "no-store", // Consider caching strategy later
+    }
+  );
+
+  if (!result.ok) {
+    console.error(
+      `Error fetching tracks for playlist ${playlistId}: ${result.error.kind} ${result.error.message}`
+    );
+    return {
+      ok: false,
+      ...toActionError(
+        result.error,
+        { not_found: "Playlist not found." },
+        "Failed to fetch playlist tracks."
+      ),
+    };
+  }
+
+  if (!result.data || !Array.isArray(result.data.items)) {
+    console.error(
+      `Spotify API Error: Unexpected tracks format for playlist ${playlistId}`,
+      result.data
+    );
+    return {
+      ok: false,
+      error: "Invalid response format from Spotify.",
+      errorKind: "invalid_response",
+    };
+  }
+
+  const tracks: SimplePlaylistTrack[] = [];
+  result.data.items.forEach(({ track }, index) => {
+    if (!track || !track.id || track.is_local || track.type === "episode") {
+      return;
+    }
+    tracks.push({
+      id: track.id,
+      uri: track.uri,
+      name: track.name,
+      artists: (track.artists ?? []).map((artist) => artist.name),
+      albumName: track.album?.name ?? "",
+      imageUrl: track.album?.images?.[0]?.url,
+      durationMs: track.duration_ms,
+      previewUrl: track.preview_url ?? null,
+      position: offset + index,
     });
+  });
+
+  return {
+    ok: true,
+    tracks,
+    next: result.data.next,
+    total: result.data.total,
+  };
+}
+
+/**
+ * Fetches every playable track of a playlist, paging through
+ * `/playlists/{id}/tracks`. Local files, episodes and removed tracks are
+ * skipped since they can't be played by URI.
+ * @param playlistId The ID of the Spotify playlist.
+ * @returns The playlist's tracks in playlist order, or an error. Only the
+ * first PLAYLIST_TRACKS_MAX_PAGES pages are fetched; `truncated` is set when
+ * the playlist is longer than that.
+ */
+export async function getPlaylistTracks(playlistId: string): Promise<{
+  tracks: SimplePlaylistTrack[];
+  truncated?: boolean;
+  error?: string;
+  errorKind?: SpotifyErrorKind;
+}> {
+  if (!playlistId) {
+    return { tracks: [], error: "Playlist ID is required." };
+  }
+
+  const token = await getSpotifyClientCredentialsToken();
+  if (!token) {
+    console.error("Failed to get Spotify token for getPlaylistTracks.");
+    return { tracks: [], error: "Spotify token unavailable." };
+  }
+
+  const tracks: SimplePlaylistTrack[] = [];
+  for (let page = 0; page < PLAYLIST_TRACKS_MAX_PAGES; page++) {
+    const result = await fetchPlaylistTracksPage(
+      token,
+      playlistId,
+      page * PLAYLIST_TRACKS_PAGE_LIMIT
+    );
+    if (!result.ok) {
+      return { tracks: [], error: result.error, errorKind: result.errorKind };
+    }
+
+    tracks.push(...result.tracks);
+    if (!result.next) {
+      return { tracks };
+    }
+  }
+
+  console.warn(
+    `getPlaylistTracks: Playlist ${playlistId} has more than ${PLAYLIST_TRACKS_MAX_PAGES} pages; the rest were skipped.`
+  );
+  return { tracks, truncated: true };
+}
+
+/**
+ * Fetches one page of a playlist's playable tracks, for browsing a playlist
+ * without waiting for all of it.
+ * @param playlistId The ID of the Spotify playlist.
+ * @param offset The playlist position to start at.
+ * @returns The page's tracks, the offset of the next page (null on the last
+ * page) and the playlist's total item count, or an error.
+ */
+export async function getPlaylistTracksPage(
+  playlistId: string,
+  offset: number = 0
+): Promise<{
+  tracks: SimplePlaylistTrack[];
+  nextOffset: number | null;
+  total: number;
+  error?: string;
+  errorKind?: SpotifyErrorKind;
+}> {
+  if (!playlistId) {
+    return {
+      tracks: [],
+      nextOffset: null,
+      total: 0,
+      error: "Playlist ID is required.",
+    };
+  }
+
+  const token = await getSpotifyClientCredentialsToken();
+  if (!token) {
+    console.error("Failed to get Spotify token for getPlaylistTracksPage.");
+    return {
+      tracks: [],
+      nextOffset: null,
+      total: 0,
+      error: "Spotify token unavailable.",
+    };
+  }
+
+  const pageOffset = Math.max(0, Math.floor(offset));
+  const result = await fetchPlaylistTracksPage(token, playlistId, pageOffset);
+  if (!result.ok) {
+    return {
+      tracks: [],
+      nextOffset: null,
+      total: 0,
+      error: result.error,
+      errorKind: result.errorKind,
+    };
+  }
+
+  return {
+    tracks: result.tracks,
+    nextOffset: result.next ? pageOffset + PLAYLIST_TRACKS_PAGE_LIMIT : null,
+    total: result.total,
+  };
+}
+
+// --- Playlist Metadata Cache ---
+
+// Cached metadata younger than this is served without asking Spotify
+const PLAYLIST_CACHE_REVALIDATE_MS = 5 * 60 * 1000;
+// When Spotify can't confirm the snapshot_id, cached metadata younger than
+// this is still served as is
+const PLAYLIST_CACHE_TTL_MS = 60 * 60 * 1000;
+
+type PlaylistCacheRow =
+  Database["public"]["Tables"]["spotify_playlist_cache"]["Row"];
+type PlaylistCacheInsert =
+  Database["public"]["Tables"]["spotify_playlist_cache"]["Insert"];
+
+function playlistFromCacheRow(row: PlaylistCacheRow): SpotifyPlaylist {
+  return {
+    id: row.spotify_playlist_id,
+    name: row.name,
+    description: row.description,
+    owner: {
+      id: row.owner_id ?? "",
+      display_name: row.owner_display_name ?? undefined,
+    },
+    images: (row.images ?? []) as SpotifyPlaylist["images"],
+    tracks: {
+      href: `${getSpotifyApiBase()}/playlists/${row.spotify_playlist_id}/tracks`,
+      total: row.tracks_total,
+    },
+    uri: row.uri,
+    snapshot_id: row.snapshot_id,
+  };
+}
+
+// Asks Spotify for just the playlist's snapshot_id, which is much cheaper
+// than its full metadata. Returns null if the request fails.
+async function getPlaylistSnapshotId(
+  playlistId: string
+): Promise<string | null> {
+  const token = await getSpotifyClientCredentialsToken();
+  if (!token) {
+    console.error("Failed to get Spotify token for getPlaylistSnapshotId.");
+    return null;
+  }
+
+  const result = await spotifyRequest<Pick<SpotifyPlaylist, "snapshot_id">>(
+    token,
+    `/playlists/${playlistId}`,
+    { query: { fields: "snapshot_id" } }
+  );
+
+  if (!result.ok) {
+    console.error(
+      `Error fetching snapshot of playlist ${playlistId}: ${result.error.kind} ${result.error.message}`
+    );
+    return null;
+  }
+  return typeof result.data?.snapshot_id === "string"
+    ? result.data.snapshot_id
+    : null;
+}
 
-    if (!response.ok) {
+// Users can only read the cache; writes go through the service role
+async function writePlaylistCache(rows: PlaylistCacheInsert[]) {
+  try {
+    const { error } = await createAdminClient()
+      .from("spotify_playlist_cache")
+      .upsert(rows);
+    if (error) {
       console.error(
-        `Error fetching playlist ${playlistId}: ${response.status} ${response.statusText}`
+        "getCachedPlaylistDetails Error: Failed to update cache:",
+        error
       );
-      try {
-        const errorBody = await response.json();
-        console.error("Spotify API Error Body:", errorBody);
-      } catch (parseError) {
-        console.error("Could not parse error response body.", parseError); // Log parse error
-      }
-      return null;
     }
+  } catch (error) {
+    console.error(
+      "getCachedPlaylistDetails Error: Failed to update cache:",
+      error
+    );
+  }
+}
 
-    const data: SpotifyPlaylist = await response.json();
-    // Basic validation
-    if (typeof data === "object" && data !== null && data.id === playlistId) {
-      return data;
-    } else {
+// Marks cached rows as checked without rewriting them; the
+// stamp_spotify_playlist_cache trigger sets fetched_at to the database clock
+async function touchPlaylistCache(playlistIds: string[]) {
+  try {
+    const { error } = await createAdminClient()
+      .from("spotify_playlist_cache")
+      .update({ fetched_at: new Date().toISOString() })
+      .in("spotify_playlist_id", playlistIds);
+    if (error) {
       console.error(
-        `Spotify API Error: Unexpected data format for playlist ${playlistId}`,
-        data
+        "getCachedPlaylistDetails Error: Failed to touch cache:",
+        error
       );
-      return null;
     }
   } catch (error) {
-    console.error(`Unexpected error fetching playlist ${playlistId}:`, error);
-    return null;
+    console.error(
+      "getCachedPlaylistDetails Error: Failed to touch cache:",
+      error
+    );
   }
 }
+
+/**
+ * Fetches metadata for several playlists from the `spotify_playlist_cache`
+ * table. Rows checked within PLAYLIST_CACHE_REVALIDATE_MS are served as is;
+ * older rows are revalidated with a snapshot_id-only request and the full
+ * metadata is only refetched for playlists that changed or aren't cached.
+ * If the snapshot can't be checked, rows younger than PLAYLIST_CACHE_TTL_MS
+ * are still served, and if Spotify is unavailable altogether, stale rows are
+ * returned rather than nothing.
+ * @param playlistIds Spotify playlist IDs. Duplicates are ignored.
+ * @returns Playlist details keyed by ID. Playlists that could not be found are omitted.
+ */
+export async function getCachedPlaylistDetails(
+  playlistIds: string[]
+): Promise<Record<string, SpotifyPlaylist>> {
+  const uniqueIds = Array.from(new Set(playlistIds.filter(Boolean)));
+  if (uniqueIds.length === 0) {
+    return {};
+  }
+
+  const supabase = await createClient();
+  const { data: cachedRows, error: cacheError } = await supabase
+    .from("spotify_playlist_cache")
+    .select("*")
+    .in("spotify_playlist_id", uniqueIds);
+
+  if (cacheError) {
+    // Not fatal, everything is fetched from Spotify instead
+    console.error(
+      "getCachedPlaylistDetails Error: Failed to read cache:",
+      cacheError
+    );
+  }
+
+  const cachedById = new Map(
+    ((cachedRows ?? []) as PlaylistCacheRow[]).map((row) => [
+      row.spotify_playlist_id,
+      row,
+    ])
+  );
+
+  const details: Record<string, SpotifyPlaylist> = {};
+  const revalidateRows: PlaylistCacheRow[] = [];
+  const staleIds: string[] = [];
+  const now = Date.now();
+
+  uniqueIds.forEach((playlistId) => {
+    const row = cachedById.get(playlistId);
+    if (!row) {
+      staleIds.push(playlistId);
+    } else if (
+      now - Date.parse(row.fetched_at) <
+      PLAYLIST_CACHE_REVALIDATE_MS
+    ) {
+      details[playlistId] = playlistFromCacheRow(row);
+    } else {
+      revalidateRows.push(row);
+    }
+  });
+
+  const snapshotIds = await Promise.all(
+    revalidateRows.map((row) => getPlaylistSnapshotId(row.spotify_playlist_id))
+  );
+
+  const unchangedIds: string[] = [];
+  revalidateRows.forEach((row, index) => {
+    const playlistId = row.spotify_playlist_id;
+    const snapshotId = snapshotIds[index];
+
+    if (snapshotId === row.snapshot_id) {
+      details[playlistId] = playlistFromCacheRow(row);
+      unchangedIds.push(playlistId);
+    } else if (
+      snapshotId === null &&
+      now - Date.parse(row.fetched_at) < PLAYLIST_CACHE_TTL_MS
+    ) {
+      details[playlistId] = playlistFromCacheRow(row);
+    } else {
+      staleIds.push(playlistId);
+    }
+  });
+
+  if (unchangedIds.length > 0) {
+    await touchPlaylistCache(unchangedIds);
+  }
+
+  if (staleIds.length === 0) {
+    return details;
+  }
+
+  const fetched = await Promise.all(
+    staleIds.map((playlistId) => getPlaylistDetails(playlistId))
+  );
+
+  const rowsToCache: PlaylistCacheInsert[] = [];
+  staleIds.forEach((playlistId, index) => {
+    const playlist = fetched[index];
+    const staleRow = cachedById.get(playlistId);
+
+    if (!playlist) {
+      if (staleRow) {
+        details[playlistId] = playlistFromCacheRow(staleRow);
+      }
+      return;
+    }
+
+    details[playlistId] = playlist;
+    rowsToCache.push({
+      spotify_playlist_id: playlist.id,
+      snapshot_id: playlist.snapshot_id,
+      name: playlist.name,
+      description: playlist.description,
+      owner_id: playlist.owner?.id ?? null,
+      owner_display_name: playlist.owner?.display_name ?? null,
+      images: playlist.images ?? [],
+      tracks_total: playlist.tracks?.total ?? 0,
+      uri: playlist.uri,
+    });
+  });
+
+  if (rowsToCache.length > 0) {
+    await writePlaylistCache(rowsToCache);
+  }
+
+  return details;
+}
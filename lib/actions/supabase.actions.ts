@@ -5,24 +5,45 @@
 export {}; // Add empty export for module treatment
 
 import { z } from "zod";
+import { randomBytes } from "crypto";
+import { formatDistanceToNowStrict } from "date-fns";
 import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
 import { redirect } from "next/navigation";
 import { revalidatePath } from "next/cache";
+import type { User } from "@supabase/supabase-js";
 import { Database } from "@/lib/types/database.types";
 import {
   PlaylistInputSchema,
   extractSpotifyPlaylistId,
   SimplePlaylistDetails,
+  RoomPlaybackSnapshot,
+  RoomPlayHistoryEntry,
+  RoomInvite,
+  RoomVisibility,
+  RoomMember,
+  RoomBan,
+  RoomQuota,
+  RoomSummary,
+  RoomAppearance,
+  RoomCoverType,
 } from "@/lib/types/index";
+import { getCachedPlaylistDetails } from "@/lib/actions/spotify.actions";
+import { getRoomPermissions, type RoomRole } from "@/lib/room-permissions";
 import {
-  getPlaylistDetails,
-  SpotifyPlaylist,
-} from "@/lib/actions/spotify.actions";
+  ROOM_COVERS_BUCKET,
+  getMosaicCoverUrls,
+  getRoomCoverUrlPrefix,
+  toRoomAppearance,
+} from "@/lib/room-appearance";
 
 // Schema for room creation input
 const CreateRoomSchema = z.object({
   // Room name is now optional
-  roomName: z.string().optional(),
+  roomName: z
+    .string()
+    .max(80, "Room names can be at most 80 characters")
+    .optional(),
   // Require at least one Spotify playlist URL/ID
   playlistUrl: z.string().min(1, "Spotify playlist URL/ID is required"),
 });
@@ -39,6 +60,49 @@ export type CreateRoomResult = {
   };
 };
 
+// Raised by the enforce_room_quota trigger
+const ROOM_QUOTA_EXCEEDED = "room_quota_exceeded";
+
+function getRoomQuotaError(maxRooms?: number) {
+  const limit =
+    maxRooms === undefined
+      ? "You're at your room limit."
+      : `You can have up to ${maxRooms} active ${
+          maxRooms === 1 ? "room" : "rooms"
+        }.`;
+  return `${limit} Archive or delete a room to make space.`;
+}
+
+// Broadcasts on a private Realtime channel as the signed-in user, so the
+// channel's policies decide who may send. Best effort: listeners that miss it
+// catch up on their next load.
+async function sendRoomBroadcast(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  topic: string,
+  event: string,
+  payload: Record<string, unknown> = {}
+) {
+  const channel = supabase.channel(topic, { config: { private: true } });
+  try {
+    // Without a subscription this goes over REST with the user's token
+    await supabase.realtime.setAuth();
+    const status = await channel.send({ type: "broadcast", event, payload });
+    if (status !== "ok") {
+      console.error(
+        `sendRoomBroadcast Error: Failed to send ${event} on ${topic}`,
+        status
+      );
+    }
+  } catch (error) {
+    console.error(
+      `sendRoomBroadcast Error: Failed to send ${event} on ${topic}`,
+      error
+    );
+  } finally {
+    await supabase.removeChannel(channel);
+  }
+}
+
 export async function createRoom(
   prevState: CreateRoomResult | undefined,
   formData: FormData
@@ -67,15 +131,14 @@ export async function createRoom(
 
   const userId = user.id;
 
-  // Check if the user already owns a room
-  const { data: existingRoom, error: checkError } = await supabase
-    .from("rooms")
-    .select("id")
-    .eq("created_by", userId)
-    .maybeSingle();
+  // Check the user has room left in their quota; the database checks again
+  const { data: quotaRows, error: checkError } = await supabase.rpc(
+    "get_my_room_quota"
+  );
+  const quota = quotaRows?.[0];
 
-  if (checkError) {
-    console.error("Error checking for existing room:", checkError);
+  if (checkError || !quota) {
+    console.error("Error checking room quota:", checkError);
     return {
       success: false,
       message: "Failed to check for existing rooms.",
@@ -83,11 +146,11 @@ export async function createRoom(
     };
   }
 
-  if (existingRoom) {
+  if (quota.active_rooms >= quota.max_rooms) {
     return {
       success: false,
       message: "Room creation failed.",
-      error: "You can only create one room.", // Specific error for the user
+      error: getRoomQuotaError(quota.max_rooms),
     };
   }
 
@@ -127,6 +190,14 @@ export async function createRoom(
     .select("id")
     .single();
 
+  if (roomInsertError?.message === ROOM_QUOTA_EXCEEDED) {
+    return {
+      success: false,
+      message: "Room creation failed.",
+      error: getRoomQuotaError(quota.max_rooms),
+    };
+  }
+
   if (roomInsertError || !newRoom) {
     console.error("Error inserting room:", roomInsertError);
     return {
@@ -174,7 +245,16 @@ export async function createRoom(
 }
 
 // --- BEGIN NEW SERVER ACTION ---
-export async function getUserRooms() {
+/**
+ * The rooms page data: rooms the user owns (archived ones included), active
+ * rooms they joined, and their room quota.
+ */
+export async function getUserRooms(): Promise<{
+  ownedRooms: RoomSummary[];
+  joinedRooms: RoomSummary[];
+  quota: RoomQuota | null;
+  user: User | null;
+}> {
   // Await the client creation
   const supabase = await createClient();
   const {
@@ -182,10 +262,25 @@ export async function getUserRooms() {
   } = await supabase.auth.getUser();
 
   if (!user) {
-    return { rooms: [], user: null }; // Return empty if no user
+    // Return empty if no user
+    return { ownedRooms: [], joinedRooms: [], quota: null, user: null };
   }
 
-  // 1. Get the room IDs the user is a member of
+  const roomColumns =
+    "id, name, created_by, visibility, archived_at, description, cover_type, cover_url, cover_mosaic_urls, accent_color";
+
+  // 1. Get the rooms the user owns, newest first
+  const { data: ownedData, error: ownedError } = await supabase
+    .from("rooms")
+    .select(roomColumns)
+    .eq("created_by", user.id)
+    .order("created_at", { ascending: false });
+
+  if (ownedError) {
+    console.error("Error fetching owned rooms:", ownedError);
+  }
+
+  // 2. Get the room IDs the user is a member of
   const { data: memberEntries, error: memberError } = await supabase
     .from("room_members")
     .select("room_id")
@@ -193,29 +288,50 @@ export async function getUserRooms() {
 
   if (memberError) {
     console.error("Error fetching room memberships:", memberError);
-    return { rooms: [], user }; // Return empty on error
-  }
-
-  if (!memberEntries || memberEntries.length === 0) {
-    return { rooms: [], user }; // Return empty if user is not in any rooms
   }
 
-  const roomIds = memberEntries.map(
+  const roomIds = (memberEntries ?? []).map(
     (entry: { room_id: string }) => entry.room_id
   );
 
-  // 2. Get the details for those rooms
-  const { data: roomsData, error: roomsError } = await supabase
-    .from("rooms")
-    .select("id, name, created_by") // Select necessary room details
-    .in("id", roomIds);
+  // 3. Get the details for the active rooms they joined but don't own
+  let joinedRooms: RoomSummary[] = [];
+  if (roomIds.length > 0) {
+    const { data: joinedData, error: joinedError } = await supabase
+      .from("rooms")
+      .select(roomColumns)
+      .in("id", roomIds)
+      .is("archived_at", null);
+
+    if (joinedError) {
+      console.error("Error fetching room details:", joinedError);
+    } else {
+      joinedRooms = ((joinedData ?? []) as RoomSummary[]).filter(
+        (room) => room.created_by !== user.id
+      );
+    }
+  }
 
-  if (roomsError) {
-    console.error("Error fetching room details:", roomsError);
-    return { rooms: [], user }; // Return empty on error
+  // 4. Get the quota for the create form
+  const { data: quotaRows, error: quotaError } = await supabase.rpc(
+    "get_my_room_quota"
+  );
+  if (quotaError) {
+    console.error("Error fetching room quota:", quotaError);
   }
+  const quota = quotaRows?.[0]
+    ? {
+        maxRooms: quotaRows[0].max_rooms,
+        activeRooms: quotaRows[0].active_rooms,
+      }
+    : null;
 
-  return { rooms: roomsData || [], user };
+  return {
+    ownedRooms: (ownedData ?? []) as RoomSummary[],
+    joinedRooms,
+    quota,
+    user,
+  };
 }
 // --- END NEW SERVER ACTION ---
 
@@ -261,7 +377,7 @@ export async function addPlaylistToRoom(prevState: AddPlaylistActionResult | nul
   const { roomId, playlistInput } = validatedFields.data;
   const userId = userData.user.id;
 
-  // 1. Verify User Role (Check if DJ)
+  // 1. Verify User Role (Check if DJ or co-DJ)
   try {
     const { data: roleData, error: roleError } = await supabase.rpc(
       "get_user_role_in_room",
@@ -274,13 +390,13 @@ export async function addPlaylistToRoom(prevState: AddPlaylistActionResult | nul
     }
 
     // ---- Safely check roleData ----
-    const userRole = roleData && Array.isArray(roleData) && roleData.length > 0 ? roleData[0]?.role : null;
+    const userRole: RoomRole | null = roleData && Array.isArray(roleData) && roleData.length > 0 ? roleData[0]?.role : null;
 
-    if (userRole !== "dj") {
-      console.warn(`User ${userId} is not a DJ in room ${roomId}. Role: ${userRole}`);
-      return { message: "Only DJs can add playlists.", error: true };
+    if (!getRoomPermissions(userRole).canAddPlaylists) {
+      console.warn(`User ${userId} cannot add playlists in room ${roomId}. Role: ${userRole}`);
+      return { message: "Only DJs and co-DJs can add playlists.", error: true };
     }
-     console.log(`User ${userId} confirmed as DJ in room ${roomId}`);
+     console.log(`User ${userId} confirmed as ${userRole} in room ${roomId}`);
 
   } catch (e) {
       console.error("Unexpected error during role check:", e);
@@ -293,8 +409,10 @@ export async function addPlaylistToRoom(prevState: AddPlaylistActionResult | nul
     return { message: "Invalid Spotify Playlist ID or URL format.", error: true };
   }
 
-  // 3. Verify Playlist Exists via Spotify API
-  const playlistDetails = await getPlaylistDetails(spotifyPlaylistId);
+  // 3. Verify Playlist Exists via Spotify API (also warms the metadata cache)
+  const playlistDetails = (await getCachedPlaylistDetails([spotifyPlaylistId]))[
+    spotifyPlaylistId
+  ];
   if (!playlistDetails) {
     return { message: "Could not find playlist on Spotify or verify its details.", error: true };
   }
@@ -334,7 +452,7 @@ export async function addPlaylistToRoom(prevState: AddPlaylistActionResult | nul
 /**
  * Server Action to get the current authenticated user's role in a specific room.
  * @param roomId The ID of the room to check.
- * @returns The user's role ('DJ', 'member') or null if not a member or error.
+ * @returns The user's role ('DJ', 'co_dj', 'member') or null if not a member or error.
  */
 export async function getUserRoleInCurrentRoom(
   roomId: string
@@ -394,111 +512,1579 @@ export async function getUserRoleInCurrentRoom(
 
 // --- END Add Playlist Action ---
 
-// --- BEGIN Get Room Playlist Details Action ---
+// --- BEGIN Room Archive Actions ---
 
 /**
- * Fetches details for all playlists associated with a room.
- * Combines basic info from DB with details from Spotify API.
+ * Archives or restores a room. Archived rooms can't be joined and don't count
+ * towards the owner's quota; restoring one fails when the owner is at their
+ * limit. RLS only lets the room's creator do this.
  */
-export async function getRoomPlaylistDetails(
-  roomId: string
-): Promise<SimplePlaylistDetails[] | null> {
-  const supabase = await createClient();
-  const { data: userData, error: userError } = await supabase.auth.getUser();
+export async function setRoomArchived(
+  roomId: string,
+  archived: boolean
+): Promise<{ success: boolean; error?: string }> {
+  if (!roomId) {
+    return { success: false, error: "Room ID is required." };
+  }
 
-  if (userError || !userData.user) {
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from("rooms")
+      .update({ archived_at: archived ? new Date().toISOString() : null })
+      .eq("id", roomId)
+      .select("id");
+
+    if (error?.message === ROOM_QUOTA_EXCEEDED) {
+      return { success: false, error: getRoomQuotaError() };
+    }
+    if (error) {
+      console.error(
+        `setRoomArchived Error: Failed to update room ${roomId}`,
+        error
+      );
+      return {
+        success: false,
+        error: archived
+          ? "Failed to archive the room."
+          : "Failed to restore the room.",
+      };
+    }
+    if (!data || data.length === 0) {
+      return {
+        success: false,
+        error: "Only the room's creator can archive or restore it.",
+      };
+    }
+
+    revalidatePath("/rooms");
+    revalidatePath(`/rooms/${roomId}`);
+    return { success: true };
+  } catch (error) {
     console.error(
-      "LOG: getRoomPlaylistDetails - User not authenticated",
-      userError
+      `setRoomArchived Error: Unexpected error for room ${roomId}`,
+      error
     );
-    return null;
+    return { success: false, error: "An unexpected error occurred." };
   }
+}
 
+// Removes a deleted room's uploaded covers. The storage policies check the
+// room's creator, so with the room gone only the service role can do this.
+// Best effort: leftover covers only cost storage.
+async function removeRoomCovers(roomId: string) {
   try {
-    // 1. Fetch playlist IDs and names from your database
-    const { data: roomPlaylists, error: dbError } = await supabase
-      .from("room_playlists")
-      .select("id, spotify_playlist_id, name")
-      .eq("room_id", roomId);
+    const storage = createAdminClient().storage.from(ROOM_COVERS_BUCKET);
+    const { data: files, error: listError } = await storage.list(roomId);
+    if (listError) {
+      console.error(
+        `deleteRoom Error: Failed to list covers of room ${roomId}`,
+        listError
+      );
+      return;
+    }
+    if (!files || files.length === 0) return;
 
-    // Log DB query result
-    if (dbError) {
+    const { error: removeError } = await storage.remove(
+      files.map((file) => `${roomId}/${file.name}`)
+    );
+    if (removeError) {
       console.error(
-        `LOG: getRoomPlaylistDetails - DB Error fetching playlists:`,
-        dbError
+        `deleteRoom Error: Failed to remove covers of room ${roomId}`,
+        removeError
       );
-      return null;
     }
+  } catch (error) {
+    console.error(
+      `deleteRoom Error: Failed to remove covers of room ${roomId}`,
+      error
+    );
+  }
+}
 
-    if (!roomPlaylists || roomPlaylists.length === 0) {
-      console.log(
-        `LOG: getRoomPlaylistDetails - No playlists found in DB for room ${roomId}.`
+/**
+ * Deletes a room along with its members, chat, playlists, history and
+ * uploaded covers. This can't be undone. RLS only lets the room's creator
+ * delete it.
+ */
+export async function deleteRoom(
+  roomId: string
+): Promise<{ success: boolean; error?: string }> {
+  if (!roomId) {
+    return { success: false, error: "Room ID is required." };
+  }
+
+  try {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("rooms")
+      .delete()
+      .eq("id", roomId)
+      .select("id");
+
+    if (error) {
+      console.error(
+        `deleteRoom Error: Failed to delete room ${roomId}`,
+        error
       );
-      return [];
+      return { success: false, error: "Failed to delete the room." };
+    }
+    if (!data || data.length === 0) {
+      return {
+        success: false,
+        error: "Only the room's creator can delete it.",
+      };
     }
 
-    // Define type for DB result explicitly
-    type RoomPlaylistRecord = {
-      id: string;
-      spotify_playlist_id: string;
-      name: string | null;
+    await removeRoomCovers(roomId);
+
+    revalidatePath("/rooms");
+    return { success: true };
+  } catch (error) {
+    console.error(
+      `deleteRoom Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return { success: false, error: "An unexpected error occurred." };
+  }
+}
+
+// --- END Room Archive Actions ---
+
+// --- BEGIN Room Settings Actions ---
+
+const RoomSettingsSchema = z.object({
+  name: z.string().trim().min(1, "Give the room a name.").max(80),
+  description: z.string().trim().max(500).nullable(),
+  accentColor: z
+    .string()
+    .regex(/^#[0-9a-f]{6}$/i)
+    .transform((color) => color.toLowerCase())
+    .nullable(),
+  coverType: z.enum(["none", "upload", "mosaic"]),
+  coverUrl: z.string().url().nullable(),
+});
+
+/**
+ * Saves the room's name, description, accent color and cover. An uploaded
+ * cover must already be in the room's folder of the covers bucket; a mosaic
+ * is built from the room's current playlist covers. Covers the room no
+ * longer uses are removed from storage. RLS only lets the room's creator
+ * save.
+ */
+export async function updateRoomSettings(
+  roomId: string,
+  settings: {
+    name: string;
+    description: string | null;
+    accentColor: string | null;
+    coverType: RoomCoverType;
+    coverUrl: string | null;
+  }
+): Promise<{ success: boolean; error?: string }> {
+  const validatedSettings = RoomSettingsSchema.safeParse(settings);
+  if (!roomId || !validatedSettings.success) {
+    return {
+      success: false,
+      error:
+        validatedSettings.error?.errors[0]?.message ?? "Invalid room settings.",
     };
+  }
+  const { name, description, accentColor, coverType, coverUrl } =
+    validatedSettings.data;
 
-    const dbPlaylistRecords = roomPlaylists as RoomPlaylistRecord[];
+  const coverUrlPrefix = getRoomCoverUrlPrefix(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    roomId
+  );
+  if (
+    coverType === "upload" &&
+    (!coverUrl || !coverUrl.startsWith(coverUrlPrefix))
+  ) {
+    return { success: false, error: "Upload a cover image first." };
+  }
 
-    // 2. Fetch details for each playlist from Spotify API
-    let loggedFirstApiCall = false; // Flag to log only first API call attempt
-    const playlistDetailsPromises = dbPlaylistRecords.map(
-      async (playlist: RoomPlaylistRecord) => {
-        if (!loggedFirstApiCall) {
-          console.log(
-            `LOG: getRoomPlaylistDetails - Calling Spotify API getPlaylistDetails for ID: ${playlist.spotify_playlist_id}`
-          );
-          loggedFirstApiCall = true;
-        }
-        const spotifyDetails: SpotifyPlaylist | null = await getPlaylistDetails(
-          playlist.spotify_playlist_id
-        );
-        // Log first Spotify API result
-        // if (loggedFirstApiCall && !loggedFirstApiResult) { // This logic is a bit complex, maybe simpler log later
-        //     console.log(`LOG: getRoomPlaylistDetails - Spotify API Result for ${playlist.spotify_playlist_id}:`, spotifyDetails);
-        //     loggedFirstApiResult = true;
-        // }
+  let coverMosaicUrls: string[] = [];
+  if (coverType === "mosaic") {
+    coverMosaicUrls = getMosaicCoverUrls(
+      (await getRoomPlaylistDetails(roomId)) ?? []
+    );
+    if (coverMosaicUrls.length === 0) {
+      return {
+        success: false,
+        error: "The room's playlists have no covers to build a mosaic from.",
+      };
+    }
+  }
 
-        // 3. Combine DB data and Spotify data, mapping fields correctly
-        if (spotifyDetails) {
-          return {
-            spotify_playlist_id: playlist.spotify_playlist_id,
-            name: playlist.name ?? spotifyDetails.name,
-            owner: spotifyDetails.owner?.display_name,
-            images: spotifyDetails.images,
-            uri: spotifyDetails.uri,
-          } as SimplePlaylistDetails;
-        } else {
-          console.warn(
-            `LOG: getRoomPlaylistDetails - Failed to get Spotify details for ID: ${playlist.spotify_playlist_id}`
-          ); // Log Spotify failures
-          return {
-            spotify_playlist_id: playlist.spotify_playlist_id,
-            name: playlist.name ?? "Playlist not found",
-            owner: "Unknown",
-            images: [],
-            uri: undefined,
-          } as SimplePlaylistDetails;
-        }
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from("rooms")
+      .update({
+        name,
+        description: description || null,
+        accent_color: accentColor,
+        cover_type: coverType,
+        cover_url: coverType === "upload" ? coverUrl : null,
+        cover_mosaic_urls: coverMosaicUrls,
+      })
+      .eq("id", roomId)
+      .select("id");
+
+    if (error) {
+      console.error(
+        `updateRoomSettings Error: Failed to update room ${roomId}`,
+        error
+      );
+      return { success: false, error: "Failed to save the room settings." };
+    }
+    if (!data || data.length === 0) {
+      return {
+        success: false,
+        error: "Only the room's creator can change its settings.",
+      };
+    }
+
+    // Best effort: a leftover cover only costs storage
+    const { data: files, error: listError } = await supabase.storage
+      .from(ROOM_COVERS_BUCKET)
+      .list(roomId);
+    const unusedPaths = (files ?? [])
+      .filter(
+        (file) =>
+          coverType !== "upload" || `${coverUrlPrefix}${file.name}` !== coverUrl
+      )
+      .map((file) => `${roomId}/${file.name}`);
+    if (listError) {
+      console.error(
+        `updateRoomSettings Error: Failed to list covers of room ${roomId}`,
+        listError
+      );
+    } else if (unusedPaths.length > 0) {
+      const { error: removeError } = await supabase.storage
+        .from(ROOM_COVERS_BUCKET)
+        .remove(unusedPaths);
+      if (removeError) {
+        console.error(
+          `updateRoomSettings Error: Failed to remove old covers of room ${roomId}`,
+          removeError
+        );
       }
+    }
+
+    revalidatePath("/rooms");
+    revalidatePath(`/rooms/${roomId}`);
+    revalidatePath(`/rooms/${roomId}/settings`);
+    return { success: true };
+  } catch (error) {
+    console.error(
+      `updateRoomSettings Error: Unexpected error for room ${roomId}`,
+      error
     );
+    return { success: false, error: "An unexpected error occurred." };
+  }
+}
 
-    const combinedDetails = await Promise.all(playlistDetailsPromises);
+// --- END Room Settings Actions ---
 
-    return combinedDetails;
+// --- BEGIN Room Access Actions ---
+
+// 24 random bytes, 32 characters in the link
+const INVITE_TOKEN_BYTES = 24;
+
+const RoomInviteOptionsSchema = z.object({
+  expiresInHours: z.number().positive().max(24 * 365).nullable(),
+  maxUses: z.number().int().positive().max(10000).nullable(),
+});
+
+// Results of the redeem_room_invite function that don't let the user in
+const INVITE_REDEEM_ERRORS: Record<string, string> = {
+  invalid: "This invite link isn't valid.",
+  revoked: "This invite link was revoked by the DJ.",
+  expired: "This invite link has expired.",
+  used_up: "This invite link has been used up.",
+  banned: "You're banned from this room.",
+  archived: "This room has been archived.",
+};
+
+type RoomInviteRow = Database["public"]["Tables"]["room_invites"]["Row"];
+
+function toRoomInvite(row: RoomInviteRow): RoomInvite {
+  return {
+    id: row.id,
+    token: row.token,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    maxUses: row.max_uses,
+    useCount: row.use_count,
+  };
+}
+
+function describeRoomBan(ban: {
+  reason: string | null;
+  expires_at: string | null;
+}) {
+  const until = ban.expires_at
+    ? ` The ban ends ${formatDistanceToNowStrict(new Date(ban.expires_at), {
+        addSuffix: true,
+      })}.`
+    : "";
+  const reason = ban.reason ? ` Reason: ${ban.reason}` : "";
+  return `${INVITE_REDEEM_ERRORS.banned}${until}${reason}`;
+}
+
+/**
+ * Adds the current user to the room as a member. Public rooms can be joined
+ * directly; invite-only rooms need a valid `inviteToken`, which the database
+ * checks and counts. `joined` is false when the user was already a member.
+ */
+export async function joinRoom(
+  roomId: string,
+  inviteToken?: string
+): Promise<{ success: boolean; joined?: boolean; error?: string }> {
+  if (!roomId) {
+    return { success: false, error: "Room ID is required." };
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError || !userData?.user) {
+      return { success: false, error: "User not authenticated." };
+    }
+    const userId = userData.user.id;
+
+    const { data: existingMember, error: memberError } = await supabase
+      .from("room_members")
+      .select("user_id")
+      .eq("room_id", roomId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (memberError) {
+      console.error(
+        `joinRoom Error: Failed to check membership in room ${roomId}`,
+        memberError
+      );
+      return { success: false, error: "Failed to join the room." };
+    }
+    if (existingMember) {
+      return { success: true, joined: false };
+    }
+
+    // RLS rejects banned users too, but this way they're told why
+    const { data: bans, error: banError } = await supabase.rpc(
+      "get_my_room_ban",
+      { p_room_id: roomId }
+    );
+    if (banError) {
+      console.error(
+        `joinRoom Error: Failed to check bans for room ${roomId}`,
+        banError
+      );
+      return { success: false, error: "Failed to join the room." };
+    }
+    const ban = bans?.[0];
+    if (ban) {
+      return { success: false, error: describeRoomBan(ban) };
+    }
+
+    if (inviteToken) {
+      const { data: result, error } = await supabase.rpc(
+        "redeem_room_invite",
+        { p_room_id: roomId, p_token: inviteToken }
+      );
+      if (error) {
+        console.error(
+          `joinRoom Error: Failed to redeem invite for room ${roomId}`,
+          error
+        );
+        return { success: false, error: "Failed to join the room." };
+      }
+      if (result !== "joined" && result !== "already_member") {
+        return {
+          success: false,
+          error: INVITE_REDEEM_ERRORS[result] ?? INVITE_REDEEM_ERRORS.invalid,
+        };
+      }
+    } else {
+      // Invite-only rooms aren't visible to non-members
+      const { data: room } = await supabase
+        .from("rooms")
+        .select("visibility")
+        .eq("id", roomId)
+        .maybeSingle();
+      if (!room || room.visibility !== "public") {
+        return {
+          success: false,
+          error: "This room is invite-only. Ask the DJ for an invite link.",
+        };
+      }
+
+      const { error } = await supabase.from("room_members").insert({
+        room_id: roomId,
+        user_id: userId,
+        role: "member",
+      });
+      if (error) {
+        console.error(`joinRoom Error: Failed to join room ${roomId}`, error);
+        return { success: false, error: "Failed to join the room." };
+      }
+    }
+
+    revalidatePath("/rooms");
+    return { success: true, joined: true };
+  } catch (error) {
+    console.error(`joinRoom Error: Unexpected error for room ${roomId}`, error);
+    return { success: false, error: "An unexpected error occurred." };
+  }
+}
+
+/**
+ * Makes the room public or invite-only. RLS only lets the room's creator
+ * change it. Existing members keep their access either way.
+ */
+export async function setRoomVisibility(
+  roomId: string,
+  visibility: RoomVisibility
+): Promise<{ success: boolean; error?: string }> {
+  if (!roomId || (visibility !== "public" && visibility !== "invite_only")) {
+    return { success: false, error: "Room ID and visibility are required." };
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from("rooms")
+      .update({ visibility })
+      .eq("id", roomId)
+      .select("id");
+
+    if (error) {
+      console.error(
+        `setRoomVisibility Error: Failed to update room ${roomId}`,
+        error
+      );
+      return { success: false, error: "Failed to change who can join." };
+    }
+    if (!data || data.length === 0) {
+      return {
+        success: false,
+        error: "Only the room's creator can change who can join.",
+      };
+    }
+
+    revalidatePath("/rooms");
+    revalidatePath(`/rooms/${roomId}`);
+    return { success: true };
   } catch (error) {
     console.error(
-      `LOG: getRoomPlaylistDetails - Unexpected error for room ${roomId}:`,
+      `setRoomVisibility Error: Unexpected error for room ${roomId}`,
       error
     );
-    return null;
+    return { success: false, error: "An unexpected error occurred." };
   }
 }
 
-// --- END Get Room Playlist Details Action ---
+/**
+ * Creates an invite link token for the room. Pass null for an invite that
+ * never expires or has no use limit. RLS only allows the room's DJ.
+ */
+export async function createRoomInvite(
+  roomId: string,
+  options: { expiresInHours: number | null; maxUses: number | null }
+): Promise<{ success: boolean; invite?: RoomInvite; error?: string }> {
+  const validatedOptions = RoomInviteOptionsSchema.safeParse(options);
+  if (!roomId || !validatedOptions.success) {
+    return { success: false, error: "Invalid invite settings." };
+  }
+  const { expiresInHours, maxUses } = validatedOptions.data;
+  const expiresAt =
+    expiresInHours === null
+      ? null
+      : new Date(Date.now() + expiresInHours * 60 * 60 * 1000).toISOString();
+
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from("room_invites")
+      .insert({
+        room_id: roomId,
+        token: randomBytes(INVITE_TOKEN_BYTES).toString("base64url"),
+        expires_at: expiresAt,
+        max_uses: maxUses,
+      })
+      .select(
+        "id, room_id, token, created_by, created_at, expires_at, max_uses, use_count, revoked_at"
+      )
+      .single();
+
+    if (error || !data) {
+      console.error(
+        `createRoomInvite Error: Failed to create invite for room ${roomId}`,
+        error
+      );
+      return {
+        success: false,
+        error: "Failed to create the invite. Only the DJ can invite.",
+      };
+    }
+
+    return { success: true, invite: toRoomInvite(data as RoomInviteRow) };
+  } catch (error) {
+    console.error(
+      `createRoomInvite Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return { success: false, error: "An unexpected error occurred." };
+  }
+}
+
+/**
+ * Lists the room's invites that haven't been revoked, newest first. Expired
+ * and used-up invites are included so the DJ can see what happened to them.
+ */
+export async function getRoomInvites(
+  roomId: string
+): Promise<{ invites: RoomInvite[]; error?: string }> {
+  if (!roomId) {
+    return { invites: [], error: "Room ID is required." };
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from("room_invites")
+      .select(
+        "id, room_id, token, created_by, created_at, expires_at, max_uses, use_count, revoked_at"
+      )
+      .eq("room_id", roomId)
+      .is("revoked_at", null)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error(
+        `getRoomInvites Error: Failed to read invites for room ${roomId}`,
+        error
+      );
+      return { invites: [], error: "Failed to load invites." };
+    }
+
+    return { invites: ((data ?? []) as RoomInviteRow[]).map(toRoomInvite) };
+  } catch (error) {
+    console.error(
+      `getRoomInvites Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return { invites: [], error: "An unexpected error occurred." };
+  }
+}
+
+/**
+ * Revokes an invite so its link stops working. Members who already joined
+ * with it stay in the room. RLS only allows the room's DJ.
+ */
+export async function revokeRoomInvite(
+  roomId: string,
+  inviteId: string
+): Promise<{ success: boolean; error?: string }> {
+  if (!roomId || !inviteId) {
+    return { success: false, error: "Room ID and invite ID are required." };
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from("room_invites")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("room_id", roomId)
+      .eq("id", inviteId)
+      .select("id");
+
+    if (error) {
+      console.error(
+        `revokeRoomInvite Error: Failed to revoke invite ${inviteId}`,
+        error
+      );
+      return { success: false, error: "Failed to revoke the invite." };
+    }
+    if (!data || data.length === 0) {
+      return {
+        success: false,
+        error: "Only the room's DJ can revoke invites.",
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error(
+      `revokeRoomInvite Error: Unexpected error for invite ${inviteId}`,
+      error
+    );
+    return { success: false, error: "An unexpected error occurred." };
+  }
+}
+
+/**
+ * The look of the room an invite link leads to, for the join screen. Null
+ * when the invite can't be used, so nothing about the room is revealed.
+ */
+export async function getRoomInvitePreview(
+  roomId: string,
+  inviteToken: string
+): Promise<RoomAppearance | null> {
+  if (!roomId || !inviteToken) return null;
+
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase.rpc("get_room_invite_preview", {
+      p_room_id: roomId,
+      p_token: inviteToken,
+    });
+
+    if (error) {
+      console.error(
+        `getRoomInvitePreview Error: Failed to read preview for room ${roomId}`,
+        error
+      );
+      return null;
+    }
+
+    return data?.[0] ? toRoomAppearance(data[0]) : null;
+  } catch (error) {
+    console.error(
+      `getRoomInvitePreview Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Why the current user can't be in the room, or null when they aren't
+ * banned. Fails closed: if bans can't be read, the room isn't shown.
+ */
+export async function getMyRoomBanMessage(
+  roomId: string
+): Promise<string | null> {
+  if (!roomId) return null;
+
+  try {
+    const supabase = await createClient();
+    const { data: bans, error } = await supabase.rpc("get_my_room_ban", {
+      p_room_id: roomId,
+    });
+
+    if (error) {
+      console.error(
+        `getMyRoomBanMessage Error: Failed to check bans for room ${roomId}`,
+        error
+      );
+      return "Couldn't check your access to this room. Try again later.";
+    }
+
+    const ban = bans?.[0];
+    return ban ? describeRoomBan(ban) : null;
+  } catch (error) {
+    console.error(
+      `getMyRoomBanMessage Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return "Couldn't check your access to this room. Try again later.";
+  }
+}
+
+// --- END Room Access Actions ---
+
+// --- BEGIN Room Member Actions ---
+
+const RoomBanOptionsSchema = z.object({
+  reason: z.string().trim().max(200).nullable(),
+  durationHours: z.number().positive().max(24 * 365).nullable(),
+});
+
+// Results of the transfer_room_ownership function other than 'transferred'
+const TRANSFER_OWNERSHIP_ERRORS: Record<string, string> = {
+  not_owner: "Only the room's owner can hand it over.",
+  not_member: "The new owner must be a member of the room.",
+  over_quota: "That member can't own any more rooms.",
+};
+
+/**
+ * Lists the room's members with their profile names, DJ first, then co-DJs,
+ * then members by join date. RLS only shows members to other members.
+ */
+export async function getRoomMembers(
+  roomId: string
+): Promise<{ members: RoomMember[]; error?: string }> {
+  if (!roomId) {
+    return { members: [], error: "Room ID is required." };
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data: memberRows, error } = await supabase
+      .from("room_members")
+      .select("user_id, role, joined_at")
+      .eq("room_id", roomId)
+      .order("joined_at", { ascending: true });
+
+    if (error) {
+      console.error(
+        `getRoomMembers Error: Failed to read members of room ${roomId}`,
+        error
+      );
+      return { members: [], error: "Failed to load the room's members." };
+    }
+
+    type MemberRow = { user_id: string; role: RoomRole; joined_at: string };
+    const rows = (memberRows ?? []) as MemberRow[];
+    const { data: profiles, error: profilesError } = await supabase
+      .from("profiles")
+      .select("id, display_name, avatar_url")
+      .in("id", rows.map((row) => row.user_id));
+    if (profilesError) {
+      console.error(
+        `getRoomMembers Error: Failed to read profiles for room ${roomId}`,
+        profilesError
+      );
+    }
+
+    const profilesById = new Map<
+      string,
+      { display_name: string | null; avatar_url: string | null }
+    >((profiles ?? []).map((profile) => [profile.id, profile]));
+    const roleOrder: RoomRole[] = ["DJ", "co_dj", "member"];
+
+    return {
+      members: rows
+        .map((row) => ({
+          userId: row.user_id,
+          name: profilesById.get(row.user_id)?.display_name || "Unknown User",
+          avatarUrl: profilesById.get(row.user_id)?.avatar_url || undefined,
+          role: row.role,
+          joinedAt: row.joined_at,
+        }))
+        .sort((a, b) => roleOrder.indexOf(a.role) - roleOrder.indexOf(b.role)),
+    };
+  } catch (error) {
+    console.error(
+      `getRoomMembers Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return { members: [], error: "An unexpected error occurred." };
+  }
+}
+
+/**
+ * Makes a member a co-DJ or a plain member. RLS only lets the room's owner
+ * change roles, and never to DJ; use transferRoomOwnership for that.
+ */
+export async function setRoomMemberRole(
+  roomId: string,
+  userId: string,
+  role: Exclude<RoomRole, "DJ">
+): Promise<{ success: boolean; error?: string }> {
+  if (!roomId || !userId || (role !== "co_dj" && role !== "member")) {
+    return { success: false, error: "Room, member and role are required." };
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from("room_members")
+      .update({ role })
+      .eq("room_id", roomId)
+      .eq("user_id", userId)
+      .select("user_id");
+
+    if (error) {
+      console.error(
+        `setRoomMemberRole Error: Failed to set role of ${userId} in room ${roomId}`,
+        error
+      );
+      return { success: false, error: "Failed to change the role." };
+    }
+    if (!data || data.length === 0) {
+      return {
+        success: false,
+        error: "Only the room's owner can change roles.",
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error(
+      `setRoomMemberRole Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return { success: false, error: "An unexpected error occurred." };
+  }
+}
+
+/**
+ * Hands the room to another member, who becomes its owner and DJ. The
+ * current owner stays on as a co-DJ. Checked and applied by the database.
+ */
+export async function transferRoomOwnership(
+  roomId: string,
+  newOwnerId: string
+): Promise<{ success: boolean; error?: string }> {
+  if (!roomId || !newOwnerId) {
+    return { success: false, error: "Room and new owner are required." };
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data: result, error } = await supabase.rpc(
+      "transfer_room_ownership",
+      { p_room_id: roomId, p_new_owner_id: newOwnerId }
+    );
+
+    if (error) {
+      console.error(
+        `transferRoomOwnership Error: Failed to transfer room ${roomId}`,
+        error
+      );
+      return { success: false, error: "Failed to transfer the room." };
+    }
+    if (result !== "transferred") {
+      return {
+        success: false,
+        error:
+          TRANSFER_OWNERSHIP_ERRORS[result] ?? "Failed to transfer the room.",
+      };
+    }
+
+    revalidatePath("/rooms");
+    revalidatePath(`/rooms/${roomId}`);
+    return { success: true };
+  } catch (error) {
+    console.error(
+      `transferRoomOwnership Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return { success: false, error: "An unexpected error occurred." };
+  }
+}
+
+/**
+ * Removes a member from the room. They can join again unless the room is
+ * invite-only. RLS only lets the room's DJ remove others.
+ */
+export async function removeRoomMember(
+  roomId: string,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  if (!roomId || !userId) {
+    return { success: false, error: "Room and member are required." };
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from("room_members")
+      .delete()
+      .eq("room_id", roomId)
+      .eq("user_id", userId)
+      .select("user_id");
+
+    if (error) {
+      console.error(
+        `removeRoomMember Error: Failed to remove ${userId} from room ${roomId}`,
+        error
+      );
+      return { success: false, error: "Failed to remove the member." };
+    }
+    if (!data || data.length === 0) {
+      return {
+        success: false,
+        error: "Only the room's DJ can remove members.",
+      };
+    }
+
+    await sendRoomBroadcast(supabase, `chat:${roomId}`, "member_removed", {
+      user_id: userId,
+    });
+    revalidatePath(`/rooms/${roomId}`);
+    return { success: true };
+  } catch (error) {
+    console.error(
+      `removeRoomMember Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return { success: false, error: "An unexpected error occurred." };
+  }
+}
+
+/**
+ * Bans a user from the room and removes them if they're a member. Pass null
+ * `durationHours` to ban for good. Banning someone again replaces their
+ * earlier ban. RLS only lets the room's DJ ban others.
+ */
+export async function banRoomMember(
+  roomId: string,
+  userId: string,
+  options: { reason: string | null; durationHours: number | null }
+): Promise<{ success: boolean; error?: string }> {
+  const validatedOptions = RoomBanOptionsSchema.safeParse(options);
+  if (!roomId || !userId || !validatedOptions.success) {
+    return { success: false, error: "Invalid ban settings." };
+  }
+  const { reason, durationHours } = validatedOptions.data;
+  const now = Date.now();
+  const expiresAt =
+    durationHours === null
+      ? null
+      : new Date(now + durationHours * 60 * 60 * 1000).toISOString();
+
+  try {
+    const supabase = await createClient();
+    const { error: banError } = await supabase.from("room_bans").upsert(
+      {
+        room_id: roomId,
+        user_id: userId,
+        reason: reason || null,
+        created_at: new Date(now).toISOString(),
+        expires_at: expiresAt,
+      },
+      { onConflict: "room_id,user_id" }
+    );
+
+    if (banError) {
+      console.error(
+        `banRoomMember Error: Failed to ban ${userId} from room ${roomId}`,
+        banError
+      );
+      return {
+        success: false,
+        error: "Failed to ban the member. Only the DJ can ban.",
+      };
+    }
+
+    // No row is fine: they may have left already
+    const { error: removeError } = await supabase
+      .from("room_members")
+      .delete()
+      .eq("room_id", roomId)
+      .eq("user_id", userId);
+
+    if (removeError) {
+      console.error(
+        `banRoomMember Error: Failed to remove ${userId} from room ${roomId}`,
+        removeError
+      );
+      return {
+        success: false,
+        error: "The member was banned but couldn't be removed.",
+      };
+    }
+
+    await sendRoomBroadcast(supabase, `chat:${roomId}`, "member_removed", {
+      user_id: userId,
+    });
+    revalidatePath(`/rooms/${roomId}`);
+    return { success: true };
+  } catch (error) {
+    console.error(
+      `banRoomMember Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return { success: false, error: "An unexpected error occurred." };
+  }
+}
+
+/**
+ * Lifts a user's ban so they can join the room again. RLS only allows the
+ * room's DJ.
+ */
+export async function unbanRoomMember(
+  roomId: string,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  if (!roomId || !userId) {
+    return { success: false, error: "Room and user are required." };
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from("room_bans")
+      .delete()
+      .eq("room_id", roomId)
+      .eq("user_id", userId)
+      .select("id");
+
+    if (error) {
+      console.error(
+        `unbanRoomMember Error: Failed to unban ${userId} from room ${roomId}`,
+        error
+      );
+      return { success: false, error: "Failed to lift the ban." };
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: "Only the room's DJ can lift bans." };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error(
+      `unbanRoomMember Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return { success: false, error: "An unexpected error occurred." };
+  }
+}
+
+/**
+ * Lists the room's bans that haven't expired, newest first, with the banned
+ * users' profile names. RLS only shows bans to the room's DJ.
+ */
+export async function getRoomBans(
+  roomId: string
+): Promise<{ bans: RoomBan[]; error?: string }> {
+  if (!roomId) {
+    return { bans: [], error: "Room ID is required." };
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data: banRows, error } = await supabase
+      .from("room_bans")
+      .select("user_id, reason, created_at, expires_at")
+      .eq("room_id", roomId)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error(
+        `getRoomBans Error: Failed to read bans for room ${roomId}`,
+        error
+      );
+      return { bans: [], error: "Failed to load the room's bans." };
+    }
+
+    type BanRow = {
+      user_id: string;
+      reason: string | null;
+      created_at: string;
+      expires_at: string | null;
+    };
+    const rows = (banRows ?? []) as BanRow[];
+    const { data: profiles, error: profilesError } = await supabase
+      .from("profiles")
+      .select("id, display_name")
+      .in("id", rows.map((row) => row.user_id));
+    if (profilesError) {
+      console.error(
+        `getRoomBans Error: Failed to read profiles for room ${roomId}`,
+        profilesError
+      );
+    }
+
+    const namesById = new Map<string, string | null>(
+      (profiles ?? []).map((profile) => [profile.id, profile.display_name])
+    );
+
+    return {
+      bans: rows.map((row) => ({
+        userId: row.user_id,
+        name: namesById.get(row.user_id) || "Unknown User",
+        reason: row.reason,
+        createdAt: row.created_at,
+        expiresAt: row.expires_at,
+      })),
+    };
+  } catch (error) {
+    console.error(
+      `getRoomBans Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return { bans: [], error: "An unexpected error occurred." };
+  }
+}
+
+// --- END Room Member Actions ---
+
+// --- BEGIN Get Room Playlist Details Action ---
+
+/**
+ * Fetches details for all playlists associated with a room.
+ * Combines basic info from DB with details from Spotify API.
+ */
+export async function getRoomPlaylistDetails(
+  roomId: string
+): Promise<SimplePlaylistDetails[] | null> {
+  const supabase = await createClient();
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+
+  if (userError || !userData.user) {
+    console.error(
+      "LOG: getRoomPlaylistDetails - User not authenticated",
+      userError
+    );
+    return null;
+  }
+
+  try {
+    // 1. Fetch playlist IDs and names from your database
+    const { data: roomPlaylists, error: dbError } = await supabase
+      .from("room_playlists")
+      .select("id, spotify_playlist_id, name")
+      .eq("room_id", roomId)
+      .order("position", { ascending: true });
+
+    // Log DB query result
+    if (dbError) {
+      console.error(
+        `LOG: getRoomPlaylistDetails - DB Error fetching playlists:`,
+        dbError
+      );
+      return null;
+    }
+
+    if (!roomPlaylists || roomPlaylists.length === 0) {
+      console.log(
+        `LOG: getRoomPlaylistDetails - No playlists found in DB for room ${roomId}.`
+      );
+      return [];
+    }
+
+    // Define type for DB result explicitly
+    type RoomPlaylistRecord = {
+      id: string;
+      spotify_playlist_id: string;
+      name: string | null;
+    };
+
+    const dbPlaylistRecords = roomPlaylists as RoomPlaylistRecord[];
+
+    // 2. Fetch details for all playlists, served from the metadata cache where possible
+    const spotifyDetailsById = await getCachedPlaylistDetails(
+      dbPlaylistRecords.map((playlist) => playlist.spotify_playlist_id)
+    );
+
+    // 3. Combine DB data and Spotify data, mapping fields correctly
+    const combinedDetails = dbPlaylistRecords.map(
+      (playlist: RoomPlaylistRecord) => {
+        const spotifyDetails = spotifyDetailsById[playlist.spotify_playlist_id];
+        if (spotifyDetails) {
+          return {
+            spotify_playlist_id: playlist.spotify_playlist_id,
+            name: playlist.name ?? spotifyDetails.name,
+            owner: spotifyDetails.owner?.display_name,
+            images: spotifyDetails.images,
+            uri: spotifyDetails.uri,
+          } as SimplePlaylistDetails;
+        } else {
+          console.warn(
+            `LOG: getRoomPlaylistDetails - Failed to get Spotify details for ID: ${playlist.spotify_playlist_id}`
+          ); // Log Spotify failures
+          return {
+            spotify_playlist_id: playlist.spotify_playlist_id,
+            name: playlist.name ?? "Playlist not found",
+            owner: "Unknown",
+            images: [],
+            uri: undefined,
+          } as SimplePlaylistDetails;
+        }
+      }
+    );
+
+    return combinedDetails;
+  } catch (error) {
+    console.error(
+      `LOG: getRoomPlaylistDetails - Unexpected error for room ${roomId}:`,
+      error
+    );
+    return null;
+  }
+}
+
+// --- END Get Room Playlist Details Action ---
+
+// --- BEGIN Manage Room Playlists Actions ---
+
+/**
+ * Saves a new order for the room's playlists. `spotifyPlaylistIds` must list
+ * every playlist in the room exactly once. RLS only lets the room's DJ and
+ * co-DJs move them, so a reorder that moves nothing is reported as not
+ * allowed.
+ */
+export async function reorderRoomPlaylists(
+  roomId: string,
+  spotifyPlaylistIds: string[]
+): Promise<{ success: boolean; error?: string }> {
+  if (!roomId || spotifyPlaylistIds.length === 0) {
+    return { success: false, error: "Room ID and playlists are required." };
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data: current, error: currentError } = await supabase
+      .from("room_playlists")
+      .select("spotify_playlist_id")
+      .eq("room_id", roomId);
+
+    if (currentError) {
+      console.error(
+        `reorderRoomPlaylists Error: Failed to read playlists for room ${roomId}`,
+        currentError
+      );
+      return { success: false, error: "Failed to reorder playlists." };
+    }
+
+    // Refuse an order built from a stale list instead of half-applying it
+    const currentIds = new Set(
+      (current ?? []).map(
+        (row: { spotify_playlist_id: string }) => row.spotify_playlist_id
+      )
+    );
+    const isSameSet =
+      new Set(spotifyPlaylistIds).size === spotifyPlaylistIds.length &&
+      spotifyPlaylistIds.length === currentIds.size &&
+      spotifyPlaylistIds.every((id) => currentIds.has(id));
+    if (!isSameSet) {
+      return {
+        success: false,
+        error: "The room's playlists changed. Refresh and try again.",
+      };
+    }
+
+    const { data: movedCount, error } = await supabase.rpc(
+      "reorder_room_playlists",
+      { p_room_id: roomId, p_spotify_playlist_ids: spotifyPlaylistIds }
+    );
+
+    if (error) {
+      console.error(
+        `reorderRoomPlaylists Error: Failed to reorder playlists for room ${roomId}`,
+        error
+      );
+      return { success: false, error: "Failed to reorder playlists." };
+    }
+    if (!movedCount) {
+      return {
+        success: false,
+        error: "Only the room's DJs can reorder playlists.",
+      };
+    }
+
+    await sendRoomBroadcast(
+      supabase,
+      `room_playlists:${roomId}`,
+      "playlists_changed"
+    );
+    revalidatePath(`/rooms/${roomId}`);
+    return { success: true };
+  } catch (error) {
+    console.error(
+      `reorderRoomPlaylists Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return { success: false, error: "An unexpected error occurred." };
+  }
+}
+
+/**
+ * Removes a playlist from the room. RLS only lets the room's DJ and co-DJs
+ * delete, so nothing deleted is reported as not allowed.
+ */
+export async function removeRoomPlaylist(
+  roomId: string,
+  spotifyPlaylistId: string
+): Promise<{ success: boolean; error?: string }> {
+  if (!roomId || !spotifyPlaylistId) {
+    return { success: false, error: "Room ID and playlist ID are required." };
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from("room_playlists")
+      .delete()
+      .eq("room_id", roomId)
+      .eq("spotify_playlist_id", spotifyPlaylistId)
+      .select("id");
+
+    if (error) {
+      console.error(
+        `removeRoomPlaylist Error: Failed to remove playlist ${spotifyPlaylistId} from room ${roomId}`,
+        error
+      );
+      return { success: false, error: "Failed to remove the playlist." };
+    }
+    if (!data || data.length === 0) {
+      return {
+        success: false,
+        error: "Only the room's DJs can remove playlists.",
+      };
+    }
+
+    // Realtime can't tell members which room a deleted row was in
+    await sendRoomBroadcast(
+      supabase,
+      `room_playlists:${roomId}`,
+      "playlists_changed"
+    );
+    revalidatePath(`/rooms/${roomId}`);
+    return { success: true };
+  } catch (error) {
+    console.error(
+      `removeRoomPlaylist Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return { success: false, error: "An unexpected error occurred." };
+  }
+}
+
+// --- END Manage Room Playlists Actions ---
+
+// --- BEGIN Room Playback State Actions ---
+
+// A "playing" state this old means the DJ's player is gone, don't resume it
+const PLAYBACK_STATE_MAX_AGE_MS = 30 * 60 * 1000;
+
+/**
+ * Persists the DJ's current playback for the room. `positionMs` should be the
+ * position at the time of the call; `updated_at` is stamped by the database.
+ * RLS only allows the room's DJ to write.
+ */
+export async function saveRoomPlaybackState(
+  roomId: string,
+  snapshot: RoomPlaybackSnapshot
+): Promise<{ success: boolean; error?: string }> {
+  if (!roomId || !snapshot?.trackUri) {
+    return { success: false, error: "Room ID and track URI are required." };
+  }
+
+  try {
+    const supabase = await createClient();
+    const { error } = await supabase.from("room_playback_state").upsert({
+      room_id: roomId,
+      context_uri: snapshot.contextUri,
+      track_uri: snapshot.trackUri,
+      position_ms: Math.max(0, Math.round(snapshot.positionMs)),
+      is_paused: snapshot.isPaused,
+    });
+
+    if (error) {
+      console.error(
+        `saveRoomPlaybackState Error: Failed to save state for room ${roomId}`,
+        error
+      );
+      return { success: false, error: "Failed to save playback state." };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error(
+      `saveRoomPlaybackState Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return { success: false, error: "An unexpected error occurred." };
+  }
+}
+
+/**
+ * Reads the room's persisted "now playing" state.
+ * The position is extrapolated with the database clock (`server_now - updated_at`),
+ * so the returned snapshot is accurate as of `timestamp`.
+ * @returns The snapshot, or null if nothing is playing or the state is stale.
+ */
+export async function getRoomPlaybackState(
+  roomId: string
+): Promise<RoomPlaybackSnapshot | null> {
+  if (!roomId) return null;
+
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .rpc("get_room_playback_state", { p_room_id: roomId })
+      .maybeSingle<
+        Database["public"]["Functions"]["get_room_playback_state"]["Returns"][number]
+      >();
+
+    if (error) {
+      console.error(
+        `getRoomPlaybackState Error: Failed to read state for room ${roomId}`,
+        error
+      );
+      return null;
+    }
+    if (!data) {
+      return null;
+    }
+
+    const elapsedMs = Math.max(
+      0,
+      new Date(data.server_now).getTime() - new Date(data.updated_at).getTime()
+    );
+    if (!data.is_paused && elapsedMs > PLAYBACK_STATE_MAX_AGE_MS) {
+      return null;
+    }
+
+    return {
+      contextUri: data.context_uri,
+      trackUri: data.track_uri,
+      positionMs: data.is_paused ? data.position_ms : data.position_ms + elapsedMs,
+      isPaused: data.is_paused,
+      timestamp: Date.now(),
+    };
+  } catch (error) {
+    console.error(
+      `getRoomPlaybackState Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return null;
+  }
+}
+
+// --- END Room Playback State Actions ---
+
+// --- BEGIN Room Play History Actions ---
+
+const PLAY_HISTORY_PAGE_SIZE = 50;
+
+type PlayHistoryRow = Database["public"]["Tables"]["room_play_history"]["Row"];
+
+/**
+ * Records a track the DJ's player started. `started_at` is stamped by the
+ * database. RLS only allows the room's DJ to write.
+ * The DJ's player reports the playing track again after a reload, so a play
+ * is skipped when the room's latest entry is the same track and started less
+ * than `durationMs` ago.
+ */
+export async function recordRoomPlay(
+  roomId: string,
+  play: Omit<RoomPlayHistoryEntry, "id" | "startedAt">,
+  durationMs: number
+): Promise<{ success: boolean; error?: string }> {
+  if (!roomId || !play?.trackUri) {
+    return { success: false, error: "Room ID and track URI are required." };
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data: latest, error: latestError } = await supabase
+      .from("room_play_history")
+      .select("track_uri, started_at")
+      .eq("room_id", roomId)
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      // Not fatal: a duplicate entry beats a missing one
+      console.error(
+        `recordRoomPlay Error: Failed to read latest play for room ${roomId}`,
+        latestError
+      );
+    } else if (
+      latest?.track_uri === play.trackUri &&
+      Date.now() - Date.parse(latest.started_at) < durationMs
+    ) {
+      return { success: true };
+    }
+
+    const { error } = await supabase.from("room_play_history").insert({
+      room_id: roomId,
+      track_uri: play.trackUri,
+      track_name: play.trackName,
+      artists: play.artists,
+      playlist_id: play.playlistId,
+      playlist_name: play.playlistName,
+      listener_count: Math.max(0, play.listenerCount),
+    });
+
+    if (error) {
+      console.error(
+        `recordRoomPlay Error: Failed to record play for room ${roomId}`,
+        error
+      );
+      return { success: false, error: "Failed to record the play." };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error(
+      `recordRoomPlay Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return { success: false, error: "An unexpected error occurred." };
+  }
+}
+
+/**
+ * Reads the room's play history, newest first. Pass the `startedAt` of the
+ * oldest entry loaded so far as `before` to load the next page.
+ */
+export async function getRoomPlayHistory(
+  roomId: string,
+  before?: string
+): Promise<{
+  entries: RoomPlayHistoryEntry[];
+  hasMore: boolean;
+  error?: string;
+}> {
+  if (!roomId) {
+    return { entries: [], hasMore: false, error: "Room ID is required." };
+  }
+
+  try {
+    const supabase = await createClient();
+    let query = supabase
+      .from("room_play_history")
+      .select(
+        "id, track_uri, track_name, artists, playlist_id, playlist_name, listener_count, started_at"
+      )
+      .eq("room_id", roomId)
+      .order("started_at", { ascending: false })
+      .limit(PLAY_HISTORY_PAGE_SIZE);
+    if (before) {
+      query = query.lt("started_at", before);
+    }
+    const { data, error } = await query;
+
+    if (error) {
+      console.error(
+        `getRoomPlayHistory Error: Failed to read history for room ${roomId}`,
+        error
+      );
+      return {
+        entries: [],
+        hasMore: false,
+        error: "Failed to load the play history.",
+      };
+    }
+
+    const rows = (data ?? []) as PlayHistoryRow[];
+    return {
+      entries: rows.map((row) => ({
+        id: row.id,
+        trackUri: row.track_uri,
+        trackName: row.track_name,
+        artists: row.artists,
+        playlistId: row.playlist_id,
+        playlistName: row.playlist_name,
+        listenerCount: row.listener_count,
+        startedAt: row.started_at,
+      })),
+      hasMore: rows.length === PLAY_HISTORY_PAGE_SIZE,
+    };
+  } catch (error) {
+    console.error(
+      `getRoomPlayHistory Error: Unexpected error for room ${roomId}`,
+      error
+    );
+    return {
+      entries: [],
+      hasMore: false,
+      error: "An unexpected error occurred.",
+    };
+  }
+}
+
+// --- END Room Play History Actions ---
@@ -10,21 +10,111 @@ import React, {
   useCallback,
 } from "react";
 import { useSpotifyPlayerSDK } from "@/hooks/use-spotify-player-sdk";
+import { useRoomPlaybackSync } from "@/hooks/use-room-playback-sync";
+import { useRoomPlaylistsSync } from "@/hooks/use-room-playlists-sync";
+import { useRoomQueue } from "@/hooks/use-room-queue";
+import { useRemotePlayback } from "@/hooks/use-remote-playback";
+import { usePreviewPlayer } from "@/hooks/use-preview-player";
+import { useMediaSession } from "@/hooks/use-media-session";
+import {
+  findQueueIndex,
+  type RoomQueueItem,
+  type RoomQueueMode,
+} from "@/lib/room-queue";
+import {
+  getNextRepeatState,
+  toRepeatState,
+  type ContextEndEvent,
+  type SpotifyDevice,
+  type SpotifyRepeatState,
+} from "@/lib/spotify/playback-state";
+import { remapPlaylistIndex } from "@/lib/room-playlists";
+import { useServerClock } from "@/hooks/use-server-clock";
+import { toServerTime } from "@/lib/time-sync";
 import { usePathname } from "next/navigation";
-import { getRoomPlaylistDetails } from "@/lib/actions/supabase.actions";
-import { SimplePlaylistDetails } from "@/lib/types/index";
+import {
+  getRoomPlaylistDetails,
+  getRoomPlaybackState,
+  saveRoomPlaybackState,
+  recordRoomPlay,
+} from "@/lib/actions/supabase.actions";
+import { useRoomContext } from "@/lib/contexts/room-context";
+import {
+  RoomPlaybackSnapshot,
+  SimplePlaylistDetails,
+  SimplePlaylistTrack,
+} from "@/lib/types/index";
 import {
   startPlayback,
   toggleShuffle,
+  setRepeatMode,
   saveTrack,
   followPlaylist,
   checkTracksSaved,
   checkPlaylistFollowed,
+  controlPlayback,
+  getAvailableDevices,
+  seekToPosition,
+  setPlaybackVolume,
+  transferPlayback,
+  type SpotifyActionResult,
 } from "@/lib/actions/spotify.actions";
 import { toast } from "sonner";
 
 // Default values for when the player is not active/needed
 
+// Members re-seek when their position drifts further than this from the DJ's
+const SYNC_DRIFT_TOLERANCE_MS = 2000;
+
+// The DJ persists playback state only when it meaningfully changes
+const PERSIST_DRIFT_TOLERANCE_MS = 3000;
+
+// How often the displayed track position is recomputed while playing
+const POSITION_TICK_MS = 500;
+
+// The SDK player starts at half volume
+const DEFAULT_VOLUME_PERCENT = 50;
+
+// Wait for the volume slider to settle before calling the Web API
+const REMOTE_VOLUME_DEBOUNCE_MS = 300;
+
+// Tracks sent per queue playback request; PUT /me/player/play rejects very
+// long `uris` lists
+const QUEUE_PLAYBACK_WINDOW = 100;
+
+// Nothing is disallowed until the player reports otherwise
+const NO_DISALLOWS: Spotify.PlaybackDisallows = {};
+
+const REPEAT_MODE_LABELS: Record<SpotifyRepeatState, string> = {
+  off: "Repeat off",
+  context: "Repeating the playlist",
+  track: "Repeating the track",
+};
+
+// Tracks can be relinked per market, so compare the URI the DJ actually picked
+function getCanonicalTrackUri(track: Spotify.Track | null | undefined) {
+  return track?.linked_from?.uri ?? track?.uri ?? null;
+}
+
+// Extrapolate the SDK's sampled position to a given local time
+function getPlaybackStatePositionAt(
+  state: Spotify.PlaybackState,
+  time: number
+) {
+  if (state.paused || !state.timestamp) return state.position;
+  return Math.min(
+    state.position + Math.max(0, time - state.timestamp),
+    state.duration
+  );
+}
+
+// Extrapolate a snapshot's position to a given server time
+function getSnapshotPositionAt(snapshot: RoomPlaybackSnapshot, time: number) {
+  return snapshot.isPaused
+    ? snapshot.positionMs
+    : snapshot.positionMs + Math.max(0, time - snapshot.timestamp);
+}
+
 // Define the shape of the context state
 interface PlayerContextType {
   player: Spotify.Player | null;
@@ -36,6 +126,8 @@ interface PlayerContextType {
   roomPlaylists: SimplePlaylistDetails[];
   currentPlaylistIndex: number;
   setCurrentPlaylistIndex: (index: number) => void;
+  updateRoomPlaylists: (playlists: SimplePlaylistDetails[]) => void;
+  refreshRoomPlaylists: () => Promise<void>;
   isLoadingPlaylists: boolean;
   isChangingPlaylist: boolean;
   isTogglingShuffle: boolean;
@@ -44,9 +136,18 @@ interface PlayerContextType {
   isCurrentTrackSaved: boolean;
   isCurrentPlaylistFollowed: boolean;
   originalTrackId: string | null;
+  isRoomDJ: boolean;
+  isFollowingDJ: boolean;
   playNextPlaylist: () => Promise<void>;
   playPreviousPlaylist: () => Promise<void>;
+  wrapRoomPlaylists: boolean;
+  setWrapRoomPlaylists: (wrap: boolean) => void;
   togglePlayerShuffle: () => Promise<void>;
+  isShuffleOn: boolean;
+  repeatMode: SpotifyRepeatState;
+  isTogglingRepeat: boolean;
+  cyclePlayerRepeat: () => Promise<void>;
+  playbackDisallows: Spotify.PlaybackDisallows;
   togglePlayPause: () => void;
   skipToNextTrack: () => void;
   skipToPreviousTrack: () => void;
@@ -57,6 +158,30 @@ interface PlayerContextType {
   isSeeking: boolean;
   handleSeekChange: (value: number[]) => void;
   handleSeekCommit: (value: number[]) => void;
+  roomQueue: RoomQueueItem[];
+  queueMode: RoomQueueMode;
+  setQueueMode: (mode: RoomQueueMode) => void;
+  reshuffleQueue: () => void;
+  currentQueueIndex: number;
+  upNext: RoomQueueItem[];
+  isLoadingQueue: boolean;
+  playRoomQueue: (startIndex?: number) => Promise<void>;
+  playPlaylistTrack: (
+    playlistIndex: number,
+    tracks: SimplePlaylistTrack[],
+    trackIndex: number
+  ) => Promise<void>;
+  volumePercent: number;
+  setPlayerVolume: (volumePercent: number) => void;
+  seekTo: (positionMs: number) => void;
+  availableDevices: SpotifyDevice[];
+  selectedDeviceId: string | null;
+  isRemoteDevice: boolean;
+  isLoadingDevices: boolean;
+  isTransferringPlayback: boolean;
+  refreshDevices: () => Promise<void>;
+  selectDevice: (deviceId: string | null) => Promise<void>;
+  isPreviewMode: boolean;
 }
 
 // Create the context
@@ -69,19 +194,88 @@ export function PlayerContextProvider({
   children: React.ReactNode;
 }) {
   const pathname = usePathname();
-  // Reinstate specific check for actual room paths with IDs
-  const isRoomPath = /^\/rooms\/[a-fA-F0-9-]+$/.test(pathname);
+  // A room or one of its subpages (e.g. settings), which keep the room's player
+  const isRoomPath = /^\/rooms\/[a-fA-F0-9-]+(\/.*)?$/.test(pathname);
+
+  // The SDK and remote playback hooks report ended contexts before the room
+  // state below exists, so they call through a ref that handleContextEnd
+  // keeps current
+  const handleContextEndRef = useRef<(event: ContextEndEvent) => void>(
+    () => {}
+  );
+  const onContextEnd = useCallback(
+    (event: ContextEndEvent) => handleContextEndRef.current(event),
+    []
+  );
 
   // Call hook unconditionally, but pass flag to control initialization
   const {
     player,
-    isReady: isPlayerReady,
+    isReady: isSdkReady,
     deviceId: playerDeviceId,
-    isActive: isPlayerActive,
-    currentTrack,
-    playbackState,
+    isActive: isSdkActive,
+    currentTrack: sdkCurrentTrack,
+    playbackState: sdkPlaybackState,
+    accountError,
     playerRef,
-  } = useSpotifyPlayerSDK({ initialize: isRoomPath }); // Pass initialization flag
+  } = useSpotifyPlayerSDK({ initialize: isRoomPath, onContextEnd }); // Pass initialization flag
+
+  // Accounts the SDK refuses (no Premium) listen along with preview clips
+  const isPreviewMode = !!accountError;
+  const {
+    playbackState: previewPlaybackState,
+    currentTrack: previewCurrentTrack,
+    playTracks: playPreviewTracks,
+    pause: pausePreview,
+    resume: resumePreview,
+    seek: seekPreview,
+    next: nextPreview,
+    previous: previousPreview,
+    setVolume: setPreviewVolume,
+  } = usePreviewPlayer({ enabled: isPreviewMode });
+  const isPlayerReady = isSdkReady || isPreviewMode;
+
+  // Spotify Connect: null plays in this browser, otherwise a remote device
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(
+    null
+  );
+  const [availableDevices, setAvailableDevices] = useState<SpotifyDevice[]>(
+    []
+  );
+  const [isLoadingDevices, setIsLoadingDevices] = useState<boolean>(false);
+  const [isTransferringPlayback, setIsTransferringPlayback] =
+    useState<boolean>(false);
+  const remoteVolumeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [volumePercent, setVolumePercent] = useState<number>(
+    DEFAULT_VOLUME_PERCENT
+  );
+  const isRemoteDevice =
+    selectedDeviceId !== null && selectedDeviceId !== playerDeviceId;
+  const {
+    playbackState: remotePlaybackState,
+    currentTrack: remoteCurrentTrack,
+    device: remoteDevice,
+    refresh: refreshRemotePlayback,
+  } = useRemotePlayback({ enabled: isRemoteDevice, onContextEnd });
+
+  // Everything below reads the selected device's state, whichever it is
+  const playbackState = isPreviewMode
+    ? previewPlaybackState
+    : isRemoteDevice
+    ? remotePlaybackState
+    : sdkPlaybackState;
+  const currentTrack = isPreviewMode
+    ? previewCurrentTrack
+    : isRemoteDevice
+    ? remoteCurrentTrack
+    : sdkCurrentTrack;
+  const isPlayerActive = isPreviewMode
+    ? !!previewPlaybackState
+    : isRemoteDevice
+    ? !!remotePlaybackState
+    : isSdkActive;
+  // The device playback commands go to
+  const targetDeviceId = isRemoteDevice ? selectedDeviceId : playerDeviceId;
 
   // State for timer/seek logic
   const [position, setPosition] = useState(0); // Track position in ms
@@ -97,7 +291,10 @@ export function PlayerContextProvider({
   const [currentPlaylistIndex, setCurrentPlaylistIndex] = useState<number>(0);
   const [isLoadingPlaylists, setIsLoadingPlaylists] = useState<boolean>(true);
   const [isChangingPlaylist, setIsChangingPlaylist] = useState<boolean>(false);
+  // Start over at the first playlist after the last one ends
+  const [wrapRoomPlaylists, setWrapRoomPlaylists] = useState<boolean>(true);
   const [isTogglingShuffle, setIsTogglingShuffle] = useState<boolean>(false);
+  const [isTogglingRepeat, setIsTogglingRepeat] = useState<boolean>(false);
   const [isSavingTrack, setIsSavingTrack] = useState<boolean>(false);
   const [isFollowingPlaylist, setIsFollowingPlaylist] =
     useState<boolean>(false);
@@ -110,6 +307,34 @@ export function PlayerContextProvider({
   const currentRoomIdRef = useRef<string | null>(null);
   const [originalTrackId, setOriginalTrackId] = useState<string | null>(null);
 
+  // State for following the DJ's playback
+  const { permissions, isLoadingRole } = useRoomContext();
+  const { serverNow } = useServerClock();
+  const isRoomDJ = permissions.canControlPlayback;
+  const [isFollowingDJ, setIsFollowingDJ] = useState<boolean>(false);
+  const playbackStateRef = useRef<Spotify.PlaybackState | null>(null);
+  const pendingSnapshotRef = useRef<RoomPlaybackSnapshot | null>(null);
+  const isApplyingSnapshotRef = useRef<boolean>(false);
+  const applyPlaybackSnapshotRef = useRef<
+    (snapshot: RoomPlaybackSnapshot) => Promise<void>
+  >(async () => {});
+  const lastPersistedSnapshotRef = useRef<RoomPlaybackSnapshot | null>(null);
+  const lastRecordedTrackUriRef = useRef<string | null>(null);
+
+  // Track-level queue merged from all room playlists
+  const {
+    queue: roomQueue,
+    queueMode,
+    setQueueMode,
+    reshuffleQueue,
+    currentQueueIndex,
+    upNext,
+    isLoadingQueue,
+  } = useRoomQueue({
+    playlists: roomPlaylists,
+    currentTrackUri: getCanonicalTrackUri(currentTrack),
+  });
+
   // Effect to extract room ID from pathname
   useEffect(() => {
     const match = pathname.match(/\/rooms\/([a-fA-F0-9-]+)/);
@@ -125,6 +350,7 @@ export function PlayerContextProvider({
       setIsLoadingPlaylists(isRoomPath); // Only set loading if it's a room path
       setIsChangingPlaylist(false);
       setIsTogglingShuffle(false);
+      setIsTogglingRepeat(false);
       setIsSavingTrack(false);
       setIsFollowingPlaylist(false);
       setIsCurrentTrackSaved(false);
@@ -132,6 +358,10 @@ export function PlayerContextProvider({
       setInitialPlaybackAttempted(false);
       currentRoomIdRef.current = roomIdFromPath;
       setOriginalTrackId(null);
+      setIsFollowingDJ(false);
+      pendingSnapshotRef.current = null;
+      lastPersistedSnapshotRef.current = null;
+      lastRecordedTrackUriRef.current = null;
       // If we are not on a room path, ensure player state doesn't persist visually if needed
       // (This might be handled by the conditional hook already, but explicit reset can be safer)
       if (!isRoomPath) {
@@ -147,30 +377,55 @@ export function PlayerContextProvider({
     if (
       isPlayerReady &&
       currentRoomId &&
+      !isLoadingRole &&
       isLoadingPlaylists &&
       roomPlaylists.length === 0
     ) {
       const fetchPlaylists = async () => {
       
         try {
-          const fetchedPlaylists = await getRoomPlaylistDetails(currentRoomId);
+          const [fetchedPlaylists, savedPlaybackState] = await Promise.all([
+            getRoomPlaylistDetails(currentRoomId),
+            getRoomPlaybackState(currentRoomId),
+          ]);
           if (fetchedPlaylists) {
             setRoomPlaylists(fetchedPlaylists);
-            setCurrentPlaylistIndex(0);
-            // Condition to start initial playback
+            const savedPlaylistIndex = savedPlaybackState
+              ? fetchedPlaylists.findIndex(
+                  (playlist) =>
+                    playlist.uri &&
+                    playlist.uri === savedPlaybackState.contextUri
+                )
+              : -1;
+            setCurrentPlaylistIndex(Math.max(savedPlaylistIndex, 0));
+
+            // Join a session already in progress at the right position
             if (
+              savedPlaybackState &&
+              fetchedPlaylists.length > 0 &&
+              (targetDeviceId || isPreviewMode) &&
+              !initialPlaybackAttempted
+            ) {
+              setInitialPlaybackAttempted(true);
+              await applyPlaybackSnapshotRef.current(savedPlaybackState);
+              if (isRoomDJ) {
+                toast.success("Resumed room playback");
+              }
+            }
+            // Only the DJ starts a fresh session, members follow the DJ's broadcast
+            else if (
+              isRoomDJ &&
               fetchedPlaylists.length > 0 &&
-              playerDeviceId &&
+              targetDeviceId &&
               !initialPlaybackAttempted // Removed !playbackState check
             ) {
               setInitialPlaybackAttempted(true); // Mark attempt immediately
               const firstPlaylistUri = fetchedPlaylists[0]?.uri;
               if (firstPlaylistUri) {
              
-                const result = await startPlayback(
-                  playerDeviceId,
-                  firstPlaylistUri
-                );
+                const result = await startPlayback(targetDeviceId, {
+                  contextUri: firstPlaylistUri,
+                });
                 if (result.success) {
                   toast.success(
                     `Started playback: ${fetchedPlaylists[0].name}`
@@ -200,14 +455,52 @@ export function PlayerContextProvider({
     }
   }, [
     isPlayerReady,
+    isLoadingRole,
+    isRoomDJ,
     isLoadingPlaylists,
-    playerDeviceId,
+    targetDeviceId,
+    isPreviewMode,
     initialPlaybackAttempted,
     playbackState,
     roomPlaylists.length,
     pathname,
   ]);
 
+  // Replace the room's playlists, keeping currentPlaylistIndex on the same
+  // playlist when it moved
+  const roomPlaylistsRef = useRef<SimplePlaylistDetails[]>(roomPlaylists);
+  roomPlaylistsRef.current = roomPlaylists;
+  const updateRoomPlaylists = useCallback(
+    (playlists: SimplePlaylistDetails[]) => {
+      const previous = roomPlaylistsRef.current;
+      roomPlaylistsRef.current = playlists;
+      setCurrentPlaylistIndex((index) =>
+        remapPlaylistIndex(previous, playlists, index)
+      );
+      setRoomPlaylists(playlists);
+    },
+    []
+  );
+
+  // Reload the room's playlists after they were added, reordered or removed
+  const refreshRoomPlaylists = useCallback(async () => {
+    const roomId = currentRoomIdRef.current;
+    if (!roomId) return;
+    const playlists = await getRoomPlaylistDetails(roomId);
+    // Ignore a response for a room we've left meanwhile
+    if (playlists && currentRoomIdRef.current === roomId) {
+      updateRoomPlaylists(playlists);
+    }
+  }, [updateRoomPlaylists]);
+
+  // Pick up playlist changes made by the DJ, subscribed once the first load
+  // is done so it can't race it
+  useRoomPlaylistsSync({
+    roomId:
+      isRoomPath && !isLoadingPlaylists ? currentRoomIdRef.current : null,
+    onChange: refreshRoomPlaylists,
+  });
+
   // Effect to check saved/followed status when track or playlist changes
   useEffect(() => {
     const trackId = currentTrack?.id;
@@ -264,7 +557,9 @@ export function PlayerContextProvider({
     currentPlaylistIndex,
   ]); // Depend on track/playlist identifiers
 
-  // Effect to manage the track progress timer
+  // Effect to manage the track progress timer. The position is interpolated
+  // from the SDK's sampled position and timestamp instead of counting ticks,
+  // so throttled timers in background tabs don't make it drift.
   useEffect(() => {
     // Clear previous interval if playbackState changes or seeking starts
     if (intervalRef.current) {
@@ -276,18 +571,14 @@ export function PlayerContextProvider({
     if (playbackState) {
       setDuration(playbackState.duration);
       if (!isSeeking) {
-        setPosition(playbackState.position);
+        setPosition(getPlaybackStatePositionAt(playbackState, Date.now()));
       }
 
       // If playing and not seeking, start the interval timer
       if (!playbackState.paused && !isSeeking) {
         intervalRef.current = setInterval(() => {
-          setPosition((prevPosition) => {
-            const newPosition = prevPosition + 1000;
-            // Ensure position doesn't exceed duration
-            return Math.min(newPosition, playbackState.duration);
-          });
-        }, 1000);
+          setPosition(getPlaybackStatePositionAt(playbackState, Date.now()));
+        }, POSITION_TICK_MS);
       }
     } else {
       // Reset position and duration if no playback state
@@ -323,11 +614,326 @@ export function PlayerContextProvider({
     }
   }, [playbackState, isSeeking, seekPosition, currentTrack?.id]);
 
+  // --- DJ Playback Sync ---
+
+  useEffect(() => {
+    playbackStateRef.current = playbackState;
+  }, [playbackState]);
+
+  // --- Transport ---
+  // Commands go to the SDK for this browser, through the Web API for a
+  // remote device, or to the preview player. All reject on failure.
+
+  const sendRemoteCommand = useCallback(
+    async (command: () => Promise<SpotifyActionResult>) => {
+      const result = await command();
+      refreshRemotePlayback();
+      if (!result.success) {
+        throw new Error(result.error || "Unknown error");
+      }
+    },
+    [refreshRemotePlayback]
+  );
+
+  const pausePlayer = useCallback(async () => {
+    if (isPreviewMode) {
+      await pausePreview();
+      return;
+    }
+    if (isRemoteDevice) {
+      await sendRemoteCommand(() =>
+        controlPlayback("pause", targetDeviceId ?? undefined)
+      );
+      return;
+    }
+    await playerRef.current?.pause();
+  }, [
+    isPreviewMode,
+    pausePreview,
+    isRemoteDevice,
+    targetDeviceId,
+    sendRemoteCommand,
+    playerRef,
+  ]);
+
+  const resumePlayer = useCallback(async () => {
+    if (isPreviewMode) {
+      await resumePreview();
+      return;
+    }
+    if (isRemoteDevice) {
+      await sendRemoteCommand(() => startPlayback(targetDeviceId ?? ""));
+      return;
+    }
+    await playerRef.current?.resume();
+  }, [
+    isPreviewMode,
+    resumePreview,
+    isRemoteDevice,
+    targetDeviceId,
+    sendRemoteCommand,
+    playerRef,
+  ]);
+
+  const seekPlayer = useCallback(
+    async (positionMs: number) => {
+      if (isPreviewMode) {
+        await seekPreview(positionMs);
+        return;
+      }
+      if (isRemoteDevice) {
+        await sendRemoteCommand(() =>
+          seekToPosition(positionMs, targetDeviceId ?? undefined)
+        );
+        return;
+      }
+      await playerRef.current?.seek(positionMs);
+    },
+    [
+      isPreviewMode,
+      seekPreview,
+      isRemoteDevice,
+      targetDeviceId,
+      sendRemoteCommand,
+      playerRef,
+    ]
+  );
+
+  // Bring the local player in line with a snapshot: the DJ's live broadcast
+  // for members, or the persisted room state for anyone (re)joining a session
+  const applyPlaybackSnapshot = useCallback(
+    async (snapshot: RoomPlaybackSnapshot) => {
+      const isPlayerUnavailable = isPreviewMode
+        ? isLoadingQueue
+        : !targetDeviceId || (!isRemoteDevice && !playerRef.current);
+      if (isPlayerUnavailable || isApplyingSnapshotRef.current) {
+        // Apply once the player (or, for previews, the queue) is ready or
+        // the previous sync has finished
+        pendingSnapshotRef.current = snapshot;
+        return;
+      }
+
+      isApplyingSnapshotRef.current = true;
+      if (!isRoomDJ) {
+        setIsFollowingDJ(true);
+      }
+
+      try {
+        const expectedPosition = getSnapshotPositionAt(snapshot, serverNow());
+
+        const playlistIndex = roomPlaylists.findIndex(
+          (playlist) => playlist.uri && playlist.uri === snapshot.contextUri
+        );
+        if (playlistIndex !== -1) {
+          setCurrentPlaylistIndex(playlistIndex);
+        }
+
+        const localState = playbackStateRef.current;
+        const localTrackUri = getCanonicalTrackUri(
+          localState?.track_window.current_track
+        );
+
+        // Different track (or nothing playing yet): restart at the DJ's position
+        if (!localState || localTrackUri !== snapshot.trackUri) {
+          if (isPreviewMode) {
+            // Only the DJ's track is played; its clip doesn't cover the DJ's
+            // position, so it starts from the beginning
+            const queueItem =
+              roomQueue[findQueueIndex(roomQueue, snapshot.trackUri)];
+            if (!queueItem || !playPreviewTracks([queueItem])) {
+              await pausePlayer();
+              return;
+            }
+            if (snapshot.isPaused) {
+              await pausePlayer();
+            }
+            return;
+          }
+          const result = await startPlayback(
+            targetDeviceId ?? "",
+            snapshot.contextUri
+              ? {
+                  contextUri: snapshot.contextUri,
+                  offset: { uri: snapshot.trackUri },
+                  positionMs: expectedPosition,
+                }
+              : { uris: [snapshot.trackUri], positionMs: expectedPosition }
+          );
+          if (!result.success) {
+            toast.error(
+              `Failed to sync with the DJ: ${result.error || "Unknown error"}`
+            );
+            return;
+          }
+          if (snapshot.isPaused) {
+            await pausePlayer();
+          }
+          return;
+        }
+
+        // Same track: match paused state, then correct drift
+        if (snapshot.isPaused !== localState.paused) {
+          await (snapshot.isPaused ? pausePlayer() : resumePlayer());
+        }
+        const localPosition = getPlaybackStatePositionAt(
+          localState,
+          Date.now()
+        );
+        if (
+          !isPreviewMode &&
+          Math.abs(localPosition - expectedPosition) > SYNC_DRIFT_TOLERANCE_MS
+        ) {
+          await seekPlayer(Math.round(expectedPosition));
+        }
+      } catch (error) {
+        console.error("[PlayerContext] Error applying DJ snapshot:", error);
+      } finally {
+        isApplyingSnapshotRef.current = false;
+        const pendingSnapshot = pendingSnapshotRef.current;
+        if (pendingSnapshot && pendingSnapshot !== snapshot) {
+          pendingSnapshotRef.current = null;
+          applyPlaybackSnapshotRef.current(pendingSnapshot);
+        }
+      }
+    },
+    [
+      isPreviewMode,
+      isLoadingQueue,
+      roomQueue,
+      playPreviewTracks,
+      targetDeviceId,
+      isRemoteDevice,
+      playerRef,
+      roomPlaylists,
+      isRoomDJ,
+      serverNow,
+      pausePlayer,
+      resumePlayer,
+      seekPlayer,
+    ]
+  );
+
+  useEffect(() => {
+    applyPlaybackSnapshotRef.current = applyPlaybackSnapshot;
+  }, [applyPlaybackSnapshot]);
+
+  const { broadcastSnapshot, listenerCount } = useRoomPlaybackSync({
+    roomId: isRoomPath && !isLoadingRole ? currentRoomIdRef.current : null,
+    isDJ: isRoomDJ,
+    onRemoteSnapshot: applyPlaybackSnapshot,
+  });
+
+  // Apply a snapshot that arrived before the local player was ready
+  useEffect(() => {
+    const pendingSnapshot = pendingSnapshotRef.current;
+    const canApply = isPreviewMode ? !isLoadingQueue : !!targetDeviceId;
+    if (isRoomDJ || !isPlayerReady || !canApply || !pendingSnapshot) {
+      return;
+    }
+    pendingSnapshotRef.current = null;
+    applyPlaybackSnapshot(pendingSnapshot);
+  }, [
+    isRoomDJ,
+    isPlayerReady,
+    isPreviewMode,
+    isLoadingQueue,
+    targetDeviceId,
+    applyPlaybackSnapshot,
+  ]);
+
+  // DJ side: publish every playback change to the room. Preview clips
+  // aren't the room's playback, so a DJ without Premium doesn't publish.
+  useEffect(() => {
+    if (!isRoomDJ || isPreviewMode || !playbackState) return;
+
+    const trackUri = getCanonicalTrackUri(
+      playbackState.track_window.current_track
+    );
+    if (!trackUri) return;
+
+    const snapshot: RoomPlaybackSnapshot = {
+      contextUri: playbackState.context?.uri ?? null,
+      trackUri,
+      positionMs: playbackState.position,
+      isPaused: playbackState.paused,
+      // Snapshots travel between clients, so they carry server time
+      timestamp: toServerTime(playbackState.timestamp || Date.now()),
+    };
+    broadcastSnapshot(snapshot);
+
+    // Persist for late joiners, skipping updates that only reflect normal progress
+    const roomId = currentRoomIdRef.current;
+    const lastPersisted = lastPersistedSnapshotRef.current;
+    if (!roomId) return;
+    if (
+      lastPersisted &&
+      lastPersisted.trackUri === snapshot.trackUri &&
+      lastPersisted.contextUri === snapshot.contextUri &&
+      lastPersisted.isPaused === snapshot.isPaused &&
+      Math.abs(
+        getSnapshotPositionAt(lastPersisted, snapshot.timestamp) -
+          snapshot.positionMs
+      ) < PERSIST_DRIFT_TOLERANCE_MS
+    ) {
+      return;
+    }
+    lastPersistedSnapshotRef.current = snapshot;
+    saveRoomPlaybackState(roomId, {
+      ...snapshot,
+      positionMs: getSnapshotPositionAt(snapshot, serverNow()),
+    }).then((result) => {
+      if (!result.success) {
+        console.error(
+          "[PlayerContext] Failed to persist room playback state:",
+          result.error
+        );
+      }
+    });
+  }, [isRoomDJ, isPreviewMode, playbackState, broadcastSnapshot, serverNow]);
+
+  // DJ side: log each track once it starts playing to the room's history
+  useEffect(() => {
+    if (!isRoomDJ || isPreviewMode || !playbackState || playbackState.paused) {
+      return;
+    }
+    const track = playbackState.track_window.current_track;
+    const trackUri = getCanonicalTrackUri(track);
+    const roomId = currentRoomIdRef.current;
+    if (!trackUri || !roomId || lastRecordedTrackUriRef.current === trackUri) {
+      return;
+    }
+    lastRecordedTrackUriRef.current = trackUri;
+
+    const contextUri = playbackState.context?.uri ?? null;
+    const playlist = contextUri
+      ? roomPlaylists.find((roomPlaylist) => roomPlaylist.uri === contextUri)
+      : undefined;
+    recordRoomPlay(
+      roomId,
+      {
+        trackUri,
+        trackName: track.name,
+        artists: track.artists.map((artist) => artist.name),
+        playlistId: playlist?.spotify_playlist_id ?? null,
+        playlistName: playlist?.name ?? null,
+        listenerCount,
+      },
+      track.duration_ms
+    ).then((result) => {
+      if (!result.success) {
+        console.error(
+          "[PlayerContext] Failed to record room play history:",
+          result.error
+        );
+      }
+    });
+  }, [isRoomDJ, isPreviewMode, playbackState, roomPlaylists, listenerCount]);
+
   // --- Player Actions ---
 
   const playNextPlaylist = useCallback(async () => {
     if (
-      !playerDeviceId ||
+      !targetDeviceId ||
       roomPlaylists.length <= 1 ||
       currentPlaylistIndex >= roomPlaylists.length - 1 ||
       isChangingPlaylist
@@ -343,7 +949,9 @@ export function PlayerContextProvider({
 
     setIsChangingPlaylist(true);
     toast.info(`Switching to playlist: ${nextPlaylist.name}...`);
-    const result = await startPlayback(playerDeviceId, nextPlaylist.uri);
+    const result = await startPlayback(targetDeviceId, {
+      contextUri: nextPlaylist.uri,
+    });
     setIsChangingPlaylist(false);
 
     if (result.success) {
@@ -354,11 +962,11 @@ export function PlayerContextProvider({
         `Failed to switch playlist: ${result.error || "Unknown error"}`
       );
     }
-  }, [playerDeviceId, roomPlaylists, currentPlaylistIndex, isChangingPlaylist]);
+  }, [targetDeviceId, roomPlaylists, currentPlaylistIndex, isChangingPlaylist]);
 
   const playPreviousPlaylist = useCallback(async () => {
     if (
-      !playerDeviceId ||
+      !targetDeviceId ||
       roomPlaylists.length <= 1 ||
       currentPlaylistIndex <= 0 ||
       isChangingPlaylist
@@ -374,7 +982,9 @@ export function PlayerContextProvider({
 
     setIsChangingPlaylist(true);
     toast.info(`Switching to playlist: ${prevPlaylist.name}...`);
-    const result = await startPlayback(playerDeviceId, prevPlaylist.uri);
+    const result = await startPlayback(targetDeviceId, {
+      contextUri: prevPlaylist.uri,
+    });
     setIsChangingPlaylist(false);
 
     if (result.success) {
@@ -385,15 +995,221 @@ export function PlayerContextProvider({
         `Failed to switch playlist: ${result.error || "Unknown error"}`
       );
     }
-  }, [playerDeviceId, roomPlaylists, currentPlaylistIndex, isChangingPlaylist]);
+  }, [targetDeviceId, roomPlaylists, currentPlaylistIndex, isChangingPlaylist]);
+
+  // When a room playlist runs out (or Spotify switches to autoplay), the DJ
+  // moves the room on to the next playlist. Members follow the DJ's broadcast.
+  const handleContextEnd = useCallback(
+    async ({ contextUri, nextContextUri, reason }: ContextEndEvent) => {
+      if (!isRoomDJ || !targetDeviceId || isChangingPlaylist) return;
+
+      const endedIndex = roomPlaylists.findIndex(
+        (playlist) => playlist.uri && playlist.uri === contextUri
+      );
+      // Only curated playlists advance; a switch to another room playlist
+      // is the DJ's own doing, not autoplay
+      if (
+        endedIndex < 0 ||
+        (reason === "autoplay" &&
+          roomPlaylists.some((playlist) => playlist.uri === nextContextUri))
+      ) {
+        return;
+      }
+
+      let nextIndex = endedIndex + 1;
+      if (nextIndex >= roomPlaylists.length) {
+        if (!wrapRoomPlaylists) {
+          if (reason === "autoplay") {
+            if (isRemoteDevice) {
+              controlPlayback("pause", targetDeviceId ?? undefined).catch(
+                (err) => console.error("Error pausing autoplay", err)
+              );
+            } else {
+              playerRef.current
+                ?.pause()
+                .catch((err) => console.error("Error pausing autoplay", err));
+            }
+          }
+          toast.info("Reached the end of the room playlists.");
+          return;
+        }
+        nextIndex = 0;
+      }
+
+      const nextPlaylist = roomPlaylists[nextIndex];
+      if (!nextPlaylist?.uri) return;
+
+      setIsChangingPlaylist(true);
+      const result = await startPlayback(targetDeviceId, {
+        contextUri: nextPlaylist.uri,
+      });
+      setIsChangingPlaylist(false);
+      if (isRemoteDevice) {
+        refreshRemotePlayback();
+      }
+
+      if (result.success) {
+        setCurrentPlaylistIndex(nextIndex);
+        toast.success(
+          `${roomPlaylists[endedIndex].name} ended, now playing: ${nextPlaylist.name}`
+        );
+      } else {
+        toast.error(
+          `Failed to start the next playlist: ${result.error || "Unknown error"}`
+        );
+      }
+    },
+    [
+      isRoomDJ,
+      targetDeviceId,
+      isRemoteDevice,
+      refreshRemotePlayback,
+      isChangingPlaylist,
+      roomPlaylists,
+      wrapRoomPlaylists,
+      playerRef,
+    ]
+  );
+
+  useEffect(() => {
+    handleContextEndRef.current = handleContextEnd;
+  }, [handleContextEnd]);
+
+  // Play the room queue from `startIndex` with explicit track URIs, or as
+  // previews without Premium
+  const playRoomQueue = useCallback(
+    async (startIndex = 0) => {
+      if (isPreviewMode) {
+        const previewTrack = playPreviewTracks(roomQueue, startIndex);
+        if (previewTrack) {
+          toast.success(`Now previewing: ${previewTrack.name}`);
+        } else {
+          toast.error("None of the queued tracks have a preview.");
+        }
+        return;
+      }
+      if (!targetDeviceId || isChangingPlaylist) return;
+
+      const uris = roomQueue
+        .slice(startIndex, startIndex + QUEUE_PLAYBACK_WINDOW)
+        .map((item) => item.uri);
+      if (uris.length === 0) {
+        toast.error("The room queue is empty.");
+        return;
+      }
+
+      setIsChangingPlaylist(true);
+      const result = await startPlayback(targetDeviceId, { uris });
+      setIsChangingPlaylist(false);
+
+      if (result.success) {
+        toast.success(`Now playing: ${roomQueue[startIndex].name}`);
+      } else {
+        toast.error(
+          `Failed to play the room queue: ${result.error || "Unknown error"}`
+        );
+      }
+    },
+    [
+      targetDeviceId,
+      isPreviewMode,
+      playPreviewTracks,
+      isChangingPlaylist,
+      roomQueue,
+    ]
+  );
+
+  // Start a room playlist at one of its tracks. `tracks` is the playlist as
+  // loaded by the caller; previews continue through it.
+  const playPlaylistTrack = useCallback(
+    async (
+      playlistIndex: number,
+      tracks: SimplePlaylistTrack[],
+      trackIndex: number
+    ) => {
+      const playlist = roomPlaylists[playlistIndex];
+      const track = tracks[trackIndex];
+      if (!playlist?.uri || !track || isChangingPlaylist) return;
+
+      if (isPreviewMode) {
+        const previewTrack = playPreviewTracks(tracks, trackIndex);
+        if (previewTrack) {
+          setCurrentPlaylistIndex(playlistIndex);
+          toast.success(`Now previewing: ${previewTrack.name}`);
+        } else {
+          toast.error("No previews available from this track on.");
+        }
+        return;
+      }
+      if (!targetDeviceId) return;
+
+      setIsChangingPlaylist(true);
+      const result = await startPlayback(targetDeviceId, {
+        contextUri: playlist.uri,
+        // The position picks the right entry when a track is in the
+        // playlist more than once
+        offset:
+          track.position !== undefined
+            ? { position: track.position }
+            : { uri: track.uri },
+      });
+      setIsChangingPlaylist(false);
+
+      if (result.success) {
+        setCurrentPlaylistIndex(playlistIndex);
+        toast.success(`Now playing: ${track.name}`);
+      } else {
+        toast.error(
+          `Failed to play the track: ${result.error || "Unknown error"}`
+        );
+      }
+    },
+    [
+      roomPlaylists,
+      isChangingPlaylist,
+      isPreviewMode,
+      playPreviewTracks,
+      targetDeviceId,
+    ]
+  );
+
+  // While the queue is playing there is no playlist context, so keep the
+  // current playlist on the one the playing track was queued from
+  const playbackContextUri = playbackState?.context?.uri ?? null;
+  useEffect(() => {
+    if (playbackContextUri || currentQueueIndex < 0) return;
+    const { playlistId } = roomQueue[currentQueueIndex];
+    const playlistIndex = roomPlaylists.findIndex(
+      (playlist) => playlist.spotify_playlist_id === playlistId
+    );
+    if (playlistIndex >= 0) {
+      setCurrentPlaylistIndex(playlistIndex);
+    }
+  }, [playbackContextUri, currentQueueIndex, roomQueue, roomPlaylists]);
+
+  // Playback modes and restrictions as reported by the active player
+  const isShuffleOn = playbackState?.shuffle ?? false;
+  const repeatMode = toRepeatState(playbackState?.repeat_mode);
+  const playbackDisallows = playbackState?.disallows ?? NO_DISALLOWS;
 
   const togglePlayerShuffle = useCallback(async () => {
-    if (!playbackState || isTogglingShuffle) return;
+    if (
+      !playbackState ||
+      isTogglingShuffle ||
+      playbackState.disallows.toggling_shuffle
+    )
+      return;
 
     const currentShuffleState = playbackState.shuffle;
     setIsTogglingShuffle(true);
-    const result = await toggleShuffle(!currentShuffleState);
+    const result = await toggleShuffle(
+      !currentShuffleState,
+      targetDeviceId ?? undefined
+    );
     setIsTogglingShuffle(false);
+    if (isRemoteDevice) {
+      refreshRemotePlayback();
+    }
 
     if (result.success) {
       toast.success(`Shuffle ${!currentShuffleState ? "enabled" : "disabled"}`);
@@ -402,21 +1218,103 @@ export function PlayerContextProvider({
         `Failed to toggle shuffle: ${result.error || "Unknown error"}`
       );
     }
-  }, [playbackState, isTogglingShuffle]);
+  }, [
+    playbackState,
+    isTogglingShuffle,
+    targetDeviceId,
+    isRemoteDevice,
+    refreshRemotePlayback,
+  ]);
+
+  // Off -> playlist -> track -> off, skipping modes the player disallows
+  const cyclePlayerRepeat = useCallback(async () => {
+    if (!playbackState || isTogglingRepeat) return;
+
+    const nextRepeatMode = getNextRepeatState(
+      repeatMode,
+      playbackState.disallows
+    );
+    if (nextRepeatMode === repeatMode) return;
+
+    setIsTogglingRepeat(true);
+    const result = await setRepeatMode(
+      nextRepeatMode,
+      targetDeviceId ?? undefined
+    );
+    setIsTogglingRepeat(false);
+    if (isRemoteDevice) {
+      refreshRemotePlayback();
+    }
+
+    if (result.success) {
+      toast.success(REPEAT_MODE_LABELS[nextRepeatMode]);
+    } else {
+      toast.error(
+        `Failed to set repeat mode: ${result.error || "Unknown error"}`
+      );
+    }
+  }, [
+    playbackState,
+    isTogglingRepeat,
+    repeatMode,
+    targetDeviceId,
+    isRemoteDevice,
+    refreshRemotePlayback,
+  ]);
 
   const togglePlayPause = useCallback(() => {
+    if (isRemoteDevice || isPreviewMode) {
+      (playbackState?.paused ? resumePlayer() : pausePlayer()).catch((err) =>
+        toast.error(`Failed to toggle playback: ${err.message}`)
+      );
+      return;
+    }
     playerRef.current
       ?.togglePlay()
       .catch((err) => console.error("Error toggling play", err));
-  }, [playerRef]);
+  }, [
+    isRemoteDevice,
+    isPreviewMode,
+    playbackState?.paused,
+    resumePlayer,
+    pausePlayer,
+    playerRef,
+  ]);
 
   const skipToNextTrack = useCallback(() => {
+    if (isPreviewMode) {
+      nextPreview();
+      return;
+    }
+    if (isRemoteDevice) {
+      sendRemoteCommand(() =>
+        controlPlayback("next", targetDeviceId ?? undefined)
+      ).catch((err) => toast.error(`Failed to skip: ${err.message}`));
+      return;
+    }
     playerRef.current
       ?.nextTrack()
       .catch((err) => console.error("Error skipping next", err));
-  }, [playerRef]);
+  }, [
+    isPreviewMode,
+    nextPreview,
+    isRemoteDevice,
+    targetDeviceId,
+    sendRemoteCommand,
+    playerRef,
+  ]);
 
   const skipToPreviousTrack = useCallback(() => {
+    if (isPreviewMode) {
+      previousPreview();
+      return;
+    }
+    if (isRemoteDevice) {
+      sendRemoteCommand(() =>
+        controlPlayback("previous", targetDeviceId ?? undefined)
+      ).catch((err) => toast.error(`Failed to skip: ${err.message}`));
+      return;
+    }
     if (!playerRef.current) {
       console.warn("Attempted skip previous when playerRef is null.");
       return;
@@ -429,7 +1327,118 @@ export function PlayerContextProvider({
           console.error("Error skipping previous track:", err);
       }
     });
-  }, [playerRef]);
+  }, [
+    isPreviewMode,
+    previousPreview,
+    isRemoteDevice,
+    targetDeviceId,
+    sendRemoteCommand,
+    playerRef,
+  ]);
+
+  // Volume, 0-100. Remote changes are debounced since sliders fire
+  // continuously while dragging.
+  const setPlayerVolume = useCallback(
+    (volumePercent: number) => {
+      setVolumePercent(volumePercent);
+      if (isPreviewMode) {
+        setPreviewVolume(volumePercent);
+        return;
+      }
+      if (isRemoteDevice) {
+        if (remoteVolumeTimeoutRef.current) {
+          clearTimeout(remoteVolumeTimeoutRef.current);
+        }
+        remoteVolumeTimeoutRef.current = setTimeout(() => {
+          sendRemoteCommand(() =>
+            setPlaybackVolume(volumePercent, targetDeviceId ?? undefined)
+          ).catch((err) =>
+            toast.error(`Failed to set volume: ${err.message}`)
+          );
+        }, REMOTE_VOLUME_DEBOUNCE_MS);
+        return;
+      }
+      playerRef.current
+        ?.setVolume(volumePercent / 100)
+        .catch((err) => console.error("Error setting volume:", err));
+    },
+    [
+      isPreviewMode,
+      setPreviewVolume,
+      isRemoteDevice,
+      targetDeviceId,
+      sendRemoteCommand,
+      playerRef,
+    ]
+  );
+
+  // --- Spotify Connect Devices ---
+
+  const refreshDevices = useCallback(async () => {
+    setIsLoadingDevices(true);
+    const result = await getAvailableDevices();
+    setIsLoadingDevices(false);
+
+    if (result.error) {
+      toast.error(`Failed to load devices: ${result.error}`);
+      return;
+    }
+    setAvailableDevices(result.devices);
+  }, []);
+
+  // Move playback to a device; null is this browser's player
+  const selectDevice = useCallback(
+    async (deviceId: string | null) => {
+      const target = deviceId ?? playerDeviceId;
+      if (!target || target === targetDeviceId || isTransferringPlayback) {
+        return;
+      }
+
+      setIsTransferringPlayback(true);
+      const result = await transferPlayback(
+        target,
+        playbackState ? !playbackState.paused : false
+      );
+      setIsTransferringPlayback(false);
+
+      if (result.success) {
+        setSelectedDeviceId(target === playerDeviceId ? null : target);
+        const deviceName =
+          availableDevices.find((device) => device.id === target)?.name ??
+          "this browser";
+        toast.success(`Playing on ${deviceName}`);
+      } else {
+        toast.error(
+          `Failed to switch device: ${result.error || "Unknown error"}`
+        );
+      }
+    },
+    [
+      playerDeviceId,
+      targetDeviceId,
+      isTransferringPlayback,
+      playbackState,
+      availableDevices,
+    ]
+  );
+
+  // Follow Spotify when playback moves to another device from elsewhere
+  // (e.g. the phone app), including back to this browser
+  useEffect(() => {
+    if (!isRemoteDevice || !remoteDevice?.id) return;
+    if (remoteDevice.id !== selectedDeviceId) {
+      setSelectedDeviceId(
+        remoteDevice.id === playerDeviceId ? null : remoteDevice.id
+      );
+    }
+  }, [isRemoteDevice, remoteDevice?.id, selectedDeviceId, playerDeviceId]);
+
+  useEffect(() => {
+    if (!isPreviewMode) return;
+    toast.info(
+      "Full playback needs Spotify Premium. Listening along with 30-second previews."
+    );
+  }, [isPreviewMode]);
 
   // Save Current Track Action
   const saveCurrentTrack = useCallback(async () => {
@@ -505,7 +1514,11 @@ export function PlayerContextProvider({
 
   const handleSeekCommit = useCallback(
     (value: number[]) => {
-      if (!player || !playbackState || !duration) {
+      if (
+        (!isRemoteDevice && !isPreviewMode && !player) ||
+        !playbackState ||
+        !duration
+      ) {
         setIsSeeking(false); // Ensure seeking is reset if commit fails early
         return;
       }
@@ -517,19 +1530,39 @@ export function PlayerContextProvider({
       setPosition(finalPositionMs);
       // Keep isSeeking true - the effect watching playbackState will set it false
 
-      player.seek(finalPositionMs).catch((err) => {
+      seekPlayer(finalPositionMs).catch((err) => {
         console.error("Error seeking track:", err);
         toast.error("Failed to seek track.");
         // If seek fails, revert seeking state immediately and resync position
         setIsSeeking(false);
         if (playbackState) {
-          setPosition(playbackState.position);
+          setPosition(getPlaybackStatePositionAt(playbackState, Date.now()));
         }
       });
     },
-    [player, playbackState, duration] // Dependencies for seek operation
+    // Dependencies for seek operation
+    [isRemoteDevice, isPreviewMode, player, playbackState, duration, seekPlayer]
   );
 
+  // Seek to a time rather than a slider percentage (media keys, shortcuts)
+  const seekTo = useCallback(
+    (positionMs: number) => {
+      if (!duration) return;
+      handleSeekCommit([(Math.min(positionMs, duration) / duration) * 100]);
+    },
+    [duration, handleSeekCommit]
+  );
+
+  // --- OS Media Controls ---
+  useMediaSession({
+    currentTrack,
+    playbackState,
+    onTogglePlay: togglePlayPause,
+    onNextTrack: skipToNextTrack,
+    onPreviousTrack: skipToPreviousTrack,
+    onSeekTo: seekTo,
+  });
+
   // Memoize the context value to prevent unnecessary re-renders
   const value = useMemo(
     () => ({
@@ -542,6 +1575,8 @@ export function PlayerContextProvider({
       roomPlaylists,
       currentPlaylistIndex,
       setCurrentPlaylistIndex,
+      updateRoomPlaylists,
+      refreshRoomPlaylists,
       isLoadingPlaylists,
       isChangingPlaylist,
       isTogglingShuffle,
@@ -550,9 +1585,18 @@ export function PlayerContextProvider({
       isCurrentTrackSaved,
       isCurrentPlaylistFollowed,
       originalTrackId,
+      isRoomDJ,
+      isFollowingDJ,
       playNextPlaylist,
       playPreviousPlaylist,
+      wrapRoomPlaylists,
+      setWrapRoomPlaylists,
       togglePlayerShuffle,
+      isShuffleOn,
+      repeatMode,
+      isTogglingRepeat,
+      cyclePlayerRepeat,
+      playbackDisallows,
       togglePlayPause,
       skipToNextTrack,
       skipToPreviousTrack,
@@ -563,6 +1607,26 @@ export function PlayerContextProvider({
       isSeeking,
       handleSeekChange,
       handleSeekCommit,
+      roomQueue,
+      queueMode,
+      setQueueMode,
+      reshuffleQueue,
+      currentQueueIndex,
+      upNext,
+      isLoadingQueue,
+      playRoomQueue,
+      playPlaylistTrack,
+      volumePercent,
+      setPlayerVolume,
+      seekTo,
+      availableDevices,
+      selectedDeviceId,
+      isRemoteDevice,
+      isLoadingDevices,
+      isTransferringPlayback,
+      refreshDevices,
+      selectDevice,
+      isPreviewMode,
     }),
     [
       player,
@@ -573,6 +1637,8 @@ export function PlayerContextProvider({
       playbackState,
       roomPlaylists,
       currentPlaylistIndex,
+      updateRoomPlaylists,
+      refreshRoomPlaylists,
       isLoadingPlaylists,
       isChangingPlaylist,
       isTogglingShuffle,
@@ -581,9 +1647,17 @@ export function PlayerContextProvider({
       isCurrentTrackSaved,
       isCurrentPlaylistFollowed,
       originalTrackId,
+      isRoomDJ,
+      isFollowingDJ,
       playNextPlaylist,
       playPreviousPlaylist,
+      wrapRoomPlaylists,
       togglePlayerShuffle,
+      isShuffleOn,
+      repeatMode,
+      isTogglingRepeat,
+      cyclePlayerRepeat,
+      playbackDisallows,
       togglePlayPause,
       skipToNextTrack,
       skipToPreviousTrack,
@@ -595,6 +1669,26 @@ export function PlayerContextProvider({
       seekPosition,
       handleSeekChange,
       handleSeekCommit,
+      roomQueue,
+      queueMode,
+      setQueueMode,
+      reshuffleQueue,
+      currentQueueIndex,
+      upNext,
+      isLoadingQueue,
+      playRoomQueue,
+      playPlaylistTrack,
+      volumePercent,
+      setPlayerVolume,
+      seekTo,
+      availableDevices,
+      selectedDeviceId,
+      isRemoteDevice,
+      isLoadingDevices,
+      isTransferringPlayback,
+      refreshDevices,
+      selectDevice,
+      isPreviewMode,
     ]
   );
 
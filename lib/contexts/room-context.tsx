@@ -6,17 +6,24 @@ import React, {
   useState,
   useEffect,
   useMemo,
+  useCallback,
 } from "react";
 import { useParams } from "next/navigation";
 import { getUserRoleInCurrentRoom } from "@/lib/actions/supabase.actions";
-import { Database } from "@/lib/types/database.types";
-
-type RoomRole = Database["public"]["Enums"]["room_role"];
+import { createClient } from "@/lib/supabase/client";
+import {
+  getRoomPermissions,
+  type RoomPermissions,
+  type RoomRole,
+} from "@/lib/room-permissions";
 
 interface RoomContextType {
   roomId: string | null;
-  userRole: RoomRole | null;
+  permissions: RoomPermissions;
+  // Whether the user has joined the room (has any role in it)
+  isMember: boolean;
   isLoadingRole: boolean;
+  refreshRole: () => Promise<void>;
 }
 
 const RoomContext = createContext<RoomContextType | undefined>(undefined);
@@ -64,13 +71,51 @@ export function RoomContextProvider({
     };
   }, [roomId]);
 
+  // Re-read the role without showing it as loading, e.g. after a role change
+  const refreshRole = useCallback(async () => {
+    if (!roomId) return;
+    try {
+      setUserRole(await getUserRoleInCurrentRoom(roomId));
+    } catch (error) {
+      console.error("Failed to refresh user role in room context:", error);
+    }
+  }, [roomId]);
+
+  // The owner can change anyone's role at any time; pick it up live
+  useEffect(() => {
+    if (!roomId) return;
+
+    const supabase = createClient();
+    const channel = supabase
+      .channel(`room_members:${roomId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "room_members",
+          filter: `room_id=eq.${roomId}`,
+        },
+        () => {
+          refreshRole();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, refreshRole]);
+
   const value = useMemo(
     () => ({
       roomId,
-      userRole,
+      permissions: getRoomPermissions(userRole),
+      isMember: userRole !== null,
       isLoadingRole,
+      refreshRole,
     }),
-    [roomId, userRole, isLoadingRole]
+    [roomId, userRole, isLoadingRole, refreshRole]
   );
 
   return <RoomContext.Provider value={value}>{children}</RoomContext.Provider>;
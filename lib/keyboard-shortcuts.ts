@@ -0,0 +1,169 @@
+/**
+ * Keyboard shortcuts for the room page. The registry is plain data so the
+ * help overlay lists exactly what the key handler responds to.
+ */
+
+export type RoomShortcutId =
+  | "togglePlay"
+  | "seekBackward"
+  | "seekForward"
+  | "volumeUp"
+  | "volumeDown"
+  | "nextTrack"
+  | "previousTrack"
+  | "nextPlaylist"
+  | "previousPlaylist"
+  | "saveTrack"
+  | "focusChat"
+  | "showHelp";
+
+export interface KeyboardShortcut {
+  id: RoomShortcutId;
+  key: string; // KeyboardEvent.key, compared case-insensitively for letters
+  shift?: boolean;
+  keys: string[]; // How the help overlay shows the combination
+  description: string;
+  group: "Playback" | "Room";
+}
+
+export const ROOM_SHORTCUTS: KeyboardShortcut[] = [
+  {
+    id: "togglePlay",
+    key: " ",
+    keys: ["Space"],
+    description: "Play or pause",
+    group: "Playback",
+  },
+  {
+    id: "seekBackward",
+    key: "ArrowLeft",
+    keys: ["←"],
+    description: "Seek back 10 seconds",
+    group: "Playback",
+  },
+  {
+    id: "seekForward",
+    key: "ArrowRight",
+    keys: ["→"],
+    description: "Seek forward 10 seconds",
+    group: "Playback",
+  },
+  {
+    id: "volumeUp",
+    key: "ArrowUp",
+    keys: ["↑"],
+    description: "Volume up",
+    group: "Playback",
+  },
+  {
+    id: "volumeDown",
+    key: "ArrowDown",
+    keys: ["↓"],
+    description: "Volume down",
+    group: "Playback",
+  },
+  {
+    id: "nextTrack",
+    key: "n",
+    keys: ["N"],
+    description: "Next track",
+    group: "Playback",
+  },
+  {
+    id: "previousTrack",
+    key: "p",
+    keys: ["P"],
+    description: "Previous track",
+    group: "Playback",
+  },
+  {
+    id: "nextPlaylist",
+    key: "n",
+    shift: true,
+    keys: ["Shift", "N"],
+    description: "Next room playlist",
+    group: "Room",
+  },
+  {
+    id: "previousPlaylist",
+    key: "p",
+    shift: true,
+    keys: ["Shift", "P"],
+    description: "Previous room playlist",
+    group: "Room",
+  },
+  {
+    id: "saveTrack",
+    key: "l",
+    keys: ["L"],
+    description: "Save the current track to Liked Songs",
+    group: "Room",
+  },
+  {
+    id: "focusChat",
+    key: "/",
+    keys: ["/"],
+    description: "Focus the chat",
+    group: "Room",
+  },
+  {
+    id: "showHelp",
+    key: "?",
+    keys: ["?"],
+    description: "Show keyboard shortcuts",
+    group: "Room",
+  },
+];
+
+// The chat input's element ID, for the focusChat shortcut
+export const ROOM_CHAT_INPUT_ID = "room-chat-input";
+
+type ShortcutKeyEvent = Pick<
+  KeyboardEvent,
+  "key" | "shiftKey" | "ctrlKey" | "metaKey" | "altKey"
+>;
+
+/**
+ * Finds the shortcut a key press triggers. Presses with Ctrl, Cmd or Alt are
+ * left to the browser. Shift only has to match for letters, since symbols
+ * like `?` need it on most layouts anyway.
+ */
+export function findShortcut(
+  event: ShortcutKeyEvent,
+  shortcuts: KeyboardShortcut[] = ROOM_SHORTCUTS
+): KeyboardShortcut | null {
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  const isLetter = /^[a-z]$/.test(key);
+
+  return (
+    shortcuts.find(
+      (shortcut) =>
+        shortcut.key === key &&
+        (!isLetter || !!shortcut.shift === event.shiftKey)
+    ) ?? null
+  );
+}
+
+/**
+ * Whether key presses on `target` are text entry, where shortcuts must not
+ * fire.
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!target || typeof (target as HTMLElement).tagName !== "string") {
+    return false;
+  }
+  const element = target as HTMLElement;
+  if (element.isContentEditable) return true;
+
+  const tagName = element.tagName.toLowerCase();
+  if (tagName === "textarea" || tagName === "select") return true;
+  if (tagName !== "input") return false;
+
+  // Buttons and checkboxes rendered as inputs don't take text
+  const type = (element as HTMLInputElement).type;
+  return !["button", "checkbox", "radio", "range", "reset", "submit"].includes(
+    type
+  );
+}
@@ -0,0 +1,86 @@
+/**
+ * Helpers for how a room looks: its display name, cover art and accent
+ * color. Shared by the settings page, the room page, the rooms list and the
+ * invite preview. Pure functions only.
+ */
+import type { RoomAppearance, SimplePlaylistDetails } from "@/lib/types/index";
+
+// Storage bucket for uploaded covers; objects live under `<roomId>/`
+export const ROOM_COVERS_BUCKET = "room-covers";
+
+export const MAX_ROOM_COVER_BYTES = 2 * 1024 * 1024;
+
+export const ROOM_COVER_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+export const MAX_MOSAIC_COVERS = 4;
+
+// Presets offered in settings; any #rrggbb color is accepted
+export const ROOM_ACCENT_COLORS = [
+  "#14b8a6",
+  "#22c55e",
+  "#eab308",
+  "#f97316",
+  "#ef4444",
+  "#ec4899",
+  "#8b5cf6",
+  "#3b82f6",
+];
+
+const ACCENT_COLOR_PATTERN = /^#[0-9a-f]{6}$/;
+
+/** The room's name, or a short stand-in built from its ID. */
+export function getRoomDisplayName(room: {
+  id: string;
+  name: string | null;
+}): string {
+  return room.name || `Room ${room.id.substring(0, 8)}...`;
+}
+
+/** Lowercases a #rrggbb color; anything else becomes null. */
+export function normalizeAccentColor(
+  color: string | null | undefined
+): string | null {
+  const normalized = color?.trim().toLowerCase() ?? "";
+  return ACCENT_COLOR_PATTERN.test(normalized) ? normalized : null;
+}
+
+/** The first cover of each playlist, without repeats, up to the mosaic size. */
+export function getMosaicCoverUrls(
+  playlists: Pick<SimplePlaylistDetails, "images">[]
+): string[] {
+  const urls: string[] = [];
+  for (const playlist of playlists) {
+    const url = playlist.images?.[0]?.url;
+    if (url && !urls.includes(url)) urls.push(url);
+    if (urls.length === MAX_MOSAIC_COVERS) break;
+  }
+  return urls;
+}
+
+/** Public URL prefix of the room's uploaded covers. */
+export function getRoomCoverUrlPrefix(
+  supabaseUrl: string,
+  roomId: string
+): string {
+  const origin = supabaseUrl.replace(/\/+$/, "");
+  return `${origin}/storage/v1/object/public/${ROOM_COVERS_BUCKET}/${roomId}/`;
+}
+
+/** Maps the appearance columns of a rooms row. */
+export function toRoomAppearance(row: {
+  name: string | null;
+  description: string | null;
+  cover_type: RoomAppearance["coverType"];
+  cover_url: string | null;
+  cover_mosaic_urls: string[] | null;
+  accent_color: string | null;
+}): RoomAppearance {
+  return {
+    name: row.name,
+    description: row.description,
+    coverType: row.cover_type,
+    coverUrl: row.cover_url,
+    coverMosaicUrls: row.cover_mosaic_urls ?? [],
+    accentColor: normalizeAccentColor(row.accent_color),
+  };
+}
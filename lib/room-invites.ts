@@ -0,0 +1,35 @@
+/**
+ * Helpers for room invite links, shared by the invite dialog and the room
+ * page. Pure functions only.
+ */
+import type { RoomInvite } from "@/lib/types/index";
+
+// Query parameter carrying the invite token on a room URL
+export const ROOM_INVITE_PARAM = "invite";
+
+export type RoomInviteStatus = "active" | "expired" | "used_up";
+
+/** Builds the link that joins `roomId`, with the invite token if any. */
+export function buildRoomInviteUrl(
+  origin: string,
+  roomId: string,
+  token?: string
+): string {
+  const url = new URL(`/rooms/${roomId}`, origin);
+  if (token) url.searchParams.set(ROOM_INVITE_PARAM, token);
+  return url.toString();
+}
+
+/** Whether the invite can still be redeemed at `now` (ms since epoch). */
+export function getRoomInviteStatus(
+  invite: Pick<RoomInvite, "expiresAt" | "maxUses" | "useCount">,
+  now: number
+): RoomInviteStatus {
+  if (invite.expiresAt && new Date(invite.expiresAt).getTime() <= now) {
+    return "expired";
+  }
+  if (invite.maxUses !== null && invite.useCount >= invite.maxUses) {
+    return "used_up";
+  }
+  return "active";
+}
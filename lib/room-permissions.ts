@@ -0,0 +1,40 @@
+/**
+ * What each room role may do. The database enforces the same rules with RLS;
+ * these only decide what the UI offers.
+ */
+import type { Database } from "@/lib/types/database.types";
+
+export type RoomRole = Database["public"]["Enums"]["room_role"];
+
+export interface RoomPermissions {
+  // Owns the room: manages roles, invites and settings. Always the DJ.
+  isOwner: boolean;
+  // Controls playback and is followed by everyone else
+  canControlPlayback: boolean;
+  canAddPlaylists: boolean;
+  // Reorder and remove the room's playlists
+  canManagePlaylists: boolean;
+  // Delete other people's chat messages
+  canModerateChat: boolean;
+  canManageMembers: boolean;
+}
+
+export const ROOM_ROLE_LABELS: Record<RoomRole, string> = {
+  DJ: "DJ",
+  co_dj: "Co-DJ",
+  member: "Member",
+};
+
+/** Permissions of a user with `role` in a room, null when not a member. */
+export function getRoomPermissions(role: RoomRole | null): RoomPermissions {
+  const isOwner = role === "DJ";
+  const isModerator = role === "DJ" || role === "co_dj";
+  return {
+    isOwner,
+    canControlPlayback: isOwner,
+    canAddPlaylists: isModerator,
+    canManagePlaylists: isModerator,
+    canModerateChat: isModerator,
+    canManageMembers: isOwner,
+  };
+}
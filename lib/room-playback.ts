@@ -0,0 +1,30 @@
+/**
+ * Checks playback snapshots received over Realtime before the player acts on
+ * them. Pure functions only.
+ */
+import type { RoomPlaybackSnapshot } from "@/lib/types/index";
+
+/** The payload as a snapshot, or null when it isn't shaped like one. */
+export function parseRoomPlaybackSnapshot(
+  payload: unknown
+): RoomPlaybackSnapshot | null {
+  if (!payload || typeof payload !== "object") return null;
+  const { contextUri, trackUri, positionMs, isPaused, timestamp } =
+    payload as Record<string, unknown>;
+
+  if (
+    (contextUri !== null && typeof contextUri !== "string") ||
+    typeof trackUri !== "string" ||
+    !trackUri.startsWith("spotify:") ||
+    typeof positionMs !== "number" ||
+    !Number.isFinite(positionMs) ||
+    positionMs < 0 ||
+    typeof isPaused !== "boolean" ||
+    typeof timestamp !== "number" ||
+    !Number.isFinite(timestamp)
+  ) {
+    return null;
+  }
+
+  return { contextUri, trackUri, positionMs, isPaused, timestamp };
+}
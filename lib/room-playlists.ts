@@ -0,0 +1,39 @@
+/**
+ * Helpers for reordering a room's playlists. Pure functions only, so the
+ * player and the management dialog agree on the result.
+ */
+
+/** Returns a copy of `list` with the item at `from` moved to `to`. */
+export function moveItem<T>(list: T[], from: number, to: number): T[] {
+  if (
+    from === to ||
+    from < 0 ||
+    from >= list.length ||
+    to < 0 ||
+    to >= list.length
+  ) {
+    return list.slice();
+  }
+  const moved = list.slice();
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+}
+
+/**
+ * Finds where the playlist at `previousIndex` ended up after the list
+ * changed. When it was removed, stays at the same index (the playlist that
+ * took its place), clamped to the new list.
+ */
+export function remapPlaylistIndex(
+  previous: { spotify_playlist_id: string }[],
+  next: { spotify_playlist_id: string }[],
+  previousIndex: number
+): number {
+  const playlistId = previous[previousIndex]?.spotify_playlist_id;
+  const nextIndex = playlistId
+    ? next.findIndex((playlist) => playlist.spotify_playlist_id === playlistId)
+    : -1;
+  if (nextIndex >= 0) return nextIndex;
+  return Math.max(Math.min(previousIndex, next.length - 1), 0);
+}
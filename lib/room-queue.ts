@@ -0,0 +1,114 @@
+/**
+ * Builds the room's track-level queue from the tracks of every room
+ * playlist. Pure functions only, so the order can be tested and every client
+ * that builds a queue from the same input gets the same result.
+ */
+import type { SimplePlaylistTrack } from "@/lib/types/index";
+
+export type RoomQueueMode = "sequential" | "interleaved" | "shuffled";
+
+export const ROOM_QUEUE_MODES: RoomQueueMode[] = [
+  "sequential",
+  "interleaved",
+  "shuffled",
+];
+
+export interface RoomQueueSource {
+  playlistId: string;
+  tracks: SimplePlaylistTrack[];
+}
+
+export interface RoomQueueItem extends SimplePlaylistTrack {
+  playlistId: string; // The room playlist this track was taken from
+}
+
+/**
+ * Deterministic PRNG (mulberry32) so a shuffled queue can be rebuilt in the
+ * same order from its seed.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function toItems(source: RoomQueueSource): RoomQueueItem[] {
+  return source.tracks.map((track) => ({
+    ...track,
+    playlistId: source.playlistId,
+  }));
+}
+
+/**
+ * Merges the playlists' tracks into one queue.
+ * - sequential: every track of the first playlist, then the second, ...
+ * - interleaved: round-robin, one track from each playlist in turn
+ * - shuffled: all tracks in a random order drawn from `seed`
+ * A track that appears in several playlists is only queued once, at its
+ * first position.
+ */
+export function buildRoomQueue(
+  sources: RoomQueueSource[],
+  mode: RoomQueueMode,
+  seed = 0
+): RoomQueueItem[] {
+  const perSource = sources.map(toItems);
+  let merged: RoomQueueItem[] = [];
+
+  if (mode === "interleaved") {
+    const longest = Math.max(0, ...perSource.map((items) => items.length));
+    for (let index = 0; index < longest; index++) {
+      perSource.forEach((items) => {
+        if (index < items.length) merged.push(items[index]);
+      });
+    }
+  } else {
+    merged = perSource.flat();
+  }
+
+  const seen = new Set<string>();
+  const queue = merged.filter((item) => {
+    if (seen.has(item.uri)) return false;
+    seen.add(item.uri);
+    return true;
+  });
+
+  if (mode === "shuffled") {
+    // Fisher-Yates
+    const random = createSeededRandom(seed);
+    for (let index = queue.length - 1; index > 0; index--) {
+      const swapIndex = Math.floor(random() * (index + 1));
+      [queue[index], queue[swapIndex]] = [queue[swapIndex], queue[index]];
+    }
+  }
+
+  return queue;
+}
+
+/**
+ * Position of a track in the queue, or -1 if it isn't queued.
+ */
+export function findQueueIndex(
+  queue: RoomQueueItem[],
+  trackUri: string | null
+): number {
+  if (!trackUri) return -1;
+  return queue.findIndex((item) => item.uri === trackUri);
+}
+
+/**
+ * The next `count` tracks after `currentIndex`. When nothing from the queue
+ * is playing (`currentIndex` is -1) this is the start of the queue.
+ */
+export function getUpNext(
+  queue: RoomQueueItem[],
+  currentIndex: number,
+  count: number
+): RoomQueueItem[] {
+  return queue.slice(currentIndex + 1, currentIndex + 1 + count);
+}
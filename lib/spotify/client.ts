@@ -0,0 +1,421 @@
+import { Buffer } from "buffer";
+
+/**
+ * Shared Spotify client used by the server actions in
+ * lib/actions/spotify.actions.ts. Handles auth headers, retries (Retry-After
+ * on 429, backoff on 5xx for requests that are safe to repeat) and turns Spotify's error bodies into a
+ * discriminated `SpotifyApiError`, so the actions only deal with request and
+ * response shapes.
+ */
+
+const DEFAULT_SPOTIFY_API_BASE = "https://api.spotify.com/v1";
+const DEFAULT_SPOTIFY_ACCOUNTS_BASE = "https://accounts.spotify.com";
+
+/**
+ * Web API base URL. Override with SPOTIFY_API_BASE_URL to point the app or
+ * tests at the mock server (see lib/spotify/mock), e.g.
+ * `http://localhost:3000/api/mock-spotify/v1`. Read per request so tests can
+ * change it after import.
+ */
+export function getSpotifyApiBase(): string {
+  return (
+    process.env.SPOTIFY_API_BASE_URL || DEFAULT_SPOTIFY_API_BASE
+  ).replace(/\/$/, "");
+}
+
+/**
+ * Accounts service token endpoint, overridable via SPOTIFY_ACCOUNTS_BASE_URL
+ * (e.g. `http://localhost:3000/api/mock-spotify/accounts`).
+ */
+export function getSpotifyAccountsUrl(): string {
+  const base = (
+    process.env.SPOTIFY_ACCOUNTS_BASE_URL || DEFAULT_SPOTIFY_ACCOUNTS_BASE
+  ).replace(/\/$/, "");
+  return `${base}/api/token`;
+}
+
+// Retries after the first attempt, for 429 and (where safe) 5xx responses
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+// Rate limits longer than this are returned to the caller instead of waited out
+const MAX_RETRY_AFTER_MS = 10000;
+
+export type SpotifyErrorKind =
+  | "premium_required"
+  | "no_active_device"
+  | "not_found"
+  | "unauthorized"
+  | "rate_limited"
+  | "forbidden"
+  | "bad_request"
+  | "server_error"
+  | "network_error"
+  | "invalid_response";
+
+export interface SpotifyApiError {
+  kind: SpotifyErrorKind;
+  /** HTTP status, or null when no response was received (network, missing token). */
+  status: number | null;
+  message: string;
+  /** Spotify's machine-readable reason, e.g. "PREMIUM_REQUIRED" or "invalid_grant". */
+  reason?: string;
+  /** Set for rate_limited errors. */
+  retryAfterMs?: number;
+}
+
+export type SpotifyResult<T> =
+  | { ok: true; data: T; status: number }
+  | { ok: false; error: SpotifyApiError };
+
+/**
+ * An access token, or a function resolving one (e.g. getSpotifyAccessToken).
+ */
+export type SpotifyAuth =
+  | string
+  | (() => Promise<{ accessToken?: string | null; error?: string }>);
+
+export interface SpotifyRequestOptions {
+  method?: "GET" | "POST" | "PUT" | "DELETE";
+  query?: Record<string, string | number | boolean | undefined>;
+  /** Serialized as JSON. */
+  body?: unknown;
+  maxRetries?: number;
+  /**
+   * Whether to back off and retry 5xx responses. A 5xx can arrive after
+   * Spotify applied the request, so this defaults to false for POST, which
+   * isn't idempotent (e.g. creating a playlist or adding tracks), and true
+   * otherwise. 429s are always retried since nothing was applied.
+   */
+  retryServerErrors?: boolean;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function parseRetryAfterMs(response: Response): number {
+  const header = response.headers?.get?.("Retry-After");
+  const seconds = header ? Number(header) : NaN;
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : 1000;
+}
+
+/**
+ * Sends a request, retrying rate limits and, if `retryServerErrors` is set,
+ * server errors. Returns the final response, or a network error if fetch
+ * itself failed.
+ */
+async function sendWithRetries(
+  url: string,
+  init: RequestInit,
+  maxRetries: number,
+  retryServerErrors: boolean
+): Promise<Response | SpotifyApiError> {
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      console.error(`Spotify request to ${url} failed:`, error);
+      return {
+        kind: "network_error",
+        status: null,
+        message: error instanceof Error ? error.message : "Network error",
+      };
+    }
+
+    if (attempt >= maxRetries) {
+      return response;
+    }
+
+    if (response.status === 429) {
+      const retryAfterMs = parseRetryAfterMs(response);
+      if (retryAfterMs > MAX_RETRY_AFTER_MS) {
+        return response;
+      }
+      console.warn(
+        `Spotify rate limited (attempt ${attempt + 1}), retrying in ${retryAfterMs}ms...`
+      );
+      await sleep(retryAfterMs);
+      continue;
+    }
+
+    if (response.status >= 500 && retryServerErrors) {
+      const delayMs = RETRY_BASE_DELAY_MS * 2 ** attempt;
+      console.warn(
+        `Spotify server error ${response.status} (attempt ${attempt + 1}), retrying in ${delayMs}ms...`
+      );
+      await sleep(delayMs);
+      continue;
+    }
+
+    return response;
+  }
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Maps a failed response to a SpotifyApiError. Understands both the Web API
+ * shape (`{ error: { status, message, reason } }`) and the accounts service
+ * shape (`{ error, error_description }`).
+ */
+export function toSpotifyApiError(
+  status: number,
+  body: unknown,
+  retryAfterMs?: number
+): SpotifyApiError {
+  let message: string | undefined;
+  let reason: string | undefined;
+
+  if (body && typeof body === "object" && "error" in body) {
+    const { error, error_description } = body as {
+      error?: { message?: string; reason?: string } | string;
+      error_description?: string;
+    };
+    if (error && typeof error === "object") {
+      message = error.message;
+      reason = error.reason;
+    } else if (typeof error === "string") {
+      message = error_description ?? error;
+      reason = error;
+    }
+  } else if (typeof body === "string" && body) {
+    message = body;
+  }
+
+  let kind: SpotifyErrorKind;
+  if (status === 401) {
+    kind = "unauthorized";
+  } else if (status === 403) {
+    kind = reason === "PREMIUM_REQUIRED" ? "premium_required" : "forbidden";
+  } else if (status === 404) {
+    kind = reason === "NO_ACTIVE_DEVICE" ? "no_active_device" : "not_found";
+  } else if (status === 429) {
+    kind = "rate_limited";
+  } else if (status >= 500) {
+    kind = "server_error";
+  } else if (status === 400 && reason === "invalid_grant") {
+    kind = "unauthorized"; // Revoked or expired refresh token
+  } else {
+    kind = "bad_request";
+  }
+
+  return {
+    kind,
+    status,
+    message: message || `Spotify API Error: ${status}`,
+    ...(reason ? { reason } : {}),
+    ...(kind === "rate_limited" ? { retryAfterMs: retryAfterMs ?? 1000 } : {}),
+  };
+}
+
+async function toResult<T>(
+  response: Response | SpotifyApiError
+): Promise<SpotifyResult<T>> {
+  if ("kind" in response) {
+    return { ok: false, error: response };
+  }
+
+  let body: unknown;
+  try {
+    body = await readBody(response);
+  } catch (error) {
+    console.error("Could not read Spotify response body:", error);
+    return {
+      ok: false,
+      error: {
+        kind: "invalid_response",
+        status: response.status,
+        message: "Could not read Spotify response.",
+      },
+    };
+  }
+
+  if (!response.ok) {
+    const error = toSpotifyApiError(
+      response.status,
+      body,
+      response.status === 429 ? parseRetryAfterMs(response) : undefined
+    );
+    console.error(
+      `Spotify API Error (${response.status}, ${error.kind}): ${error.message}`
+    );
+    return { ok: false, error };
+  }
+
+  return { ok: true, data: body as T, status: response.status };
+}
+
+async function resolveToken(
+  auth: SpotifyAuth
+): Promise<{ token: string } | { error: SpotifyApiError }> {
+  if (typeof auth === "string") {
+    return auth
+      ? { token: auth }
+      : {
+          error: {
+            kind: "unauthorized",
+            status: null,
+            message: "Spotify token unavailable.",
+          },
+        };
+  }
+
+  const tokenInfo = await auth();
+  if (tokenInfo.error || !tokenInfo.accessToken) {
+    return {
+      error: {
+        kind: "unauthorized",
+        status: null,
+        message: tokenInfo.error || "Spotify token unavailable.",
+      },
+    };
+  }
+  return { token: tokenInfo.accessToken };
+}
+
+/**
+ * Calls the Spotify Web API.
+ * @param auth Access token or token resolver. Resolver failures are returned
+ *   as `unauthorized` errors with a null status and the resolver's message.
+ * @param endpoint Path below /v1, e.g. "/me/tracks".
+ * @returns The parsed JSON body (null for empty responses) or a typed error.
+ */
+export async function spotifyRequest<T = null>(
+  auth: SpotifyAuth,
+  endpoint: string,
+  options: SpotifyRequestOptions = {}
+): Promise<SpotifyResult<T>> {
+  const {
+    method = "GET",
+    query,
+    body,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    retryServerErrors = method !== "POST",
+  } = options;
+
+  const tokenResult = await resolveToken(auth);
+  if ("error" in tokenResult) {
+    return { ok: false, error: tokenResult.error };
+  }
+
+  let url = `${getSpotifyApiBase()}${endpoint}`;
+  if (query) {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, String(value));
+    });
+    const queryString = params.toString();
+    if (queryString) url += `${url.includes("?") ? "&" : "?"}${queryString}`;
+  }
+
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${tokenResult.token}`,
+  };
+  if (body !== undefined) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  const response = await sendWithRetries(
+    url,
+    {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      cache: "no-store",
+    },
+    maxRetries,
+    retryServerErrors
+  );
+  return toResult<T>(response);
+}
+
+/**
+ * Calls the Spotify accounts service token endpoint with the app's client
+ * credentials. Requires SPOTIFY_CLIENT_ID and SPOTIFY_CLIENT_SECRET.
+ */
+export async function spotifyAccountsRequest<T>(
+  form: Record<string, string>
+): Promise<SpotifyResult<T>> {
+  const clientId = process.env.SPOTIFY_CLIENT_ID;
+  const clientSecret = process.env.SPOTIFY_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    console.error(
+      "Spotify accounts Error: Missing SPOTIFY_CLIENT_ID or SPOTIFY_CLIENT_SECRET env vars."
+    );
+    return {
+      ok: false,
+      error: {
+        kind: "unauthorized",
+        status: null,
+        message: "Spotify client credentials are not configured.",
+      },
+    };
+  }
+
+  const basicAuth = Buffer.from(`${clientId}:${clientSecret}`).toString(
+    "base64"
+  );
+
+  const response = await sendWithRetries(
+    getSpotifyAccountsUrl(),
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${basicAuth}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams(form),
+      cache: "no-store",
+    },
+    DEFAULT_MAX_RETRIES,
+    false // A refresh may already have rotated the refresh token
+  );
+  return toResult<T>(response);
+}
+
+const DEFAULT_ERROR_MESSAGES: Record<SpotifyErrorKind, string> = {
+  premium_required: "Spotify Premium required.",
+  no_active_device: "Device not found or inactive.",
+  not_found: "Not found on Spotify.",
+  unauthorized: "Authentication failed. Please re-login.",
+  rate_limited: "Spotify is busy right now. Please try again shortly.",
+  forbidden: "Action forbidden.",
+  bad_request: "Spotify rejected the request.",
+  server_error: "Spotify is having problems. Please try again later.",
+  network_error: "An unexpected error occurred.",
+  invalid_response: "Invalid response format from Spotify.",
+};
+
+/**
+ * Turns an error into a user-facing message. Token failures (status null)
+ * keep their own message, e.g. "Authentication required.".
+ * @param overrides Per-action messages, e.g. `{ not_found: "Track not found." }`.
+ * @param fallback Used for bad_request and server_error when not overridden.
+ */
+export function describeSpotifyError(
+  error: SpotifyApiError,
+  overrides: Partial<Record<SpotifyErrorKind, string>> = {},
+  fallback?: string
+): string {
+  if (error.kind === "unauthorized" && error.status === null) {
+    return error.message;
+  }
+  if (overrides[error.kind]) {
+    return overrides[error.kind]!;
+  }
+  if (
+    fallback &&
+    (error.kind === "bad_request" || error.kind === "server_error")
+  ) {
+    return fallback;
+  }
+  return DEFAULT_ERROR_MESSAGES[error.kind];
+}
@@ -0,0 +1,248 @@
+import type { User } from "@supabase/supabase-js";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { decryptToken, encryptToken } from "@/lib/spotify/token-crypto";
+
+/**
+ * Server-only storage for users' Spotify OAuth tokens. Tokens live encrypted
+ * in the `spotify_credentials` table, which has RLS enabled and no policies,
+ * so only the service-role client can read it. Never return these values
+ * from a server action other than the short-lived access token.
+ */
+
+export interface SpotifyCredentials {
+  accessToken: string | null;
+  refreshToken: string | null;
+  /** Unix timestamp in seconds, null if unknown. */
+  expiresAt: number | null;
+}
+
+/**
+ * Loads and decrypts the stored credentials for a user.
+ * @returns The credentials, or null if none are stored or they can't be read.
+ */
+export async function readSpotifyCredentials(
+  userId: string
+): Promise<SpotifyCredentials | null> {
+  try {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+      .from("spotify_credentials")
+      .select("access_token_encrypted, refresh_token_encrypted, expires_at")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("readSpotifyCredentials Error:", error);
+      return null;
+    }
+    if (!data) {
+      return null;
+    }
+
+    return {
+      accessToken: data.access_token_encrypted
+        ? decryptToken(data.access_token_encrypted)
+        : null,
+      refreshToken: data.refresh_token_encrypted
+        ? decryptToken(data.refresh_token_encrypted)
+        : null,
+      expiresAt: data.expires_at
+        ? Math.floor(Date.parse(data.expires_at) / 1000)
+        : null,
+    };
+  } catch (error) {
+    console.error("readSpotifyCredentials Error: Unexpected error", error);
+    return null;
+  }
+}
+
+/**
+ * Encrypts and stores (or replaces) a user's credentials.
+ * @returns Whether the credentials were saved.
+ */
+export async function writeSpotifyCredentials(
+  userId: string,
+  credentials: SpotifyCredentials
+): Promise<boolean> {
+  try {
+    const supabase = createAdminClient();
+    const { error } = await supabase.from("spotify_credentials").upsert({
+      user_id: userId,
+      access_token_encrypted: credentials.accessToken
+        ? encryptToken(credentials.accessToken)
+        : null,
+      refresh_token_encrypted: credentials.refreshToken
+        ? encryptToken(credentials.refreshToken)
+        : null,
+      expires_at: credentials.expiresAt
+        ? new Date(credentials.expiresAt * 1000).toISOString()
+        : null,
+    });
+
+    if (error) {
+      console.error("writeSpotifyCredentials Error:", error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error("writeSpotifyCredentials Error: Unexpected error", error);
+    return false;
+  }
+}
+
+// The token fields older OAuth callbacks wrote to `user_metadata`
+function getLegacySpotifyCredentials(user: User): SpotifyCredentials {
+  const metadata = user.user_metadata ?? {};
+  return {
+    accessToken: (metadata.provider_token as string) ?? null,
+    refreshToken: (metadata.provider_refresh_token as string) ?? null,
+    expiresAt: (metadata.provider_token_expires_at as number) ?? null,
+  };
+}
+
+/**
+ * Moves tokens saved in `user_metadata` by older versions of the OAuth
+ * callback into `spotify_credentials`, then clears them from the metadata.
+ * The encryption key only exists in the app, so this runs lazily on the
+ * user's next token lookup instead of in the SQL migration.
+ * @returns The migrated credentials, or null if the metadata had none.
+ */
+export async function migrateLegacySpotifyCredentials(
+  user: User
+): Promise<SpotifyCredentials | null> {
+  const credentials = getLegacySpotifyCredentials(user);
+  if (!credentials.accessToken && !credentials.refreshToken) {
+    return null;
+  }
+
+  const saved = await writeSpotifyCredentials(user.id, credentials);
+  if (!saved) {
+    // Keep the metadata so the next lookup can try again
+    return credentials;
+  }
+
+  await clearLegacySpotifyMetadata(user);
+  return credentials;
+}
+
+const hasLegacySpotifyMetadata = (user: User) => {
+  const metadata = user.user_metadata ?? {};
+  return Boolean(
+    metadata.provider_token ||
+    metadata.provider_refresh_token ||
+    metadata.provider_token_expires_at
+  );
+};
+
+/**
+ * Removes the token fields older OAuth callbacks wrote to `user_metadata`.
+ * No-op for users who never had them.
+ * @returns Whether the metadata is now free of tokens.
+ */
+export async function clearLegacySpotifyMetadata(user: User): Promise<boolean> {
+  const metadata = user.user_metadata ?? {};
+  if (!hasLegacySpotifyMetadata(user)) {
+    return true;
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const { error } = await supabase.auth.admin.updateUserById(user.id, {
+      user_metadata: {
+        ...metadata,
+        provider_token: null,
+        provider_refresh_token: null,
+        provider_token_expires_at: null,
+      },
+    });
+    if (error) {
+      console.error(
+        "clearLegacySpotifyMetadata Error: Failed to update user_metadata:",
+        error
+      );
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error("clearLegacySpotifyMetadata Error: Unexpected error", error);
+    return false;
+  }
+}
+
+// Users read per page of the auth admin API
+const BACKFILL_PAGE_SIZE = 100;
+
+export interface SpotifyCredentialsBackfillResult {
+  /** Users whose legacy tokens were encrypted into spotify_credentials. */
+  migrated: number;
+  /** Users who already had stored credentials; only their metadata was cleared. */
+  cleared: number;
+  /** Users whose tokens are still in user_metadata; safe to run again. */
+  failed: number;
+}
+
+/**
+ * One-off backfill for migrateLegacySpotifyCredentials: walks every user and
+ * moves tokens still in `user_metadata` into `spotify_credentials`, so users
+ * who never sign in again don't keep plaintext tokens. Credentials already
+ * stored are newer than the metadata and are kept. Safe to run repeatedly.
+ */
+export async function backfillLegacySpotifyCredentials(): Promise<SpotifyCredentialsBackfillResult> {
+  const result: SpotifyCredentialsBackfillResult = {
+    migrated: 0,
+    cleared: 0,
+    failed: 0,
+  };
+  const supabase = createAdminClient();
+
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabase.auth.admin.listUsers({
+      page,
+      perPage: BACKFILL_PAGE_SIZE,
+    });
+    if (error) {
+      throw new Error(`Failed to list users: ${error.message}`);
+    }
+
+    const legacyUsers = data.users.filter(hasLegacySpotifyMetadata);
+    if (legacyUsers.length > 0) {
+      const { data: stored, error: storedError } = await supabase
+        .from("spotify_credentials")
+        .select("user_id")
+        .in(
+          "user_id",
+          legacyUsers.map((user) => user.id)
+        );
+      if (storedError) {
+        throw new Error(
+          `Failed to read stored credentials: ${storedError.message}`
+        );
+      }
+      const storedIds = new Set((stored ?? []).map((row) => row.user_id));
+
+      for (const user of legacyUsers) {
+        const hasStored = storedIds.has(user.id);
+        if (!hasStored) {
+          const saved = await writeSpotifyCredentials(
+            user.id,
+            getLegacySpotifyCredentials(user)
+          );
+          if (!saved) {
+            result.failed++;
+            continue;
+          }
+        }
+
+        if (await clearLegacySpotifyMetadata(user)) {
+          result[hasStored ? "cleared" : "migrated"]++;
+        } else {
+          result.failed++;
+        }
+      }
+    }
+
+    if (data.users.length < BACKFILL_PAGE_SIZE) {
+      return result;
+    }
+  }
+}
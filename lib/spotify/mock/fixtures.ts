@@ -0,0 +1,178 @@
+/**
+ * Seed data for the mock Spotify API. Shapes follow the Web API responses
+ * closely enough for the app's code paths; fields the app never reads are
+ * left out.
+ */
+
+export interface MockSpotifyArtist {
+  id: string;
+  name: string;
+  uri: string;
+}
+
+export interface MockSpotifyTrack {
+  id: string;
+  name: string;
+  uri: string;
+  type: "track";
+  duration_ms: number;
+  is_playable: boolean;
+  preview_url: string | null;
+  artists: MockSpotifyArtist[];
+  album: {
+    id: string;
+    name: string;
+    uri: string;
+    images: { url: string; height: number; width: number }[];
+  };
+}
+
+export interface MockSpotifyPlaylist {
+  id: string;
+  name: string;
+  description: string | null;
+  owner: { id: string; display_name: string };
+  images: { url: string; height: number | null; width: number | null }[];
+  uri: string;
+  snapshot_id: string;
+  public: boolean;
+  trackIds: string[];
+}
+
+export interface MockSpotifyUser {
+  id: string;
+  display_name: string;
+  email: string;
+  country: string;
+  product: "premium" | "free" | "open";
+  uri: string;
+}
+
+export interface MockSpotifyDevice {
+  id: string;
+  name: string;
+  type: string;
+  is_active: boolean;
+  is_restricted: boolean;
+  volume_percent: number;
+}
+
+export interface MockSpotifyFixtures {
+  user: MockSpotifyUser;
+  tracks: MockSpotifyTrack[];
+  playlists: MockSpotifyPlaylist[];
+  devices: MockSpotifyDevice[];
+}
+
+// [id, name, artist, album, duration_ms]
+const SEED_TRACKS: [string, string, string, string, number][] = [
+  ["mocktrack01", "Night Drive", "The Midnights", "Neon Roads", 214000],
+  ["mocktrack02", "Glass Harbor", "The Midnights", "Neon Roads", 187000],
+  ["mocktrack03", "Paper Planes", "Lumen", "Lightweight", 201000],
+  ["mocktrack04", "Slow Orbit", "Lumen", "Lightweight", 243000],
+  ["mocktrack05", "Copper Sky", "Field Notes", "Almanac", 178000],
+  ["mocktrack06", "Low Tide", "Field Notes", "Almanac", 232000],
+  ["mocktrack07", "Static Bloom", "Velvet Arcade", "Reruns", 196000],
+  ["mocktrack08", "Overpass", "Velvet Arcade", "Reruns", 209000],
+];
+
+const toMockId = (prefix: string, name: string) =>
+  `${prefix}${name.replace(/\W/g, "").toLowerCase()}`;
+
+function makeTrack([
+  id,
+  name,
+  artist,
+  album,
+  durationMs,
+]: (typeof SEED_TRACKS)[number]): MockSpotifyTrack {
+  const artistId = toMockId("artist", artist);
+  const albumId = toMockId("album", album);
+  return {
+    id,
+    name,
+    uri: `spotify:track:${id}`,
+    type: "track",
+    duration_ms: durationMs,
+    is_playable: true,
+    preview_url: `https://p.scdn.co/mp3-preview/mock-${id}`,
+    artists: [
+      { id: artistId, name: artist, uri: `spotify:artist:${artistId}` },
+    ],
+    album: {
+      id: albumId,
+      name: album,
+      uri: `spotify:album:${albumId}`,
+      images: [
+        {
+          url: `https://i.scdn.co/image/mock-${albumId}`,
+          height: 640,
+          width: 640,
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * Fresh copy of the seed data. Each mock instance mutates its own copy.
+ */
+export function createDefaultFixtures(): MockSpotifyFixtures {
+  return {
+    user: {
+      id: "mockuser",
+      display_name: "Mock Listener",
+      email: "listener@example.com",
+      country: "NO",
+      product: "premium",
+      uri: "spotify:user:mockuser",
+    },
+    tracks: SEED_TRACKS.map(makeTrack),
+    playlists: [
+      {
+        id: "mockplaylist01",
+        name: "Late Night Mix",
+        description: "Seeded playlist from the mock Spotify API.",
+        owner: { id: "mockuser", display_name: "Mock Listener" },
+        images: [
+          {
+            url: "https://i.scdn.co/image/mock-playlist01",
+            height: 640,
+            width: 640,
+          },
+        ],
+        uri: "spotify:playlist:mockplaylist01",
+        snapshot_id: "mocksnapshot01",
+        public: true,
+        trackIds: ["mocktrack01", "mocktrack02", "mocktrack03", "mocktrack04"],
+      },
+      {
+        id: "mockplaylist02",
+        name: "Morning Field Recordings",
+        description: null,
+        owner: { id: "mockcurator", display_name: "Mock Curator" },
+        images: [],
+        uri: "spotify:playlist:mockplaylist02",
+        snapshot_id: "mocksnapshot02",
+        public: true,
+        trackIds: [
+          "mocktrack05",
+          "mocktrack06",
+          "mocktrack07",
+          "mocktrack08",
+          "mocktrack03",
+        ],
+      },
+    ],
+    devices: [
+      {
+        id: "mockdevice01",
+        name: "Mock Desktop",
+        type: "Computer",
+        is_active: false,
+        is_restricted: false,
+        volume_percent: 50,
+      },
+    ],
+  };
+}
@@ -0,0 +1,59 @@
+import { createServer, type IncomingMessage } from "http";
+import type { AddressInfo } from "net";
+import { createMockSpotify, type MockSpotify } from "@/lib/spotify/mock/server";
+
+/**
+ * Serves a mock over HTTP on a random local port, for tests that exercise the
+ * real fetch path. Set SPOTIFY_API_BASE_URL to `${url}/v1` and
+ * SPOTIFY_ACCOUNTS_BASE_URL to `${url}/accounts` to point the app code at it.
+ */
+export async function startMockSpotifyServer(
+  mock: MockSpotify = createMockSpotify()
+): Promise<{ url: string; mock: MockSpotify; close: () => Promise<void> }> {
+  const readBody = async (req: IncomingMessage) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  const server = createServer(async (req, res) => {
+    try {
+      const body = await readBody(req);
+      const headers = new Headers();
+      Object.entries(req.headers).forEach(([name, value]) => {
+        if (value !== undefined) {
+          headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+        }
+      });
+
+      const response = await mock.handle(
+        new Request(`http://${req.headers.host}${req.url}`, {
+          method: req.method,
+          headers,
+          body: body.length > 0 ? body : undefined,
+        })
+      );
+
+      res.writeHead(response.status, Object.fromEntries(response.headers));
+      res.end(Buffer.from(await response.arrayBuffer()));
+    } catch (error) {
+      console.error("Mock Spotify server error:", error);
+      res.writeHead(500);
+      res.end();
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    mock,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
@@ -0,0 +1,808 @@
+import {
+  createDefaultFixtures,
+  type MockSpotifyFixtures,
+  type MockSpotifyPlaylist,
+  type MockSpotifyTrack,
+} from "@/lib/spotify/mock/fixtures";
+
+/**
+ * In-memory stand-in for the Spotify accounts and Web API endpoints the app
+ * uses. `handle` takes a fetch `Request` and returns a `Response`, so the
+ * same mock backs the dev route (app/api/mock-spotify) and tests, which can
+ * serve it over HTTP with startMockSpotifyServer.
+ *
+ * Requests are routed by path suffix: `.../api/token` is the accounts
+ * service, `.../v1/...` the Web API and `.../__control/...` the scripting
+ * endpoints used to inject failures or reset state over HTTP.
+ */
+
+export type MockSpotifyFailureKind =
+  | "rate_limited"
+  | "premium_required"
+  | "no_active_device"
+  | "not_found"
+  | "unauthorized"
+  | "server_error";
+
+export interface MockSpotifyFailure {
+  kind: MockSpotifyFailureKind;
+  /**
+   * Path prefix below /v1 (or "/api/token"), e.g. "/me/player".
+   * Matches every request if omitted.
+   */
+  path?: string;
+  method?: string;
+  /** How many matching requests fail. Defaults to 1. */
+  times?: number;
+  /** Retry-After for rate_limited failures. Defaults to 1. */
+  retryAfterSeconds?: number;
+}
+
+export interface MockSpotifyRequestLogEntry {
+  method: string;
+  path: string;
+  status: number;
+}
+
+export interface MockSpotify {
+  readonly fixtures: MockSpotifyFixtures;
+  readonly requests: MockSpotifyRequestLogEntry[];
+  /** Makes the next matching request(s) fail the way Spotify would. */
+  fail(failure: MockSpotifyFailure): void;
+  /** Restores seed data, playback state and clears failures and the log. */
+  reset(fixtures?: MockSpotifyFixtures): void;
+  handle(request: Request): Promise<Response>;
+}
+
+type RepeatState = "off" | "track" | "context";
+
+interface PlaybackState {
+  deviceId: string | null;
+  contextUri: string | null;
+  trackUris: string[];
+  index: number;
+  positionMs: number; // Position at startedAt (or frozen while paused)
+  startedAt: number;
+  isPlaying: boolean;
+  shuffle: boolean;
+  repeat: RepeatState;
+}
+
+interface RouteContext {
+  url: URL;
+  body: Record<string, unknown> | null;
+  params: string[];
+}
+
+type RouteHandler = (context: RouteContext) => Response;
+
+const PAGE_LIMIT_MAX = 100;
+
+function json(status: number, body: unknown, headers?: HeadersInit): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+const noContent = () => new Response(null, { status: 204 });
+
+function apiError(status: number, message: string, reason?: string): Response {
+  return json(status, {
+    error: { status, message, ...(reason ? { reason } : {}) },
+  });
+}
+
+function failureResponse(
+  failure: MockSpotifyFailure,
+  service: "accounts" | "api"
+): Response {
+  switch (failure.kind) {
+    case "rate_limited":
+      return json(
+        429,
+        { error: { status: 429, message: "API rate limit exceeded" } },
+        { "Retry-After": String(failure.retryAfterSeconds ?? 1) }
+      );
+    case "premium_required":
+      return apiError(
+        403,
+        "Player command failed: Premium required",
+        "PREMIUM_REQUIRED"
+      );
+    case "no_active_device":
+      return apiError(
+        404,
+        "Player command failed: No active device found",
+        "NO_ACTIVE_DEVICE"
+      );
+    case "not_found":
+      return apiError(404, "Resource not found");
+    case "unauthorized":
+      return service === "accounts"
+        ? json(400, {
+            error: "invalid_grant",
+            error_description: "Invalid refresh token",
+          })
+        : apiError(401, "The access token expired");
+    case "server_error":
+      return apiError(500, "Server error");
+  }
+}
+
+function readIds(context: RouteContext): string[] {
+  const fromBody = context.body?.ids;
+  if (Array.isArray(fromBody)) {
+    return fromBody.map(String);
+  }
+  return (context.url.searchParams.get("ids") ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+function idFromUri(uri: string): string {
+  return uri.split(":").pop() ?? uri;
+}
+
+export function createMockSpotify(
+  initialFixtures: MockSpotifyFixtures = createDefaultFixtures()
+): MockSpotify {
+  let fixtures = initialFixtures;
+  let failures: (MockSpotifyFailure & { remaining: number })[] = [];
+  let savedTrackIds = new Set<string>();
+  let followedPlaylistIds = new Set<string>();
+  let playback: PlaybackState = createPlaybackState();
+  let tokenCounter = 0;
+  const requests: MockSpotifyRequestLogEntry[] = [];
+
+  function createPlaybackState(): PlaybackState {
+    return {
+      deviceId: null,
+      contextUri: null,
+      trackUris: [],
+      index: 0,
+      positionMs: 0,
+      startedAt: Date.now(),
+      isPlaying: false,
+      shuffle: false,
+      repeat: "off",
+    };
+  }
+
+  const findTrack = (id: string): MockSpotifyTrack | undefined =>
+    fixtures.tracks.find((track) => track.id === id);
+
+  const findPlaylist = (id: string): MockSpotifyPlaylist | undefined =>
+    fixtures.playlists.find((playlist) => playlist.id === id);
+
+  const currentTrack = (): MockSpotifyTrack | undefined => {
+    const uri = playback.trackUris[playback.index];
+    return uri ? findTrack(idFromUri(uri)) : undefined;
+  };
+
+  function progressMs(): number {
+    const track = currentTrack();
+    const elapsed = playback.isPlaying ? Date.now() - playback.startedAt : 0;
+    const position = playback.positionMs + elapsed;
+    return track ? Math.min(position, track.duration_ms) : position;
+  }
+
+  function setPosition(positionMs: number) {
+    playback.positionMs = Math.max(0, positionMs);
+    playback.startedAt = Date.now();
+  }
+
+  function activateDevice(deviceId: string) {
+    fixtures.devices.forEach((device) => {
+      device.is_active = device.id === deviceId;
+    });
+    playback.deviceId = deviceId;
+  }
+
+  function takeFailure(
+    method: string,
+    path: string
+  ): MockSpotifyFailure | undefined {
+    const failure = failures.find(
+      (candidate) =>
+        (!candidate.method || candidate.method.toUpperCase() === method) &&
+        (!candidate.path || path.startsWith(candidate.path))
+    );
+    if (!failure) return undefined;
+
+    failure.remaining -= 1;
+    if (failure.remaining <= 0) {
+      failures = failures.filter((candidate) => candidate !== failure);
+    }
+    return failure;
+  }
+
+  // Resolves the device a player command targets, activating it if named
+  function resolveDevice(context: RouteContext): string | Response {
+    const requestedId = context.url.searchParams.get("device_id");
+    if (requestedId) {
+      if (!fixtures.devices.some((device) => device.id === requestedId)) {
+        return apiError(404, "Device not found", "NO_ACTIVE_DEVICE");
+      }
+      activateDevice(requestedId);
+      return requestedId;
+    }
+    if (!playback.deviceId) {
+      return apiError(
+        404,
+        "Player command failed: No active device found",
+        "NO_ACTIVE_DEVICE"
+      );
+    }
+    return playback.deviceId;
+  }
+
+  function playlistTracksPage(
+    playlist: MockSpotifyPlaylist,
+    url: URL,
+    offset: number,
+    limit: number
+  ) {
+    const total = playlist.trackIds.length;
+    const href = `${url.origin}${url.pathname.replace(/\/tracks$/, "")}/tracks`;
+    const pageUrl = (pageOffset: number) =>
+      `${href}?offset=${pageOffset}&limit=${limit}`;
+
+    return {
+      href: pageUrl(offset),
+      items: playlist.trackIds
+        .slice(offset, offset + limit)
+        .map((trackId) => ({
+          added_at: "2025-01-01T00:00:00Z",
+          is_local: false,
+          track: findTrack(trackId) ?? null,
+        })),
+      limit,
+      offset,
+      total,
+      next: offset + limit < total ? pageUrl(offset + limit) : null,
+      previous: offset > 0 ? pageUrl(Math.max(0, offset - limit)) : null,
+    };
+  }
+
+  function playbackStateBody() {
+    const device = fixtures.devices.find(
+      (candidate) => candidate.id === playback.deviceId
+    );
+    return {
+      device,
+      shuffle_state: playback.shuffle,
+      repeat_state: playback.repeat,
+      timestamp: Date.now(),
+      progress_ms: progressMs(),
+      is_playing: playback.isPlaying,
+      item: currentTrack() ?? null,
+      context: playback.contextUri
+        ? {
+            type: "playlist",
+            uri: playback.contextUri,
+            href: null,
+            external_urls: {},
+          }
+        : null,
+      currently_playing_type: "track",
+      actions: { disallows: playback.isPlaying ? {} : { pausing: true } },
+    };
+  }
+
+  function skip(direction: 1 | -1) {
+    const nextIndex = playback.index + direction;
+    if (nextIndex >= 0 && nextIndex < playback.trackUris.length) {
+      playback.index = nextIndex;
+    } else if (playback.repeat === "context" && playback.trackUris.length) {
+      playback.index =
+        (nextIndex + playback.trackUris.length) % playback.trackUris.length;
+    } else if (direction === 1) {
+      playback.isPlaying = false; // End of context
+    }
+    setPosition(0);
+  }
+
+  const premiumOnly =
+    (handler: RouteHandler): RouteHandler =>
+    (context) =>
+      fixtures.user.product === "premium"
+        ? handler(context)
+        : failureResponse({ kind: "premium_required" }, "api");
+
+  const apiRoutes: [string, RegExp, RouteHandler][] = [
+    ["GET", /^\/me$/, () => json(200, fixtures.user)],
+    [
+      "GET",
+      /^\/me\/player$/,
+      () => (playback.deviceId ? json(200, playbackStateBody()) : noContent()),
+    ],
+    [
+      "GET",
+      /^\/me\/player\/devices$/,
+      () => json(200, { devices: fixtures.devices }),
+    ],
+    [
+      "PUT",
+      /^\/me\/player$/,
+      premiumOnly(({ body }) => {
+        const [deviceId] = (body?.device_ids as string[] | undefined) ?? [];
+        if (!fixtures.devices.some((device) => device.id === deviceId)) {
+          return apiError(404, "Device not found", "NO_ACTIVE_DEVICE");
+        }
+        const position = progressMs();
+        activateDevice(deviceId);
+        if (body?.play === true) playback.isPlaying = true;
+        setPosition(position);
+        return noContent();
+      }),
+    ],
+    [
+      "PUT",
+      /^\/me\/player\/play$/,
+      premiumOnly((context) => {
+        const device = resolveDevice(context);
+        if (device instanceof Response) return device;
+
+        const { body } = context;
+        const offset = body?.offset as
+          | { uri?: string; position?: number }
+          | undefined;
+
+        if (typeof body?.context_uri === "string") {
+          const playlist = findPlaylist(idFromUri(body.context_uri));
+          if (!playlist) return apiError(404, "Context not found");
+          playback.contextUri = body.context_uri;
+          playback.trackUris = playlist.trackIds.map(
+            (trackId) => `spotify:track:${trackId}`
+          );
+        } else if (Array.isArray(body?.uris)) {
+          playback.contextUri = null;
+          playback.trackUris = body.uris.map(String);
+        }
+
+        if (body?.context_uri || body?.uris) {
+          const offsetIndex = offset?.uri
+            ? playback.trackUris.indexOf(offset.uri)
+            : offset?.position ?? 0;
+          if (offsetIndex < 0 || offsetIndex >= playback.trackUris.length) {
+            return apiError(400, "Invalid offset");
+          }
+          playback.index = offsetIndex;
+          setPosition(0);
+        } else if (!playback.trackUris.length) {
+          return apiError(404, "Nothing to resume");
+        } else {
+          setPosition(progressMs());
+        }
+
+        if (typeof body?.position_ms === "number") {
+          setPosition(body.position_ms);
+        }
+        playback.isPlaying = true;
+        return noContent();
+      }),
+    ],
+    [
+      "PUT",
+      /^\/me\/player\/pause$/,
+      premiumOnly((context) => {
+        const device = resolveDevice(context);
+        if (device instanceof Response) return device;
+        setPosition(progressMs());
+        playback.isPlaying = false;
+        return noContent();
+      }),
+    ],
+    [
+      "POST",
+      /^\/me\/player\/next$/,
+      premiumOnly((context) => {
+        const device = resolveDevice(context);
+        if (device instanceof Response) return device;
+        skip(1);
+        return noContent();
+      }),
+    ],
+    [
+      "POST",
+      /^\/me\/player\/previous$/,
+      premiumOnly((context) => {
+        const device = resolveDevice(context);
+        if (device instanceof Response) return device;
+        skip(-1);
+        return noContent();
+      }),
+    ],
+    [
+      "PUT",
+      /^\/me\/player\/seek$/,
+      premiumOnly((context) => {
+        const device = resolveDevice(context);
+        if (device instanceof Response) return device;
+        const positionMs = Number(context.url.searchParams.get("position_ms"));
+        if (!Number.isFinite(positionMs)) {
+          return apiError(400, "Missing position_ms");
+        }
+        setPosition(positionMs);
+        return noContent();
+      }),
+    ],
+    [
+      "PUT",
+      /^\/me\/player\/shuffle$/,
+      premiumOnly((context) => {
+        const device = resolveDevice(context);
+        if (device instanceof Response) return device;
+        playback.shuffle = context.url.searchParams.get("state") === "true";
+        return noContent();
+      }),
+    ],
+    [
+      "PUT",
+      /^\/me\/player\/repeat$/,
+      premiumOnly((context) => {
+        const device = resolveDevice(context);
+        if (device instanceof Response) return device;
+        const state = context.url.searchParams.get("state");
+        if (state !== "off" && state !== "track" && state !== "context") {
+          return apiError(400, "Invalid repeat state");
+        }
+        playback.repeat = state;
+        return noContent();
+      }),
+    ],
+    [
+      "PUT",
+      /^\/me\/player\/volume$/,
+      premiumOnly((context) => {
+        const deviceId = resolveDevice(context);
+        if (deviceId instanceof Response) return deviceId;
+        const volume = Number(context.url.searchParams.get("volume_percent"));
+        if (!Number.isFinite(volume) || volume < 0 || volume > 100) {
+          return apiError(400, "Invalid volume_percent");
+        }
+        const device = fixtures.devices.find((item) => item.id === deviceId);
+        if (device) device.volume_percent = volume;
+        return noContent();
+      }),
+    ],
+    [
+      "GET",
+      /^\/me\/tracks\/contains$/,
+      (context) => {
+        const ids = readIds(context);
+        if (ids.length > 50) return apiError(400, "Too many ids requested");
+        return json(200, ids.map((id) => savedTrackIds.has(id)));
+      },
+    ],
+    [
+      "PUT",
+      /^\/me\/tracks$/,
+      (context) => {
+        const ids = readIds(context);
+        if (!ids.length) return apiError(400, "Missing ids");
+        if (ids.some((id) => !findTrack(id))) {
+          return apiError(404, "Non existing id");
+        }
+        ids.forEach((id) => savedTrackIds.add(id));
+        return new Response(null, { status: 200 });
+      },
+    ],
+    [
+      "DELETE",
+      /^\/me\/tracks$/,
+      (context) => {
+        readIds(context).forEach((id) => savedTrackIds.delete(id));
+        return new Response(null, { status: 200 });
+      },
+    ],
+    [
+      "GET",
+      /^\/playlists\/([^/]+)$/,
+      ({ url, params: [playlistId] }) => {
+        const playlist = findPlaylist(playlistId);
+        if (!playlist) return apiError(404, "Resource not found");
+        return json(200, {
+          id: playlist.id,
+          name: playlist.name,
+          description: playlist.description,
+          owner: playlist.owner,
+          images: playlist.images,
+          uri: playlist.uri,
+          snapshot_id: playlist.snapshot_id,
+          public: playlist.public,
+          type: "playlist",
+          followers: { total: followedPlaylistIds.has(playlist.id) ? 1 : 0 },
+          tracks: playlistTracksPage(playlist, url, 0, PAGE_LIMIT_MAX),
+        });
+      },
+    ],
+    [
+      "GET",
+      /^\/playlists\/([^/]+)\/tracks$/,
+      ({ url, params: [playlistId] }) => {
+        const playlist = findPlaylist(playlistId);
+        if (!playlist) return apiError(404, "Resource not found");
+        const offset = Math.max(0, Number(url.searchParams.get("offset")) || 0);
+        const limit = Math.min(
+          PAGE_LIMIT_MAX,
+          Math.max(1, Number(url.searchParams.get("limit")) || PAGE_LIMIT_MAX)
+        );
+        return json(200, playlistTracksPage(playlist, url, offset, limit));
+      },
+    ],
+    [
+      "POST",
+      /^\/users\/([^/]+)\/playlists$/,
+      ({ body, params: [userId] }) => {
+        if (userId !== fixtures.user.id) {
+          return apiError(
+            403,
+            "You cannot create a playlist for another user"
+          );
+        }
+        if (typeof body?.name !== "string" || !body.name) {
+          return apiError(400, "Missing required field: name");
+        }
+        const id = `mockcreated${fixtures.playlists.length + 1}`;
+        const playlist: MockSpotifyPlaylist = {
+          id,
+          name: body.name,
+          description:
+            typeof body.description === "string" ? body.description : null,
+          owner: {
+            id: fixtures.user.id,
+            display_name: fixtures.user.display_name,
+          },
+          images: [],
+          uri: `spotify:playlist:${id}`,
+          snapshot_id: `${id}-snapshot-0`,
+          public: body.public !== false,
+          trackIds: [],
+        };
+        fixtures.playlists.push(playlist);
+        return json(201, {
+          id: playlist.id,
+          name: playlist.name,
+          description: playlist.description,
+          owner: playlist.owner,
+          public: playlist.public,
+          uri: playlist.uri,
+          snapshot_id: playlist.snapshot_id,
+          external_urls: {
+            spotify: `https://open.spotify.com/playlist/${id}`,
+          },
+        });
+      },
+    ],
+    [
+      "POST",
+      /^\/playlists\/([^/]+)\/tracks$/,
+      ({ body, params: [playlistId] }) => {
+        const playlist = findPlaylist(playlistId);
+        if (!playlist) return apiError(404, "Resource not found");
+        if (playlist.owner.id !== fixtures.user.id) {
+          return apiError(
+            403,
+            "You cannot add tracks to a playlist you don't own."
+          );
+        }
+        const uris = (body?.uris as string[] | undefined) ?? [];
+        if (uris.length === 0) return apiError(400, "No uris provided");
+        if (uris.length > PAGE_LIMIT_MAX) {
+          return apiError(
+            400,
+            "You can add a maximum of 100 tracks per request."
+          );
+        }
+        const ids = uris.map(idFromUri);
+        if (ids.some((id) => !findTrack(id))) {
+          return apiError(400, "Invalid track uri");
+        }
+        playlist.trackIds.push(...ids);
+        const count = playlist.trackIds.length;
+        playlist.snapshot_id = `${playlistId}-snapshot-${count}`;
+        return json(201, { snapshot_id: playlist.snapshot_id });
+      },
+    ],
+    [
+      "PUT",
+      /^\/playlists\/([^/]+)\/followers$/,
+      ({ params: [playlistId] }) => {
+        if (!findPlaylist(playlistId)) {
+          return apiError(404, "Resource not found");
+        }
+        followedPlaylistIds.add(playlistId);
+        return new Response(null, { status: 200 });
+      },
+    ],
+    [
+      "DELETE",
+      /^\/playlists\/([^/]+)\/followers$/,
+      ({ params: [playlistId] }) => {
+        followedPlaylistIds.delete(playlistId);
+        return new Response(null, { status: 200 });
+      },
+    ],
+    [
+      "GET",
+      /^\/playlists\/([^/]+)\/followers\/contains$/,
+      (context) => {
+        const [playlistId] = context.params;
+        if (!findPlaylist(playlistId)) {
+          return apiError(404, "Resource not found");
+        }
+        return json(
+          200,
+          readIds(context).map(
+            (userId) =>
+              userId === fixtures.user.id && followedPlaylistIds.has(playlistId)
+          )
+        );
+      },
+    ],
+  ];
+
+  function handleToken(request: Request, form: URLSearchParams): Response {
+    if (!request.headers.get("Authorization")?.startsWith("Basic ")) {
+      return json(400, {
+        error: "invalid_client",
+        error_description: "Invalid client",
+      });
+    }
+
+    tokenCounter += 1;
+    const grantType = form.get("grant_type");
+    if (grantType === "client_credentials") {
+      return json(200, {
+        access_token: `mock-app-token-${tokenCounter}`,
+        token_type: "Bearer",
+        expires_in: 3600,
+      });
+    }
+    if (grantType === "refresh_token" && form.get("refresh_token")) {
+      return json(200, {
+        access_token: `mock-user-token-${tokenCounter}`,
+        token_type: "Bearer",
+        expires_in: 3600,
+        scope: "streaming user-read-email user-read-private",
+      });
+    }
+    return json(400, {
+      error: "unsupported_grant_type",
+      error_description:
+        "grant_type must be client_credentials or refresh_token",
+    });
+  }
+
+  function handleControl(
+    method: string,
+    path: string,
+    body: Record<string, unknown> | null
+  ): Response {
+    if (path === "/failures" && method === "POST" && body?.kind) {
+      mock.fail(body as unknown as MockSpotifyFailure);
+      return noContent();
+    }
+    if (path === "/failures" && method === "DELETE") {
+      failures = [];
+      return noContent();
+    }
+    if (path === "/reset" && method === "POST") {
+      mock.reset();
+      return noContent();
+    }
+    if (path === "/user" && method === "POST" && body) {
+      Object.assign(fixtures.user, body);
+      return json(200, fixtures.user);
+    }
+    if (path === "/requests" && method === "GET") {
+      return json(200, requests);
+    }
+    return apiError(404, "Unknown control endpoint");
+  }
+
+  const mock: MockSpotify = {
+    get fixtures() {
+      return fixtures;
+    },
+    requests,
+    fail(failure) {
+      failures.push({ ...failure, remaining: failure.times ?? 1 });
+    },
+    reset(nextFixtures = createDefaultFixtures()) {
+      fixtures = nextFixtures;
+      failures = [];
+      savedTrackIds = new Set();
+      followedPlaylistIds = new Set();
+      playback = createPlaybackState();
+      requests.length = 0;
+    },
+    async handle(request) {
+      const url = new URL(request.url);
+      const method = request.method.toUpperCase();
+      const rawBody = await request.text();
+
+      // Form bodies (token endpoint) are parsed by handleToken
+      let body: Record<string, unknown> | null = null;
+      if (rawBody && !request.headers.get("Content-Type")?.includes("form")) {
+        try {
+          body = JSON.parse(rawBody);
+        } catch {
+          return apiError(400, "Malformed JSON body");
+        }
+      }
+
+      const controlIndex = url.pathname.indexOf("/__control/");
+      if (controlIndex >= 0) {
+        return handleControl(
+          method,
+          url.pathname.slice(controlIndex + "/__control".length),
+          body
+        );
+      }
+
+      let service: "accounts" | "api";
+      let path: string;
+      if (url.pathname.endsWith("/api/token")) {
+        service = "accounts";
+        path = "/api/token";
+      } else {
+        const apiIndex = url.pathname.indexOf("/v1/");
+        if (apiIndex < 0) return apiError(404, "Service not found");
+        service = "api";
+        path = url.pathname.slice(apiIndex + "/v1".length);
+      }
+
+      const respond = (response: Response) => {
+        requests.push({ method, path, status: response.status });
+        return response;
+      };
+
+      const failure = takeFailure(method, path);
+      if (failure) {
+        return respond(failureResponse(failure, service));
+      }
+
+      if (service === "accounts") {
+        if (method !== "POST") {
+          return respond(apiError(405, "Method not allowed"));
+        }
+        return respond(handleToken(request, new URLSearchParams(rawBody)));
+      }
+
+      if (!request.headers.get("Authorization")?.startsWith("Bearer ")) {
+        return respond(apiError(401, "No token provided"));
+      }
+
+      for (const [routeMethod, pattern, handler] of apiRoutes) {
+        const match = path.match(pattern);
+        if (match && routeMethod === method) {
+          const params = match.slice(1).map(decodeURIComponent);
+          return respond(handler({ url, body, params }));
+        }
+      }
+      return respond(apiError(404, "Service not found"));
+    },
+  };
+
+  return mock;
+}
+
+// Survives module reloads in `next dev`, so scripted failures and playback
+// state persist between requests
+const globalForMock = globalThis as typeof globalThis & {
+  __mockSpotify?: MockSpotify;
+};
+
+/**
+ * The process-wide mock used by the dev route.
+ */
+export function getSharedMockSpotify(): MockSpotify {
+  if (!globalForMock.__mockSpotify) {
+    globalForMock.__mockSpotify = createMockSpotify();
+  }
+  return globalForMock.__mockSpotify;
+}
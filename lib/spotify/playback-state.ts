@@ -0,0 +1,348 @@
+/**
+ * Helpers for interpreting playback state, from the Web Playback SDK, from
+ * the Web API's `/me/player` (for remote Spotify Connect devices) and from
+ * preview clips played without Premium.
+ */
+
+import type { SimplePlaylistTrack } from "@/lib/types/index";
+
+export type ContextEndReason = "finished" | "autoplay";
+
+export interface ContextEndEvent {
+  // The context that ran out, null when tracks were played by URI
+  contextUri: string | null;
+  // What Spotify switched to, only set for autoplay
+  nextContextUri: string | null;
+  reason: ContextEndReason;
+}
+
+const getContextUri = (state: Spotify.PlaybackState) =>
+  state.context?.uri || null;
+
+/**
+ * Compares two consecutive SDK states and reports whether the playing
+ * context just ended. Only transitions away from the context's last track
+ * count:
+ * - finished: the last track played out and the player stopped, which the
+ *   SDK reports as paused at position 0 with the track in previous_tracks
+ * - autoplay: Spotify moved on to a different context by itself (its radio
+ *   or recommendations) instead of stopping
+ */
+export function detectContextEnd(
+  previous: Spotify.PlaybackState | null,
+  current: Spotify.PlaybackState | null
+): ContextEndEvent | null {
+  if (!previous || !current || previous.paused) return null;
+  if (previous.track_window.next_tracks.length > 0) return null;
+
+  const previousTrack = previous.track_window.current_track;
+  const currentTrack = current.track_window.current_track;
+  const contextUri = getContextUri(previous);
+
+  if (
+    currentTrack?.uri === previousTrack?.uri &&
+    current.paused &&
+    current.position === 0 &&
+    current.track_window.previous_tracks.some(
+      (track) => track.uri === currentTrack?.uri
+    )
+  ) {
+    return { contextUri, nextContextUri: null, reason: "finished" };
+  }
+
+  const nextContextUri = getContextUri(current);
+  if (
+    currentTrack?.uri !== previousTrack?.uri &&
+    nextContextUri !== contextUri
+  ) {
+    return { contextUri, nextContextUri, reason: "autoplay" };
+  }
+
+  return null;
+}
+
+// How far off a polled state's estimated position may be from the track's
+// end for the track to count as played out
+const REMOTE_END_TOLERANCE_MS = 1500;
+
+/**
+ * detectContextEnd for states polled from `/me/player` (toSdkPlaybackState),
+ * which have no previous or next tracks. Instead, the previous state must
+ * have been playing into the end of its track by the time of the current
+ * sample:
+ * - finished: playback stopped at position 0 of the same track, or Spotify
+ *   reports nothing playing anymore (current is null)
+ * - autoplay: a different track from a different context is playing
+ * @param sampledAt When `current` was polled, in the same clock as the
+ *   states' timestamps.
+ */
+export function detectRemoteContextEnd(
+  previous: Spotify.PlaybackState | null,
+  current: Spotify.PlaybackState | null,
+  sampledAt: number
+): ContextEndEvent | null {
+  if (!previous || previous.paused) return null;
+
+  const estimatedPosition =
+    previous.position + (sampledAt - previous.timestamp);
+  if (estimatedPosition < previous.duration - REMOTE_END_TOLERANCE_MS) {
+    return null;
+  }
+
+  const previousTrack = previous.track_window.current_track;
+  const contextUri = getContextUri(previous);
+  if (!current) {
+    return { contextUri, nextContextUri: null, reason: "finished" };
+  }
+
+  const currentTrack = current.track_window.current_track;
+  if (
+    currentTrack?.uri === previousTrack?.uri &&
+    current.paused &&
+    current.position === 0
+  ) {
+    return { contextUri, nextContextUri: null, reason: "finished" };
+  }
+
+  const nextContextUri = getContextUri(current);
+  if (
+    currentTrack?.uri !== previousTrack?.uri &&
+    nextContextUri !== contextUri
+  ) {
+    return { contextUri, nextContextUri, reason: "autoplay" };
+  }
+
+  return null;
+}
+
+// --- Web API playback state ---
+
+export interface SpotifyDevice {
+  id: string | null; // Null for devices that can't be targeted by ID
+  name: string;
+  type: string; // e.g. "Computer", "Smartphone", "Speaker"
+  is_active: boolean;
+  is_restricted: boolean; // Restricted devices accept no Web API commands
+  volume_percent: number | null;
+}
+
+export interface SpotifyApiTrack {
+  id: string | null;
+  uri: string;
+  name: string;
+  type: "track" | "episode";
+  duration_ms: number;
+  is_playable?: boolean;
+  artists?: { name: string; uri: string }[];
+  album?: {
+    name: string;
+    uri: string;
+    images: { url: string; height?: number | null; width?: number | null }[];
+  };
+  linked_from?: { id: string | null; uri: string | null };
+}
+
+// Repeat states as the Web API names them
+export type SpotifyRepeatState = "off" | "context" | "track";
+
+/**
+ * Response of `GET /me/player`, reduced to the fields the player uses.
+ */
+export interface SpotifyApiPlaybackState {
+  device: SpotifyDevice;
+  repeat_state: SpotifyRepeatState;
+  shuffle_state: boolean;
+  context: { uri: string } | null;
+  timestamp: number;
+  progress_ms: number | null;
+  is_playing: boolean;
+  item: SpotifyApiTrack | null;
+  actions?: { disallows?: Spotify.PlaybackDisallows };
+}
+
+const REPEAT_MODES: Record<
+  SpotifyRepeatState,
+  Spotify.PlaybackState["repeat_mode"]
+> = {
+  off: 0,
+  context: 1,
+  track: 2,
+};
+
+// In the order a repeat button cycles through them
+export const REPEAT_STATES: SpotifyRepeatState[] = ["off", "context", "track"];
+
+/**
+ * Reads the SDK's numeric `repeat_mode` as a Web API repeat state.
+ */
+export function toRepeatState(
+  repeatMode: Spotify.PlaybackState["repeat_mode"] | undefined
+): SpotifyRepeatState {
+  return REPEAT_STATES[repeatMode ?? 0] ?? "off";
+}
+
+/**
+ * The repeat state after `current` that `disallows` permits. Turning repeat
+ * off is always allowed.
+ */
+export function getNextRepeatState(
+  current: SpotifyRepeatState,
+  disallows: Spotify.PlaybackDisallows = {}
+): SpotifyRepeatState {
+  const isAllowed = (state: SpotifyRepeatState) =>
+    state === "off" ||
+    (state === "context"
+      ? !disallows.toggling_repeat_context
+      : !disallows.toggling_repeat_track);
+
+  const start = REPEAT_STATES.indexOf(current);
+  for (let step = 1; step <= REPEAT_STATES.length; step++) {
+    const next = REPEAT_STATES[(start + step) % REPEAT_STATES.length];
+    if (isAllowed(next)) return next;
+  }
+  return "off";
+}
+
+function toSdkTrack(track: SpotifyApiTrack): Spotify.Track {
+  return {
+    id: track.id,
+    uri: track.uri,
+    uid: track.uri,
+    name: track.name,
+    type: track.type,
+    media_type: "audio",
+    track_type: "audio",
+    duration_ms: track.duration_ms,
+    is_playable: track.is_playable ?? true,
+    artists: (track.artists ?? []).map((artist) => ({
+      name: artist.name,
+      uri: artist.uri,
+      url: "",
+    })),
+    album: {
+      name: track.album?.name ?? "",
+      uri: track.album?.uri ?? "",
+      images: track.album?.images ?? [],
+    },
+    linked_from: {
+      id: track.linked_from?.id ?? null,
+      uri: track.linked_from?.uri ?? null,
+    },
+  };
+}
+
+/**
+ * Converts a Web API playback state into the SDK's shape, so the player UI
+ * and room sync can treat a remote device like the in-browser player.
+ * `sampledAt` is the local time the state was received; the API's own
+ * `timestamp` is Spotify's clock. The state doesn't include the queue, so
+ * previous and next tracks are empty.
+ * Returns null when nothing is playing (no track loaded).
+ */
+export function toSdkPlaybackState(
+  state: SpotifyApiPlaybackState,
+  sampledAt: number
+): Spotify.PlaybackState | null {
+  if (!state.item) return null;
+
+  const disallows = state.actions?.disallows ?? {};
+  return {
+    context: { uri: state.context?.uri ?? null, metadata: null },
+    disallows: {
+      pausing: disallows.pausing,
+      resuming: disallows.resuming,
+      seeking: disallows.seeking,
+      skipping_next: disallows.skipping_next,
+      skipping_prev: disallows.skipping_prev,
+      toggling_repeat_context: disallows.toggling_repeat_context,
+      toggling_repeat_track: disallows.toggling_repeat_track,
+      toggling_shuffle: disallows.toggling_shuffle,
+    },
+    duration: state.item.duration_ms,
+    paused: !state.is_playing,
+    position: state.progress_ms ?? 0,
+    loading: false,
+    timestamp: sampledAt,
+    repeat_mode: REPEAT_MODES[state.repeat_state] ?? 0,
+    shuffle: state.shuffle_state,
+    restrictions: {},
+    track_window: {
+      current_track: toSdkTrack(state.item),
+      previous_tracks: [],
+      next_tracks: [],
+    },
+    playback_id: "",
+    playback_quality: "",
+    playback_features: { hifi_status: "" },
+  };
+}
+
+// --- Preview playback ---
+
+/**
+ * Converts a room playlist track into the SDK's track shape.
+ */
+export function toSdkPlaylistTrack(track: SimplePlaylistTrack): Spotify.Track {
+  return {
+    id: track.id,
+    uri: track.uri,
+    uid: track.uri,
+    name: track.name,
+    type: "track",
+    media_type: "audio",
+    track_type: "audio",
+    duration_ms: track.durationMs,
+    is_playable: !!track.previewUrl,
+    artists: track.artists.map((name) => ({ name, uri: "", url: "" })),
+    album: {
+      name: track.albumName,
+      uri: "",
+      images: track.imageUrl ? [{ url: track.imageUrl }] : [],
+    },
+    linked_from: { id: null, uri: null },
+  };
+}
+
+export interface PreviewPlaybackSample {
+  track: SimplePlaylistTrack;
+  nextTracks: SimplePlaylistTrack[];
+  positionMs: number;
+  durationMs: number; // Length of the preview clip, not the full track
+  paused: boolean;
+}
+
+/**
+ * Describes a preview clip played through an audio element in the SDK's
+ * playback state shape. There is no Spotify context, and repeat and
+ * shuffle are unavailable.
+ */
+export function toPreviewPlaybackState(
+  sample: PreviewPlaybackSample,
+  sampledAt: number
+): Spotify.PlaybackState {
+  return {
+    context: { uri: null, metadata: null },
+    disallows: {
+      skipping_next: sample.nextTracks.length === 0,
+      toggling_repeat_context: true,
+      toggling_repeat_track: true,
+      toggling_shuffle: true,
+    },
+    duration: sample.durationMs,
+    paused: sample.paused,
+    position: sample.positionMs,
+    loading: false,
+    timestamp: sampledAt,
+    repeat_mode: 0,
+    shuffle: false,
+    restrictions: {},
+    track_window: {
+      current_track: toSdkPlaylistTrack(sample.track),
+      previous_tracks: [],
+      next_tracks: sample.nextTracks.map(toSdkPlaylistTrack),
+    },
+    playback_id: "",
+    playback_quality: "",
+    playback_features: { hifi_status: "" },
+  };
+}
@@ -0,0 +1,73 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+/**
+ * AES-256-GCM encryption for Spotify tokens at rest. The key comes from
+ * SPOTIFY_TOKEN_ENCRYPTION_KEY (32 bytes, base64), e.g. generated with
+ * `openssl rand -base64 32`. It never leaves the app server, so a database
+ * dump alone does not expose usable tokens.
+ */
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+// Prefix lets us rotate the format or key later without guessing
+const PAYLOAD_VERSION = "v1";
+
+function getEncryptionKey(): Buffer {
+  const encodedKey = process.env.SPOTIFY_TOKEN_ENCRYPTION_KEY;
+  if (!encodedKey) {
+    throw new Error("SPOTIFY_TOKEN_ENCRYPTION_KEY is not set.");
+  }
+  const key = Buffer.from(encodedKey, "base64");
+  if (key.length !== 32) {
+    throw new Error("SPOTIFY_TOKEN_ENCRYPTION_KEY must be 32 bytes (base64).");
+  }
+  return key;
+}
+
+/**
+ * @returns `v1:<iv>:<auth tag>:<ciphertext>`, each part base64 encoded.
+ */
+export function encryptToken(plaintext: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+  const authTag = cipher.getAuthTag();
+
+  return [
+    PAYLOAD_VERSION,
+    iv.toString("base64"),
+    authTag.toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+/**
+ * Reverses encryptToken. Throws if the payload is malformed, was encrypted
+ * with a different key, or has been tampered with.
+ */
+export function decryptToken(payload: string): string {
+  const [version, iv, authTag, ciphertext] = payload.split(":");
+  if (
+    version !== PAYLOAD_VERSION ||
+    !iv ||
+    !authTag ||
+    ciphertext === undefined
+  ) {
+    throw new Error("Unrecognized encrypted token format.");
+  }
+
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    getEncryptionKey(),
+    Buffer.from(iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
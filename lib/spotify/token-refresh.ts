@@ -0,0 +1,177 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { spotifyAccountsRequest } from "@/lib/spotify/client";
+import {
+  readSpotifyCredentials,
+  writeSpotifyCredentials,
+  type SpotifyCredentials,
+} from "@/lib/spotify/credentials";
+
+/**
+ * The one place user tokens get refreshed. Refreshes are single-flight per
+ * user: concurrent callers in this process share one promise, and a lease on
+ * the user's `spotify_credentials` row keeps other server instances out.
+ * Whoever holds the lease persists the new access token and, when Spotify
+ * rotates it, the new refresh token; everyone else waits for that write.
+ */
+
+// Refresh this long before expiry so in-flight requests don't race it
+export const TOKEN_EXPIRY_BUFFER_SECONDS = 60;
+// Longer than a refresh with retries takes; an expired lease can be taken over
+const REFRESH_LEASE_SECONDS = 15;
+const LEASE_POLL_INTERVAL_MS = 250;
+
+export type SpotifyRefreshResult =
+  | { credentials: SpotifyCredentials; error?: never }
+  | { credentials?: never; error: string };
+
+interface SpotifyTokenResponse {
+  access_token?: string;
+  expires_in?: number;
+  refresh_token?: string;
+}
+
+const inFlightRefreshes = new Map<string, Promise<SpotifyRefreshResult>>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function isTokenExpiring(credentials: SpotifyCredentials): boolean {
+  return (
+    credentials.expiresAt !== null &&
+    credentials.expiresAt <
+      Math.floor(Date.now() / 1000) + TOKEN_EXPIRY_BUFFER_SECONDS
+  );
+}
+
+async function acquireRefreshLease(userId: string): Promise<boolean> {
+  try {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase.rpc(
+      "acquire_spotify_refresh_lease",
+      { p_user_id: userId, p_lease_seconds: REFRESH_LEASE_SECONDS }
+    );
+    if (error) {
+      // Better to risk a duplicate refresh than to block the user
+      console.error("acquireRefreshLease Error:", error);
+      return true;
+    }
+    return data === true;
+  } catch (error) {
+    console.error("acquireRefreshLease Error: Unexpected error", error);
+    return true;
+  }
+}
+
+async function releaseRefreshLease(userId: string): Promise<void> {
+  try {
+    const supabase = createAdminClient();
+    const { error } = await supabase.rpc("release_spotify_refresh_lease", {
+      p_user_id: userId,
+    });
+    if (error) {
+      console.error("releaseRefreshLease Error:", error);
+    }
+  } catch (error) {
+    console.error("releaseRefreshLease Error: Unexpected error", error);
+  }
+}
+
+// Another instance holds the lease: wait for it to store a fresh token
+async function waitForRefreshedCredentials(
+  userId: string
+): Promise<SpotifyRefreshResult> {
+  const deadline = Date.now() + REFRESH_LEASE_SECONDS * 1000;
+  while (Date.now() < deadline) {
+    await sleep(LEASE_POLL_INTERVAL_MS);
+    const credentials = await readSpotifyCredentials(userId);
+    if (credentials?.accessToken && !isTokenExpiring(credentials)) {
+      return { credentials };
+    }
+  }
+  console.error(
+    `waitForRefreshedCredentials Error: Timed out waiting for refresh of user ${userId}.`
+  );
+  return { error: "Failed to refresh Spotify token. Please try again." };
+}
+
+async function runRefresh(
+  userId: string,
+  fallbackRefreshToken: string
+): Promise<SpotifyRefreshResult> {
+  const leaseAcquired = await acquireRefreshLease(userId);
+  if (!leaseAcquired) {
+    return waitForRefreshedCredentials(userId);
+  }
+
+  try {
+    // Another instance may have finished a refresh since the caller's read
+    const latest = await readSpotifyCredentials(userId);
+    if (latest?.accessToken && !isTokenExpiring(latest)) {
+      return { credentials: latest };
+    }
+
+    const refreshToken = latest?.refreshToken ?? fallbackRefreshToken;
+    const result = await spotifyAccountsRequest<SpotifyTokenResponse>({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    });
+
+    if (!result.ok) {
+      console.error(
+        `refreshSpotifyCredentials Error (${result.error.kind}): Failed to refresh token.`,
+        result.error.message
+      );
+      return { error: "Failed to refresh Spotify token. Please re-login." };
+    }
+
+    const data = result.data;
+    // Check if the expected fields are present
+    if (!data?.access_token || typeof data.expires_in !== "number") {
+      console.error(
+        "refreshSpotifyCredentials Error: Invalid response format from Spotify."
+      );
+      return { error: "Failed to refresh Spotify token. Please re-login." };
+    }
+
+    const credentials: SpotifyCredentials = {
+      accessToken: data.access_token,
+      // Spotify may rotate the refresh token; the old one stops working then
+      refreshToken: data.refresh_token ?? refreshToken,
+      expiresAt: Math.floor(Date.now() / 1000) + data.expires_in,
+    };
+
+    const saved = await writeSpotifyCredentials(userId, credentials);
+    if (!saved) {
+      console.error(
+        "refreshSpotifyCredentials Error: Failed to save refreshed token."
+      );
+      return { error: "Failed to save refreshed Spotify token." };
+    }
+
+    return { credentials };
+  } finally {
+    await releaseRefreshLease(userId);
+  }
+}
+
+/**
+ * Refreshes a user's access token and persists the result.
+ * @param userId The Supabase user the credentials belong to.
+ * @param refreshToken The caller's refresh token, used if the stored
+ *   credentials can't be re-read.
+ * @returns The fresh credentials, or a user-facing error message.
+ */
+export function refreshSpotifyCredentials(
+  userId: string,
+  refreshToken: string
+): Promise<SpotifyRefreshResult> {
+  const inFlight = inFlightRefreshes.get(userId);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const refresh = runRefresh(userId, refreshToken).finally(() => {
+    inFlightRefreshes.delete(userId);
+  });
+  inFlightRefreshes.set(userId, refresh);
+  return refresh;
+}
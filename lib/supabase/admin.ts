@@ -0,0 +1,25 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+import { Database } from '@/lib/types/database.types'
+
+/**
+ * Service-role client for server-only tables such as `spotify_credentials`.
+ * It bypasses RLS, so only use it from server code and never hand its
+ * results to the browser unfiltered.
+ */
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set.')
+  }
+
+  return createSupabaseClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    serviceRoleKey,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  )
+}
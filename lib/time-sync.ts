@@ -0,0 +1,144 @@
+/**
+ * Estimates the offset between the browser clock and the server clock with
+ * NTP-style round trips to `/api/time`, so time-sensitive room features
+ * (DJ sync, persisted playback state) can agree on "now".
+ */
+
+export const TIME_SYNC_ENDPOINT = "/api/time";
+
+// Number of round trips per measurement, the fastest ones are trusted most
+const DEFAULT_SAMPLE_COUNT = 5;
+// Re-measure after this long; clocks drift and laptops sleep
+export const TIME_SYNC_MAX_AGE_MS = 5 * 60 * 1000;
+
+export interface ClockSample {
+  offsetMs: number; // serverTime - clientTime
+  roundTripMs: number;
+}
+
+/**
+ * Computes one sample, assuming the server read its clock halfway through
+ * the round trip.
+ */
+export function computeClockSample(
+  clientSentAt: number,
+  serverTime: number,
+  clientReceivedAt: number
+): ClockSample {
+  const roundTripMs = Math.max(0, clientReceivedAt - clientSentAt);
+  return {
+    offsetMs: serverTime - (clientSentAt + roundTripMs / 2),
+    roundTripMs,
+  };
+}
+
+/**
+ * Combines samples into one offset: the median of the fastest half, since
+ * slow round trips are the most likely to be asymmetric.
+ */
+export function estimateClockOffset(samples: ClockSample[]): number | null {
+  if (samples.length === 0) return null;
+
+  const fastest = [...samples]
+    .sort((a, b) => a.roundTripMs - b.roundTripMs)
+    .slice(0, Math.max(1, Math.ceil(samples.length / 2)))
+    .map((sample) => sample.offsetMs)
+    .sort((a, b) => a - b);
+
+  const middle = Math.floor(fastest.length / 2);
+  return fastest.length % 2 === 1
+    ? fastest[middle]
+    : (fastest[middle - 1] + fastest[middle]) / 2;
+}
+
+async function requestClockSample(): Promise<ClockSample | null> {
+  try {
+    const clientSentAt = Date.now();
+    const response = await fetch(TIME_SYNC_ENDPOINT, { cache: "no-store" });
+    const clientReceivedAt = Date.now();
+
+    if (!response.ok) {
+      console.error(`[time-sync] Time endpoint returned ${response.status}`);
+      return null;
+    }
+    const data: { serverTime?: unknown } = await response.json();
+    if (typeof data.serverTime !== "number") {
+      console.error("[time-sync] Invalid response from time endpoint", data);
+      return null;
+    }
+
+    return computeClockSample(clientSentAt, data.serverTime, clientReceivedAt);
+  } catch (error) {
+    console.error("[time-sync] Failed to reach time endpoint", error);
+    return null;
+  }
+}
+
+// --- Shared clock state (one estimate per browser tab) ---
+
+let clockOffsetMs = 0;
+let lastSyncedAt: number | null = null;
+let inFlightSync: Promise<number> | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * Measures the clock offset and updates the shared estimate.
+ * Concurrent callers share the same measurement.
+ * @returns The current offset in ms (unchanged if every round trip failed).
+ */
+export function syncServerClock(
+  sampleCount: number = DEFAULT_SAMPLE_COUNT
+): Promise<number> {
+  if (inFlightSync) return inFlightSync;
+
+  inFlightSync = (async () => {
+    const samples: ClockSample[] = [];
+    // Sequential on purpose, parallel requests would queue and skew round trips
+    for (let i = 0; i < sampleCount; i++) {
+      const sample = await requestClockSample();
+      if (sample) samples.push(sample);
+    }
+
+    const offset = estimateClockOffset(samples);
+    if (offset !== null) {
+      clockOffsetMs = offset;
+      lastSyncedAt = Date.now();
+      listeners.forEach((listener) => listener());
+    }
+    return clockOffsetMs;
+  })().finally(() => {
+    inFlightSync = null;
+  });
+
+  return inFlightSync;
+}
+
+/** Current server time in ms since epoch, per the latest estimate. */
+export function serverNow(): number {
+  return Date.now() + clockOffsetMs;
+}
+
+/** Converts a local `Date.now()`-based timestamp to server time. */
+export function toServerTime(localTime: number): number {
+  return localTime + clockOffsetMs;
+}
+
+/** Converts a server timestamp to the local clock. */
+export function toLocalTime(serverTime: number): number {
+  return serverTime - clockOffsetMs;
+}
+
+export function getClockSyncState() {
+  return { offsetMs: clockOffsetMs, lastSyncedAt };
+}
+
+export function isClockSyncStale(): boolean {
+  return lastSyncedAt === null || Date.now() - lastSyncedAt > TIME_SYNC_MAX_AGE_MS;
+}
+
+export function subscribeToClockSync(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -68,6 +68,88 @@ export type Database = {
         };
         Relationships: [];
       };
+      room_bans: {
+        Row: {
+          banned_by: string | null;
+          created_at: string;
+          expires_at: string | null;
+          id: string;
+          reason: string | null;
+          room_id: string;
+          user_id: string;
+        };
+        Insert: {
+          banned_by?: string | null;
+          created_at?: string;
+          expires_at?: string | null;
+          id?: string;
+          reason?: string | null;
+          room_id: string;
+          user_id: string;
+        };
+        Update: {
+          banned_by?: string | null;
+          created_at?: string;
+          expires_at?: string | null;
+          id?: string;
+          reason?: string | null;
+          room_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "room_bans_room_id_fkey";
+            columns: ["room_id"];
+            isOneToOne: false;
+            referencedRelation: "rooms";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      room_invites: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          expires_at: string | null;
+          id: string;
+          max_uses: number | null;
+          revoked_at: string | null;
+          room_id: string;
+          token: string;
+          use_count: number;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          expires_at?: string | null;
+          id?: string;
+          max_uses?: number | null;
+          revoked_at?: string | null;
+          room_id: string;
+          token: string;
+          use_count?: number;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          expires_at?: string | null;
+          id?: string;
+          max_uses?: number | null;
+          revoked_at?: string | null;
+          room_id?: string;
+          token?: string;
+          use_count?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "room_invites_room_id_fkey";
+            columns: ["room_id"];
+            isOneToOne: false;
+            referencedRelation: "rooms";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       room_members: {
         Row: {
           joined_at: string;
@@ -97,11 +179,97 @@ export type Database = {
           }
         ];
       };
+      room_play_history: {
+        Row: {
+          artists: string[];
+          id: number;
+          listener_count: number;
+          played_by: string | null;
+          playlist_id: string | null;
+          playlist_name: string | null;
+          room_id: string;
+          started_at: string;
+          track_name: string;
+          track_uri: string;
+        };
+        Insert: {
+          artists?: string[];
+          id?: never;
+          listener_count?: number;
+          played_by?: string | null;
+          playlist_id?: string | null;
+          playlist_name?: string | null;
+          room_id: string;
+          started_at?: string;
+          track_name: string;
+          track_uri: string;
+        };
+        Update: {
+          artists?: string[];
+          id?: never;
+          listener_count?: number;
+          played_by?: string | null;
+          playlist_id?: string | null;
+          playlist_name?: string | null;
+          room_id?: string;
+          started_at?: string;
+          track_name?: string;
+          track_uri?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "room_play_history_room_id_fkey";
+            columns: ["room_id"];
+            isOneToOne: false;
+            referencedRelation: "rooms";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      room_playback_state: {
+        Row: {
+          context_uri: string | null;
+          is_paused: boolean;
+          position_ms: number;
+          room_id: string;
+          track_uri: string;
+          updated_at: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          context_uri?: string | null;
+          is_paused?: boolean;
+          position_ms?: number;
+          room_id: string;
+          track_uri: string;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          context_uri?: string | null;
+          is_paused?: boolean;
+          position_ms?: number;
+          room_id?: string;
+          track_uri?: string;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "room_playback_state_room_id_fkey";
+            columns: ["room_id"];
+            isOneToOne: true;
+            referencedRelation: "rooms";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       room_playlists: {
         Row: {
           added_at: string;
           added_by: string | null;
           id: string;
+          position: number;
           room_id: string;
           spotify_playlist_id: string;
         };
@@ -109,6 +277,7 @@ export type Database = {
           added_at?: string;
           added_by?: string | null;
           id?: string;
+          position?: number;
           room_id: string;
           spotify_playlist_id: string;
         };
@@ -116,6 +285,7 @@ export type Database = {
           added_at?: string;
           added_by?: string | null;
           id?: string;
+          position?: number;
           room_id?: string;
           spotify_playlist_id?: string;
         };
@@ -129,27 +299,135 @@ export type Database = {
           }
         ];
       };
+      room_quotas: {
+        Row: {
+          max_rooms: number;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          max_rooms: number;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          max_rooms?: number;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
       rooms: {
         Row: {
+          accent_color: string | null;
+          archived_at: string | null;
+          cover_mosaic_urls: string[];
+          cover_type: Database["public"]["Enums"]["room_cover_type"];
+          cover_url: string | null;
           created_at: string;
           created_by: string | null;
+          description: string | null;
           id: string;
           initial_playlist_url: string | null;
           name: string | null;
+          visibility: Database["public"]["Enums"]["room_visibility"];
         };
         Insert: {
+          accent_color?: string | null;
+          archived_at?: string | null;
+          cover_mosaic_urls?: string[];
+          cover_type?: Database["public"]["Enums"]["room_cover_type"];
+          cover_url?: string | null;
           created_at?: string;
           created_by?: string | null;
+          description?: string | null;
           id?: string;
           initial_playlist_url?: string | null;
           name?: string | null;
+          visibility?: Database["public"]["Enums"]["room_visibility"];
         };
         Update: {
+          accent_color?: string | null;
+          archived_at?: string | null;
+          cover_mosaic_urls?: string[];
+          cover_type?: Database["public"]["Enums"]["room_cover_type"];
+          cover_url?: string | null;
           created_at?: string;
           created_by?: string | null;
+          description?: string | null;
           id?: string;
           initial_playlist_url?: string | null;
           name?: string | null;
+          visibility?: Database["public"]["Enums"]["room_visibility"];
+        };
+        Relationships: [];
+      };
+      spotify_credentials: {
+        Row: {
+          access_token_encrypted: string | null;
+          created_at: string;
+          expires_at: string | null;
+          refresh_locked_until: string | null;
+          refresh_token_encrypted: string | null;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          access_token_encrypted?: string | null;
+          created_at?: string;
+          expires_at?: string | null;
+          refresh_locked_until?: string | null;
+          refresh_token_encrypted?: string | null;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          access_token_encrypted?: string | null;
+          created_at?: string;
+          expires_at?: string | null;
+          refresh_locked_until?: string | null;
+          refresh_token_encrypted?: string | null;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      spotify_playlist_cache: {
+        Row: {
+          description: string | null;
+          fetched_at: string;
+          images: Json;
+          name: string;
+          owner_display_name: string | null;
+          owner_id: string | null;
+          snapshot_id: string;
+          spotify_playlist_id: string;
+          tracks_total: number;
+          uri: string;
+        };
+        Insert: {
+          description?: string | null;
+          fetched_at?: string;
+          images?: Json;
+          name: string;
+          owner_display_name?: string | null;
+          owner_id?: string | null;
+          snapshot_id: string;
+          spotify_playlist_id: string;
+          tracks_total?: number;
+          uri: string;
+        };
+        Update: {
+          description?: string | null;
+          fetched_at?: string;
+          images?: Json;
+          name?: string;
+          owner_display_name?: string | null;
+          owner_id?: string | null;
+          snapshot_id?: string;
+          spotify_playlist_id?: string;
+          tracks_total?: number;
+          uri?: string;
         };
         Relationships: [];
       };
@@ -158,13 +436,76 @@ export type Database = {
       [_ in never]: never;
     };
     Functions: {
+      acquire_spotify_refresh_lease: {
+        Args: { p_user_id: string; p_lease_seconds: number };
+        Returns: boolean;
+      };
       delete_message: {
         Args: { message_id: number };
         Returns: undefined;
       };
+      get_my_room_ban: {
+        Args: { p_room_id: string };
+        Returns: {
+          reason: string | null;
+          expires_at: string | null;
+        }[];
+      };
+      get_my_room_quota: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          max_rooms: number;
+          active_rooms: number;
+        }[];
+      };
+      get_room_invite_preview: {
+        Args: { p_room_id: string; p_token: string };
+        Returns: {
+          name: string | null;
+          description: string | null;
+          cover_type: Database["public"]["Enums"]["room_cover_type"];
+          cover_url: string | null;
+          cover_mosaic_urls: string[];
+          accent_color: string | null;
+        }[];
+      };
+      get_room_playback_state: {
+        Args: { p_room_id: string };
+        Returns: {
+          room_id: string;
+          context_uri: string | null;
+          track_uri: string;
+          position_ms: number;
+          is_paused: boolean;
+          updated_at: string;
+          server_now: string;
+        }[];
+      };
+      is_banned_from_room: {
+        Args: { p_room_id: string };
+        Returns: boolean;
+      };
+      redeem_room_invite: {
+        Args: { p_room_id: string; p_token: string };
+        Returns: string;
+      };
+      release_spotify_refresh_lease: {
+        Args: { p_user_id: string };
+        Returns: undefined;
+      };
+      reorder_room_playlists: {
+        Args: { p_room_id: string; p_spotify_playlist_ids: string[] };
+        Returns: number;
+      };
+      transfer_room_ownership: {
+        Args: { p_room_id: string; p_new_owner_id: string };
+        Returns: string;
+      };
     };
     Enums: {
-      room_role: "DJ" | "member";
+      room_cover_type: "none" | "upload" | "mosaic";
+      room_role: "DJ" | "co_dj" | "member";
+      room_visibility: "public" | "invite_only";
     };
     CompositeTypes: {
       [_ in never]: never;
@@ -280,7 +621,9 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      room_role: ["DJ", "member"],
+      room_cover_type: ["none", "upload", "mosaic"],
+      room_role: ["DJ", "co_dj", "member"],
+      room_visibility: ["public", "invite_only"],
     },
   },
 } as const;
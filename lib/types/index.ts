@@ -52,3 +52,127 @@ export interface SimplePlaylistDetails {
   uri?: string; // e.g., "spotify:playlist:37i9dQZF1DXcBWIGoYBM5M"
   // Add other relevant fields if needed, like description or track count
 }
+
+/**
+ * Simplified playlist track for UI display and the room queue.
+ */
+export interface SimplePlaylistTrack {
+  id: string;
+  uri: string; // e.g., "spotify:track:4uLU6hMCjMI75M1A2tKUQC"
+  name: string;
+  artists: string[];
+  albumName: string;
+  imageUrl?: string;
+  durationMs: number;
+  previewUrl?: string | null; // 30-second MP3 clip, missing for many tracks
+  position?: number; // Index in the source playlist, usable as a playback offset
+}
+
+/**
+ * The DJ's playback position as broadcast to everyone in a room.
+ * `positionMs` was sampled at `timestamp` (server time, ms since epoch, see
+ * lib/time-sync), so receivers can extrapolate the live position while
+ * `isPaused` is false.
+ */
+export interface RoomPlaybackSnapshot {
+  contextUri: string | null;
+  trackUri: string;
+  positionMs: number;
+  isPaused: boolean;
+  timestamp: number;
+}
+
+/**
+ * A track played in a room, as recorded by the DJ's player.
+ * `startedAt` is an ISO timestamp from the database clock.
+ */
+export interface RoomPlayHistoryEntry {
+  id: number;
+  trackUri: string;
+  trackName: string;
+  artists: string[];
+  playlistId: string | null;
+  playlistName: string | null;
+  listenerCount: number;
+  startedAt: string;
+}
+
+export type RoomVisibility = "public" | "invite_only";
+
+export type RoomCoverType = "none" | "upload" | "mosaic";
+
+/**
+ * The owner-chosen look of a room, shown on the room page, the rooms list
+ * and invite links. `coverMosaicUrls` are playlist covers captured when the
+ * mosaic was chosen.
+ */
+export interface RoomAppearance {
+  name: string | null;
+  description: string | null;
+  coverType: RoomCoverType;
+  coverUrl: string | null;
+  coverMosaicUrls: string[];
+  accentColor: string | null;
+}
+
+/**
+ * An invite link to an invite-only room. Null `expiresAt` / `maxUses` mean
+ * the invite never expires / can be used any number of times.
+ */
+export interface RoomInvite {
+  id: string;
+  token: string;
+  createdAt: string;
+  expiresAt: string | null;
+  maxUses: number | null;
+  useCount: number;
+}
+
+/**
+ * A member of a room as listed in the members panel. `role` is the
+ * room_role enum value.
+ */
+export interface RoomMember {
+  userId: string;
+  name: string;
+  avatarUrl?: string;
+  role: "DJ" | "co_dj" | "member";
+  joinedAt: string;
+}
+
+/**
+ * A user banned from a room. Null `expiresAt` means the ban is permanent.
+ */
+export interface RoomBan {
+  userId: string;
+  name: string;
+  reason: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+/**
+ * How many active rooms the user may own and how many they do. Archived
+ * rooms don't count.
+ */
+export interface RoomQuota {
+  maxRooms: number;
+  activeRooms: number;
+}
+
+/**
+ * A room as listed on the rooms page. Null `archived_at` means the room is
+ * active.
+ */
+export interface RoomSummary {
+  id: string;
+  name: string | null;
+  created_by: string | null;
+  visibility: RoomVisibility;
+  archived_at: string | null;
+  description: string | null;
+  cover_type: RoomCoverType;
+  cover_url: string | null;
+  cover_mosaic_urls: string[];
+  accent_color: string | null;
+}
@@ -0,0 +1,134 @@
+-- Migration: add_room_playback_state
+-- Purpose: Persist the DJ's "now playing" state per room so members who join
+-- mid-song can start at the right position.
+
+create table public.room_playback_state (
+  room_id uuid primary key references public.rooms(id) on delete cascade,
+  context_uri text, -- Playlist being played, null when playing loose tracks
+  track_uri text not null,
+  position_ms integer not null default 0, -- Position at updated_at
+  is_paused boolean not null default false,
+  updated_at timestamp with time zone not null default now(),
+  updated_by uuid references auth.users(id) on delete set null
+);
+
+-- Always stamp rows with the database clock, never the client's
+create or replace function public.stamp_room_playback_state()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  new.updated_at := now();
+  new.updated_by := auth.uid();
+  return new;
+end;
+$$;
+
+create trigger stamp_room_playback_state
+before insert or update on public.room_playback_state
+for each row execute function public.stamp_room_playback_state();
+
+alter table public.room_playback_state enable row level security;
+
+create policy "Allow members to view playback state in their rooms"
+on public.room_playback_state for select
+to authenticated
+using (
+  room_id in (
+    select room_id
+    from public.room_members
+    where user_id = (select auth.uid())
+  )
+);
+
+create policy "Allow DJs to create playback state"
+on public.room_playback_state for insert
+to authenticated
+with check (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = room_playback_state.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role = 'DJ'
+  )
+);
+
+create policy "Allow DJs to update playback state"
+on public.room_playback_state for update
+to authenticated
+using (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = room_playback_state.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role = 'DJ'
+  )
+);
+
+-- Returns the state together with the database's current time so callers can
+-- extrapolate the live position without trusting their own clock
+create or replace function public.get_room_playback_state(p_room_id uuid)
+returns table (
+  room_id uuid,
+  context_uri text,
+  track_uri text,
+  position_ms integer,
+  is_paused boolean,
+  updated_at timestamp with time zone,
+  server_now timestamp with time zone
+)
+language sql
+stable
+security invoker -- RLS above decides who can read
+set search_path = ''
+as $$
+  select
+    s.room_id,
+    s.context_uri,
+    s.track_uri,
+    s.position_ms,
+    s.is_paused,
+    s.updated_at,
+    now()
+  from public.room_playback_state s
+  where s.room_id = p_room_id;
+$$;
+
+-- The playback:<room id> Realtime channel is private. Members can listen,
+-- join presence and ask for the current state; only the DJ can broadcast
+-- playback_state, so nobody else can take over everyone's playback.
+create policy "Allow members to receive room playback messages"
+on realtime.messages for select
+to authenticated
+using (
+  split_part((select realtime.topic()), ':', 1) = 'playback'
+  and exists (
+    select 1
+    from public.room_members
+    where room_members.room_id::text
+        = split_part((select realtime.topic()), ':', 2)
+      and room_members.user_id = (select auth.uid())
+  )
+);
+
+create policy "Allow members to send room playback messages"
+on realtime.messages for insert
+to authenticated
+with check (
+  split_part((select realtime.topic()), ':', 1) = 'playback'
+  and exists (
+    select 1
+    from public.room_members
+    where room_members.room_id::text
+        = split_part((select realtime.topic()), ':', 2)
+      and room_members.user_id = (select auth.uid())
+      and (
+        room_members.role = 'DJ'
+        or realtime.messages.extension = 'presence'
+        or realtime.messages.event = 'request_state'
+      )
+  )
+);
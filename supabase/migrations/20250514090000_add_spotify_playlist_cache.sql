@@ -0,0 +1,47 @@
+-- Migration: add_spotify_playlist_cache
+-- Purpose: Cache Spotify playlist metadata (name, owner, cover images) so room
+-- loads don't call the Spotify API once per playlist for every visitor.
+-- Rows are tied to the playlist's snapshot_id, which Spotify changes whenever
+-- the playlist is modified.
+
+create table public.spotify_playlist_cache (
+  spotify_playlist_id text primary key,
+  snapshot_id text not null,
+  name text not null,
+  description text,
+  owner_id text,
+  owner_display_name text,
+  images jsonb not null default '[]'::jsonb,
+  tracks_total integer not null default 0,
+  uri text not null,
+  fetched_at timestamp with time zone not null default now()
+);
+
+-- Always stamp rows with the database clock, never the client's
+create or replace function public.stamp_spotify_playlist_cache()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  new.fetched_at := now();
+  return new;
+end;
+$$;
+
+create trigger stamp_spotify_playlist_cache
+before insert or update on public.spotify_playlist_cache
+for each row execute function public.stamp_spotify_playlist_cache();
+
+alter table public.spotify_playlist_cache enable row level security;
+
+-- Public Spotify metadata, so any signed-in user may read it. Only server
+-- code writes it, with the service role, so nobody can plant a fake name or
+-- cover for a playlist that every room visitor then sees.
+create policy "Allow authenticated users to view cached playlists"
+on public.spotify_playlist_cache for select
+to authenticated
+using (true);
+
+revoke insert, update, delete on public.spotify_playlist_cache
+from anon, authenticated;
@@ -0,0 +1,39 @@
+-- Migration: add_spotify_credentials
+-- Purpose: Keep users' Spotify OAuth tokens out of user_metadata, which the
+-- browser session can read. Tokens are encrypted by the app (AES-256-GCM,
+-- key in SPOTIFY_TOKEN_ENCRYPTION_KEY) before they reach this table, and only
+-- the service role can access it.
+-- Existing tokens in user_metadata are moved here by the app, since the
+-- database never sees the encryption key: on each user's next token lookup,
+-- and for everyone at once by POST /api/admin/backfill-spotify-credentials
+-- (see lib/spotify/credentials.ts and the README).
+
+create table public.spotify_credentials (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  access_token_encrypted text,
+  refresh_token_encrypted text,
+  expires_at timestamp with time zone, -- Expiry of the access token
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+create or replace function public.stamp_spotify_credentials()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger stamp_spotify_credentials
+before update on public.spotify_credentials
+for each row execute function public.stamp_spotify_credentials();
+
+-- RLS with no policies: anon and authenticated get nothing, the service role
+-- bypasses RLS
+alter table public.spotify_credentials enable row level security;
+
+revoke all on public.spotify_credentials from anon, authenticated;
@@ -0,0 +1,49 @@
+-- Migration: add_spotify_refresh_lease
+-- Purpose: Let only one server instance refresh a user's Spotify token at a
+-- time. Spotify may rotate the refresh token on every refresh, so parallel
+-- refreshes can invalidate each other's result.
+
+alter table public.spotify_credentials
+add column refresh_locked_until timestamp with time zone;
+
+-- Claims the refresh lease if nobody holds it or the holder's lease expired.
+-- Returns whether the caller now holds it.
+create or replace function public.acquire_spotify_refresh_lease(
+  p_user_id uuid,
+  p_lease_seconds integer
+)
+returns boolean
+language sql
+security invoker
+set search_path = ''
+as $$
+  with claimed as (
+    update public.spotify_credentials
+    set refresh_locked_until = now() + make_interval(secs => p_lease_seconds)
+    where user_id = p_user_id
+      and (refresh_locked_until is null or refresh_locked_until < now())
+    returning 1
+  )
+  select exists (select 1 from claimed);
+$$;
+
+create or replace function public.release_spotify_refresh_lease(p_user_id uuid)
+returns void
+language sql
+security invoker
+set search_path = ''
+as $$
+  update public.spotify_credentials
+  set refresh_locked_until = null
+  where user_id = p_user_id;
+$$;
+
+-- Same audience as the table: service role only
+revoke execute on function public.acquire_spotify_refresh_lease(uuid, integer)
+from public, anon, authenticated;
+revoke execute on function public.release_spotify_refresh_lease(uuid)
+from public, anon, authenticated;
+grant execute on function public.acquire_spotify_refresh_lease(uuid, integer)
+to service_role;
+grant execute on function public.release_spotify_refresh_lease(uuid)
+to service_role;
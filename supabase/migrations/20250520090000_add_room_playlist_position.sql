@@ -0,0 +1,97 @@
+-- Migration: add_room_playlist_position
+-- Purpose: Let the DJ order a room's playlists and remove them. Playlists get
+-- an explicit position (existing rows keep the order they were added in), and
+-- only the room's DJ may change or delete them.
+
+alter table public.room_playlists add column position integer;
+
+update public.room_playlists rp
+set position = ordered.position
+from (
+  select
+    id,
+    (row_number() over (partition by room_id order by added_at, id) - 1)::integer
+      as position
+  from public.room_playlists
+) ordered
+where rp.id = ordered.id;
+
+alter table public.room_playlists alter column position set not null;
+
+-- Deferred so a reorder can swap positions within one statement
+alter table public.room_playlists
+add constraint room_playlists_room_id_position_key
+  unique (room_id, position) deferrable initially deferred;
+
+-- New playlists go to the end of the room's list unless a position is given.
+-- One insert per room at a time, so concurrent adds can't take the same one.
+create or replace function public.set_room_playlist_position()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  if new.position is null then
+    perform pg_advisory_xact_lock(hashtext(new.room_id::text));
+
+    select coalesce(max(rp.position) + 1, 0)
+    into new.position
+    from public.room_playlists rp
+    where rp.room_id = new.room_id;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger set_room_playlist_position
+before insert on public.room_playlists
+for each row execute function public.set_room_playlist_position();
+
+create policy "Allow DJs to update room playlists"
+on public.room_playlists for update
+to authenticated
+using (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = room_playlists.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role = 'DJ'
+  )
+);
+
+create policy "Allow DJs to remove room playlists"
+on public.room_playlists for delete
+to authenticated
+using (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = room_playlists.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role = 'DJ'
+  )
+);
+
+-- Rewrites the order of a room's playlists in one statement. Returns the
+-- number of playlists moved, which is 0 for anyone but the DJ.
+create or replace function public.reorder_room_playlists(
+  p_room_id uuid,
+  p_spotify_playlist_ids text[]
+)
+returns integer
+language sql
+security invoker -- RLS above decides who can reorder
+set search_path = ''
+as $$
+  with moved as (
+    update public.room_playlists rp
+    set position = (ordered.ordinality - 1)::integer
+    from unnest(p_spotify_playlist_ids) with ordinality
+      as ordered(spotify_playlist_id, ordinality)
+    where rp.room_id = p_room_id
+      and rp.spotify_playlist_id = ordered.spotify_playlist_id
+    returning rp.id
+  )
+  select count(*)::integer from moved;
+$$;
@@ -0,0 +1,37 @@
+-- Migration: add_room_playlists_realtime
+-- Purpose: Let members see playlists the DJ adds, removes or reorders without
+-- reloading. Inserts and updates are streamed from room_playlists. With RLS
+-- on, Realtime only sends a deleted row's primary key, so clients can't tell
+-- which room it was in: the server actions broadcast playlists_changed on the
+-- private room_playlists:<room id> channel instead.
+
+alter publication supabase_realtime add table public.room_playlists;
+
+create policy "Allow members to receive room playlist messages"
+on realtime.messages for select
+to authenticated
+using (
+  split_part((select realtime.topic()), ':', 1) = 'room_playlists'
+  and exists (
+    select 1
+    from public.room_members
+    where room_members.room_id::text
+        = split_part((select realtime.topic()), ':', 2)
+      and room_members.user_id = (select auth.uid())
+  )
+);
+
+create policy "Allow DJs to send room playlist messages"
+on realtime.messages for insert
+to authenticated
+with check (
+  split_part((select realtime.topic()), ':', 1) = 'room_playlists'
+  and exists (
+    select 1
+    from public.room_members
+    where room_members.room_id::text
+        = split_part((select realtime.topic()), ':', 2)
+      and room_members.user_id = (select auth.uid())
+      and room_members.role = 'DJ'
+  )
+);
@@ -0,0 +1,45 @@
+-- Migration: add_room_play_history
+-- Purpose: Keep a log of every track played in a room, as observed by the
+-- DJ's player, so members can look up what played earlier.
+
+create table public.room_play_history (
+  id bigint generated always as identity primary key,
+  room_id uuid not null references public.rooms(id) on delete cascade,
+  track_uri text not null,
+  track_name text not null,
+  artists text[] not null default '{}',
+  playlist_id text, -- Room playlist the track came from, null for loose tracks
+  playlist_name text,
+  listener_count integer not null default 0 check (listener_count >= 0),
+  started_at timestamp with time zone not null default now(),
+  played_by uuid references auth.users(id) on delete set null default auth.uid()
+);
+
+create index room_play_history_room_id_started_at_idx
+on public.room_play_history (room_id, started_at desc);
+
+alter table public.room_play_history enable row level security;
+
+create policy "Allow members to view play history in their rooms"
+on public.room_play_history for select
+to authenticated
+using (
+  room_id in (
+    select room_id
+    from public.room_members
+    where user_id = (select auth.uid())
+  )
+);
+
+create policy "Allow DJs to record play history"
+on public.room_play_history for insert
+to authenticated
+with check (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = room_play_history.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role = 'DJ'
+  )
+);
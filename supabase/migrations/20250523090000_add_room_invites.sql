@@ -0,0 +1,190 @@
+-- Migration: add_room_invites
+-- Purpose: Let a room be invite-only. Public rooms stay open to everyone;
+-- invite-only rooms are hidden from non-members and can only be joined with
+-- an invite token, which can expire, run out of uses or be revoked.
+
+create type public.room_visibility as enum (
+  'public',
+  'invite_only'
+);
+
+alter table public.rooms
+add column visibility public.room_visibility not null default 'public';
+
+-- Rooms were readable by everyone; hide invite-only rooms from non-members.
+-- The creator can always read their room (createRoom reads it back before
+-- the creator is a member).
+drop policy "Rooms are viewable by authenticated users" on public.rooms;
+
+create policy "Allow users to view public rooms and rooms they are in"
+on public.rooms for select
+to authenticated
+using (
+  visibility = 'public'
+  or created_by = (select auth.uid())
+  or id in (
+    select room_id
+    from public.room_members
+    where user_id = (select auth.uid())
+  )
+);
+
+create policy "Allow room creators to update their rooms"
+on public.rooms for update
+to authenticated
+using (created_by = (select auth.uid()))
+with check (created_by = (select auth.uid()));
+
+-- Anyone could add themselves to any room with any role. Now only public
+-- rooms can be joined directly, as a member; invite-only rooms are joined
+-- through redeem_room_invite below.
+drop policy "Allow users to join rooms" on public.room_members;
+
+create policy "Allow users to join public rooms"
+on public.room_members for insert
+to authenticated
+with check (
+  user_id = (select auth.uid())
+  and role = 'member'
+  and exists (
+    select 1
+    from public.rooms
+    where rooms.id = room_members.room_id
+      and rooms.visibility = 'public'
+  )
+);
+
+create policy "Allow room creators to join their rooms as DJ"
+on public.room_members for insert
+to authenticated
+with check (
+  user_id = (select auth.uid())
+  and exists (
+    select 1
+    from public.rooms
+    where rooms.id = room_members.room_id
+      and rooms.created_by = (select auth.uid())
+  )
+);
+
+create table public.room_invites (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references public.rooms(id) on delete cascade,
+  token text not null unique,
+  created_by uuid references auth.users(id) on delete set null
+    default auth.uid(),
+  created_at timestamp with time zone not null default now(),
+  expires_at timestamp with time zone, -- Null never expires
+  max_uses integer check (max_uses > 0), -- Null is unlimited
+  use_count integer not null default 0,
+  revoked_at timestamp with time zone
+);
+
+create index room_invites_room_id_idx on public.room_invites (room_id);
+
+alter table public.room_invites enable row level security;
+
+create policy "Allow DJs to view invites to their rooms"
+on public.room_invites for select
+to authenticated
+using (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = room_invites.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role = 'DJ'
+  )
+);
+
+create policy "Allow DJs to create invites to their rooms"
+on public.room_invites for insert
+to authenticated
+with check (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = room_invites.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role = 'DJ'
+  )
+);
+
+create policy "Allow DJs to revoke invites to their rooms"
+on public.room_invites for update
+to authenticated
+using (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = room_invites.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role = 'DJ'
+  )
+);
+
+-- Adds the caller to the room if the token is a usable invite to it, and
+-- counts the use. Returns 'joined', 'already_member', 'invalid', 'revoked',
+-- 'expired' or 'used_up'. Runs as definer because invitees can neither read
+-- invites nor join invite-only rooms themselves.
+create or replace function public.redeem_room_invite(
+  p_room_id uuid,
+  p_token text
+)
+returns text
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_invite public.room_invites%rowtype;
+begin
+  if v_user_id is null then
+    return 'invalid';
+  end if;
+
+  if exists (
+    select 1
+    from public.room_members
+    where room_id = p_room_id
+      and user_id = v_user_id
+  ) then
+    return 'already_member';
+  end if;
+
+  -- Lock the invite so concurrent redemptions can't exceed max_uses
+  select *
+  into v_invite
+  from public.room_invites
+  where room_id = p_room_id
+    and token = p_token
+  for update;
+
+  if not found then
+    return 'invalid';
+  elsif v_invite.revoked_at is not null then
+    return 'revoked';
+  elsif v_invite.expires_at is not null and v_invite.expires_at <= now() then
+    return 'expired';
+  elsif v_invite.max_uses is not null
+    and v_invite.use_count >= v_invite.max_uses then
+    return 'used_up';
+  end if;
+
+  insert into public.room_members (room_id, user_id, role)
+  values (p_room_id, v_user_id, 'member');
+
+  update public.room_invites
+  set use_count = use_count + 1
+  where id = v_invite.id;
+
+  return 'joined';
+end;
+$$;
+
+-- Signed-in users only
+revoke execute on function public.redeem_room_invite(uuid, text)
+from public, anon;
+grant execute on function public.redeem_room_invite(uuid, text)
+to authenticated;
@@ -0,0 +1,5 @@
+-- Migration: add_co_dj_role
+-- Purpose: Add the co-DJ role. Kept apart from the policies that use it
+-- because a new enum value can't be used in the transaction that adds it.
+
+alter type public.room_role add value if not exists 'co_dj';
@@ -0,0 +1,169 @@
+-- Migration: add_room_role_management
+-- Purpose: Let co-DJs help run a room and let the owner manage roles.
+-- The room's owner (rooms.created_by) is its DJ and the only one who controls
+-- playback. Co-DJs can add, reorder and remove playlists and moderate chat.
+-- Only the owner changes roles, and ownership moves with
+-- transfer_room_ownership.
+
+-- room_playlists: DJ-only policies from add_room_playlist_position now
+-- include co-DJs, and adding playlists is enforced here too
+drop policy "Allow DJs to update room playlists" on public.room_playlists;
+drop policy "Allow DJs to remove room playlists" on public.room_playlists;
+
+create policy "Allow DJs and co-DJs to add room playlists"
+on public.room_playlists for insert
+to authenticated
+with check (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = room_playlists.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role in ('DJ', 'co_dj')
+  )
+);
+
+create policy "Allow DJs and co-DJs to update room playlists"
+on public.room_playlists for update
+to authenticated
+using (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = room_playlists.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role in ('DJ', 'co_dj')
+  )
+);
+
+create policy "Allow DJs and co-DJs to remove room playlists"
+on public.room_playlists for delete
+to authenticated
+using (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = room_playlists.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role in ('DJ', 'co_dj')
+  )
+);
+
+-- Co-DJs tell members about the playlist changes they make too
+drop policy "Allow DJs to send room playlist messages" on realtime.messages;
+
+create policy "Allow DJs and co-DJs to send room playlist messages"
+on realtime.messages for insert
+to authenticated
+with check (
+  split_part((select realtime.topic()), ':', 1) = 'room_playlists'
+  and exists (
+    select 1
+    from public.room_members
+    where room_members.room_id::text
+        = split_part((select realtime.topic()), ':', 2)
+      and room_members.user_id = (select auth.uid())
+      and room_members.role in ('DJ', 'co_dj')
+  )
+);
+
+-- messages: moderators can delete anyone's message in their room
+-- (delete_message runs as invoker, so this applies to it as well)
+create policy "Allow DJs and co-DJs to delete messages in their rooms"
+on public.messages for delete
+to authenticated
+using (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = messages.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role in ('DJ', 'co_dj')
+  )
+);
+
+-- room_members: the owner can make others members or co-DJs, never DJ
+create policy "Allow room owners to change members' roles"
+on public.room_members for update
+to authenticated
+using (
+  user_id <> (select auth.uid())
+  and exists (
+    select 1
+    from public.rooms
+    where rooms.id = room_members.room_id
+      and rooms.created_by = (select auth.uid())
+  )
+)
+with check (
+  user_id <> (select auth.uid())
+  and role in ('member', 'co_dj')
+);
+
+-- Members see each other's role changes live
+alter publication supabase_realtime add table public.room_members;
+
+-- Hands the room to another member: they become its owner and DJ, the
+-- current owner stays on as co-DJ. Returns 'transferred', 'not_owner',
+-- 'not_member' or 'already_owns_room' (users own at most one room).
+-- Runs as definer because the caller can't promote anyone to DJ or change
+-- rooms.created_by themselves.
+create or replace function public.transfer_room_ownership(
+  p_room_id uuid,
+  p_new_owner_id uuid
+)
+returns text
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  -- Lock the room so two transfers can't interleave
+  perform 1
+  from public.rooms
+  where id = p_room_id
+    and created_by = v_user_id
+  for update;
+  if not found or v_user_id is null then
+    return 'not_owner';
+  end if;
+
+  if p_new_owner_id = v_user_id or not exists (
+    select 1
+    from public.room_members
+    where room_id = p_room_id
+      and user_id = p_new_owner_id
+  ) then
+    return 'not_member';
+  end if;
+
+  if exists (
+    select 1
+    from public.rooms
+    where created_by = p_new_owner_id
+  ) then
+    return 'already_owns_room';
+  end if;
+
+  update public.rooms
+  set created_by = p_new_owner_id
+  where id = p_room_id;
+
+  update public.room_members
+  set role = (
+    case when user_id = p_new_owner_id then 'DJ' else 'co_dj' end
+  )::public.room_role
+  where room_id = p_room_id
+    and user_id in (v_user_id, p_new_owner_id);
+
+  return 'transferred';
+end;
+$$;
+
+-- Signed-in users only
+revoke execute on function public.transfer_room_ownership(uuid, uuid)
+from public, anon;
+grant execute on function public.transfer_room_ownership(uuid, uuid)
+to authenticated;
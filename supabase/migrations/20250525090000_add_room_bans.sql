@@ -0,0 +1,269 @@
+-- Migration: add_room_bans
+-- Purpose: Let the room's DJ remove members and ban them, for a while or for
+-- good. Banned users can't join the room again, directly or with an invite,
+-- and only members who aren't banned can chat.
+
+create table public.room_bans (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references public.rooms(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  banned_by uuid references auth.users(id) on delete set null
+    default auth.uid(),
+  reason text,
+  created_at timestamp with time zone not null default now(),
+  expires_at timestamp with time zone, -- Null bans for good
+  unique (room_id, user_id)
+);
+
+alter table public.room_bans enable row level security;
+
+create policy "Allow DJs to view bans in their rooms"
+on public.room_bans for select
+to authenticated
+using (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = room_bans.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role = 'DJ'
+  )
+);
+
+create policy "Allow DJs to ban users from their rooms"
+on public.room_bans for insert
+to authenticated
+with check (
+  user_id <> (select auth.uid())
+  and exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = room_bans.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role = 'DJ'
+  )
+);
+
+create policy "Allow DJs to change bans in their rooms"
+on public.room_bans for update
+to authenticated
+using (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = room_bans.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role = 'DJ'
+  )
+)
+with check (user_id <> (select auth.uid()));
+
+create policy "Allow DJs to lift bans in their rooms"
+on public.room_bans for delete
+to authenticated
+using (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = room_bans.room_id
+      and room_members.user_id = (select auth.uid())
+      and room_members.role = 'DJ'
+  )
+);
+
+-- Whether the caller has a ban in the room that hasn't expired. Runs as
+-- definer so join policies can check bans the user can't read, and only
+-- ever checks the caller so it can't be used to look up other users' bans.
+create or replace function public.is_banned_from_room(p_room_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select exists (
+    select 1
+    from public.room_bans
+    where room_id = p_room_id
+      and user_id = auth.uid()
+      and (expires_at is null or expires_at > now())
+  );
+$$;
+
+-- The caller's active ban in the room, if any, so they can be told why
+create or replace function public.get_my_room_ban(p_room_id uuid)
+returns table (
+  reason text,
+  expires_at timestamp with time zone
+)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select b.reason, b.expires_at
+  from public.room_bans b
+  where b.room_id = p_room_id
+    and b.user_id = auth.uid()
+    and (b.expires_at is null or b.expires_at > now());
+$$;
+
+revoke execute on function public.is_banned_from_room(uuid)
+from public, anon;
+grant execute on function public.is_banned_from_room(uuid)
+to authenticated;
+revoke execute on function public.get_my_room_ban(uuid)
+from public, anon;
+grant execute on function public.get_my_room_ban(uuid)
+to authenticated;
+
+-- The DJ can remove anyone but themselves
+create policy "Allow DJs to remove members from their rooms"
+on public.room_members for delete
+to authenticated
+using (
+  user_id <> (select auth.uid())
+  and exists (
+    select 1
+    from public.room_members dj
+    where dj.room_id = room_members.room_id
+      and dj.user_id = (select auth.uid())
+      and dj.role = 'DJ'
+  )
+);
+
+-- The chat:<room id> Realtime channel is private. Members who aren't banned
+-- can listen and join presence; only the DJ can tell members who was removed
+-- (member_removed), since a removed user no longer sees room_members.
+create policy "Allow members to receive room chat messages"
+on realtime.messages for select
+to authenticated
+using (
+  split_part((select realtime.topic()), ':', 1) = 'chat'
+  and exists (
+    select 1
+    from public.room_members
+    where room_members.room_id::text
+        = split_part((select realtime.topic()), ':', 2)
+      and room_members.user_id = (select auth.uid())
+      and not public.is_banned_from_room(room_members.room_id)
+  )
+);
+
+create policy "Allow members to send room chat messages"
+on realtime.messages for insert
+to authenticated
+with check (
+  split_part((select realtime.topic()), ':', 1) = 'chat'
+  and exists (
+    select 1
+    from public.room_members
+    where room_members.room_id::text
+        = split_part((select realtime.topic()), ':', 2)
+      and room_members.user_id = (select auth.uid())
+      and not public.is_banned_from_room(room_members.room_id)
+      and (
+        realtime.messages.extension = 'presence'
+        or (
+          room_members.role = 'DJ'
+          and realtime.messages.event = 'member_removed'
+        )
+      )
+  )
+);
+
+-- Only members who aren't banned can post. Restrictive, so it applies on top
+-- of the existing insert policy.
+create policy "Prevent banned users and non-members from posting messages"
+on public.messages
+as restrictive
+for insert
+to authenticated
+with check (
+  exists (
+    select 1
+    from public.room_members
+    where room_members.room_id = messages.room_id
+      and room_members.user_id = (select auth.uid())
+  )
+  and not public.is_banned_from_room(room_id)
+);
+
+-- Banned users can't join public rooms
+drop policy "Allow users to join public rooms" on public.room_members;
+
+create policy "Allow users to join public rooms"
+on public.room_members for insert
+to authenticated
+with check (
+  user_id = (select auth.uid())
+  and role = 'member'
+  and exists (
+    select 1
+    from public.rooms
+    where rooms.id = room_members.room_id
+      and rooms.visibility = 'public'
+  )
+  and not public.is_banned_from_room(room_id)
+);
+
+-- Same as in add_room_invites, and banned users get 'banned'
+create or replace function public.redeem_room_invite(
+  p_room_id uuid,
+  p_token text
+)
+returns text
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_invite public.room_invites%rowtype;
+begin
+  if v_user_id is null then
+    return 'invalid';
+  end if;
+
+  if exists (
+    select 1
+    from public.room_members
+    where room_id = p_room_id
+      and user_id = v_user_id
+  ) then
+    return 'already_member';
+  end if;
+
+  if public.is_banned_from_room(p_room_id) then
+    return 'banned';
+  end if;
+
+  -- Lock the invite so concurrent redemptions can't exceed max_uses
+  select *
+  into v_invite
+  from public.room_invites
+  where room_id = p_room_id
+    and token = p_token
+  for update;
+
+  if not found then
+    return 'invalid';
+  elsif v_invite.revoked_at is not null then
+    return 'revoked';
+  elsif v_invite.expires_at is not null and v_invite.expires_at <= now() then
+    return 'expired';
+  elsif v_invite.max_uses is not null
+    and v_invite.use_count >= v_invite.max_uses then
+    return 'used_up';
+  end if;
+
+  insert into public.room_members (room_id, user_id, role)
+  values (p_room_id, v_user_id, 'member');
+
+  update public.room_invites
+  set use_count = use_count + 1
+  where id = v_invite.id;
+
+  return 'joined';
+end;
+$$;
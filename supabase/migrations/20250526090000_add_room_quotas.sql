@@ -0,0 +1,288 @@
+-- Migration: add_room_quotas
+-- Purpose: Let users own more than one room, up to a quota. The default
+-- quota is the `app.default_room_quota` database setting (3 when unset);
+-- admins give individual users a different quota with a row in
+-- room_quotas. Archived rooms don't count towards the quota, and owners can
+-- now delete their rooms.
+--
+-- To change the default:
+--   alter database postgres set app.default_room_quota = '5';
+-- To override it for one user (service role or SQL editor):
+--   insert into public.room_quotas (user_id, max_rooms)
+--   values ('<user id>', 10)
+--   on conflict (user_id) do update set max_rooms = excluded.max_rooms;
+
+alter table public.rooms
+add column archived_at timestamp with time zone; -- Null while active
+
+create index rooms_created_by_idx on public.rooms (created_by);
+
+create table public.room_quotas (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  max_rooms integer not null check (max_rooms >= 0),
+  updated_at timestamp with time zone not null default now()
+);
+
+-- Users can read their own override; only admins can write
+alter table public.room_quotas enable row level security;
+
+create policy "Allow users to view their room quota"
+on public.room_quotas for select
+to authenticated
+using (user_id = (select auth.uid()));
+
+-- The number of active rooms the user may own
+create or replace function public.get_room_quota(p_user_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select coalesce(
+    (
+      select max_rooms
+      from public.room_quotas
+      where user_id = p_user_id
+    ),
+    nullif(current_setting('app.default_room_quota', true), '')::integer,
+    3
+  );
+$$;
+
+-- The caller's quota and how much of it their active rooms use
+create or replace function public.get_my_room_quota()
+returns table (
+  max_rooms integer,
+  active_rooms integer
+)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select
+    public.get_room_quota(auth.uid()),
+    (
+      select count(*)::integer
+      from public.rooms
+      where created_by = auth.uid()
+        and archived_at is null
+    );
+$$;
+
+revoke execute on function public.get_room_quota(uuid)
+from public, anon, authenticated;
+revoke execute on function public.get_my_room_quota()
+from public, anon;
+grant execute on function public.get_my_room_quota()
+to authenticated;
+
+-- Rejects a room that would take its owner over their quota: a new room, a
+-- restored one, or one handed to a new owner. Raises 'room_quota_exceeded'.
+create or replace function public.enforce_room_quota()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if new.archived_at is not null or new.created_by is null then
+    return new;
+  end if;
+  if tg_op = 'UPDATE'
+    and old.archived_at is null
+    and old.created_by is not distinct from new.created_by then
+    return new;
+  end if;
+
+  -- One owner's rooms at a time, so concurrent creates can't both slip in
+  perform pg_advisory_xact_lock(hashtext(new.created_by::text));
+
+  if (
+    select count(*)
+    from public.rooms
+    where created_by = new.created_by
+      and archived_at is null
+      and id <> new.id
+  ) >= public.get_room_quota(new.created_by) then
+    raise exception 'room_quota_exceeded'
+      using hint = 'Archive or delete a room to free up your quota.';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger enforce_room_quota
+before insert or update of archived_at, created_by on public.rooms
+for each row execute function public.enforce_room_quota();
+
+-- Anyone could create rooms for anyone
+drop policy "Allow authenticated users to create rooms" on public.rooms;
+
+create policy "Allow authenticated users to create rooms"
+on public.rooms for insert
+to authenticated
+with check (created_by = (select auth.uid()));
+
+create policy "Allow room creators to delete their rooms"
+on public.rooms for delete
+to authenticated
+using (created_by = (select auth.uid()));
+
+-- Deleting a room takes its chat and playlists with it
+alter table public.messages
+drop constraint messages_room_id_fkey,
+add constraint messages_room_id_fkey
+  foreign key (room_id) references public.rooms(id) on delete cascade;
+
+alter table public.room_playlists
+drop constraint room_playlists_room_id_fkey,
+add constraint room_playlists_room_id_fkey
+  foreign key (room_id) references public.rooms(id) on delete cascade;
+
+-- Archived rooms can't be joined
+drop policy "Allow users to join public rooms" on public.room_members;
+
+create policy "Allow users to join public rooms"
+on public.room_members for insert
+to authenticated
+with check (
+  user_id = (select auth.uid())
+  and role = 'member'
+  and exists (
+    select 1
+    from public.rooms
+    where rooms.id = room_members.room_id
+      and rooms.visibility = 'public'
+      and rooms.archived_at is null
+  )
+  and not public.is_banned_from_room(room_id)
+);
+
+-- Same as in add_room_bans, and archived rooms get 'archived'
+create or replace function public.redeem_room_invite(
+  p_room_id uuid,
+  p_token text
+)
+returns text
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_invite public.room_invites%rowtype;
+begin
+  if v_user_id is null then
+    return 'invalid';
+  end if;
+
+  if exists (
+    select 1
+    from public.room_members
+    where room_id = p_room_id
+      and user_id = v_user_id
+  ) then
+    return 'already_member';
+  end if;
+
+  if public.is_banned_from_room(p_room_id) then
+    return 'banned';
+  end if;
+
+  if exists (
+    select 1
+    from public.rooms
+    where id = p_room_id
+      and archived_at is not null
+  ) then
+    return 'archived';
+  end if;
+
+  -- Lock the invite so concurrent redemptions can't exceed max_uses
+  select *
+  into v_invite
+  from public.room_invites
+  where room_id = p_room_id
+    and token = p_token
+  for update;
+
+  if not found then
+    return 'invalid';
+  elsif v_invite.revoked_at is not null then
+    return 'revoked';
+  elsif v_invite.expires_at is not null and v_invite.expires_at <= now() then
+    return 'expired';
+  elsif v_invite.max_uses is not null
+    and v_invite.use_count >= v_invite.max_uses then
+    return 'used_up';
+  end if;
+
+  insert into public.room_members (room_id, user_id, role)
+  values (p_room_id, v_user_id, 'member');
+
+  update public.room_invites
+  set use_count = use_count + 1
+  where id = v_invite.id;
+
+  return 'joined';
+end;
+$$;
+
+-- Same as in add_room_role_management, except the new owner only needs to
+-- be under their quota ('over_quota') instead of owning no room at all.
+create or replace function public.transfer_room_ownership(
+  p_room_id uuid,
+  p_new_owner_id uuid
+)
+returns text
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  -- Lock the room so two transfers can't interleave
+  perform 1
+  from public.rooms
+  where id = p_room_id
+    and created_by = v_user_id
+  for update;
+  if not found or v_user_id is null then
+    return 'not_owner';
+  end if;
+
+  if p_new_owner_id = v_user_id or not exists (
+    select 1
+    from public.room_members
+    where room_id = p_room_id
+      and user_id = p_new_owner_id
+  ) then
+    return 'not_member';
+  end if;
+
+  begin
+    update public.rooms
+    set created_by = p_new_owner_id
+    where id = p_room_id;
+  exception
+    when raise_exception then
+      if sqlerrm = 'room_quota_exceeded' then
+        return 'over_quota';
+      end if;
+      raise;
+  end;
+
+  update public.room_members
+  set role = (
+    case when user_id = p_new_owner_id then 'DJ' else 'co_dj' end
+  )::public.room_role
+  where room_id = p_room_id
+    and user_id in (v_user_id, p_new_owner_id);
+
+  return 'transferred';
+end;
+$$;
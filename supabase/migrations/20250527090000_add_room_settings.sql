@@ -0,0 +1,114 @@
+-- Migration: add_room_settings
+-- Purpose: Let room owners describe and style their rooms: a description,
+-- cover art (an uploaded image or a mosaic of the room's playlist covers)
+-- and an accent color. Uploaded covers live in the public `room-covers`
+-- storage bucket under a folder named after the room.
+
+create type public.room_cover_type as enum (
+  'none',
+  'upload',
+  'mosaic'
+);
+
+alter table public.rooms
+add column description text check (char_length(description) <= 500),
+add column cover_type public.room_cover_type not null default 'none',
+add column cover_url text, -- Public URL of the uploaded cover
+-- Playlist cover URLs captured when the mosaic was chosen
+add column cover_mosaic_urls text[] not null default '{}'
+  check (cardinality(cover_mosaic_urls) <= 4),
+add column accent_color text check (accent_color ~ '^#[0-9a-f]{6}$'),
+-- Not validated: names from before this limit stay as they are
+add constraint rooms_name_length check (char_length(name) <= 80) not valid;
+
+insert into storage.buckets (id, name, public, file_size_limit,
+  allowed_mime_types)
+values (
+  'room-covers',
+  'room-covers',
+  true,
+  2 * 1024 * 1024,
+  array['image/jpeg', 'image/png', 'image/webp']
+);
+
+-- Covers are public to read by URL; only the room's creator can manage them
+create policy "Allow room creators to view their room covers"
+on storage.objects for select
+to authenticated
+using (
+  bucket_id = 'room-covers'
+  and exists (
+    select 1
+    from public.rooms
+    where rooms.id::text = (storage.foldername(name))[1]
+      and rooms.created_by = (select auth.uid())
+  )
+);
+
+create policy "Allow room creators to upload room covers"
+on storage.objects for insert
+to authenticated
+with check (
+  bucket_id = 'room-covers'
+  and exists (
+    select 1
+    from public.rooms
+    where rooms.id::text = (storage.foldername(name))[1]
+      and rooms.created_by = (select auth.uid())
+  )
+);
+
+create policy "Allow room creators to delete their room covers"
+on storage.objects for delete
+to authenticated
+using (
+  bucket_id = 'room-covers'
+  and exists (
+    select 1
+    from public.rooms
+    where rooms.id::text = (storage.foldername(name))[1]
+      and rooms.created_by = (select auth.uid())
+  )
+);
+
+-- What an invite link shows before it's redeemed: invite-only rooms are
+-- hidden from non-members, so this checks the token instead. Returns no
+-- row for tokens that are unknown, revoked, expired or used up.
+create or replace function public.get_room_invite_preview(
+  p_room_id uuid,
+  p_token text
+)
+returns table (
+  name text,
+  description text,
+  cover_type public.room_cover_type,
+  cover_url text,
+  cover_mosaic_urls text[],
+  accent_color text
+)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select
+    r.name,
+    r.description,
+    r.cover_type,
+    r.cover_url,
+    r.cover_mosaic_urls,
+    r.accent_color
+  from public.rooms r
+  join public.room_invites i on i.room_id = r.id
+  where r.id = p_room_id
+    and r.archived_at is null
+    and i.token = p_token
+    and i.revoked_at is null
+    and (i.expires_at is null or i.expires_at > now())
+    and (i.max_uses is null or i.use_count < i.max_uses);
+$$;
+
+revoke execute on function public.get_room_invite_preview(uuid, text)
+from public, anon;
+grant execute on function public.get_room_invite_preview(uuid, text)
+to authenticated;
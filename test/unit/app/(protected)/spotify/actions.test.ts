@@ -1,9 +1,14 @@
 import { saveTrack } from "@/lib/actions/spotify.actions";
 import { createClient } from "@/lib/supabase/server";
+import {
+  migrateLegacySpotifyCredentials,
+  readSpotifyCredentials,
+} from "@/lib/spotify/credentials";
 import { User, SupabaseClient } from "@supabase/supabase-js"; // Import SupabaseClient directly
 
 // Mock dependencies
 jest.mock("@/lib/supabase/server");
+jest.mock("@/lib/spotify/credentials");
 
 // Mock global fetch
 global.fetch = jest.fn();
@@ -13,6 +18,12 @@ const mockCreateClient = createClient as jest.MockedFunction<
   typeof createClient
 >;
 const mockFetch = global.fetch as jest.Mock;
+const mockReadSpotifyCredentials =
+  readSpotifyCredentials as jest.MockedFunction<typeof readSpotifyCredentials>;
+const mockMigrateLegacySpotifyCredentials =
+  migrateLegacySpotifyCredentials as jest.MockedFunction<
+    typeof migrateLegacySpotifyCredentials
+  >;
 
 // Helper to mock Supabase auth chain
 const mockSupabaseAuth = (
@@ -52,21 +63,28 @@ describe("Spotify Server Actions", () => {
       user: {
         id: "user-id",
         app_metadata: { provider: "spotify" },
-        user_metadata: {
-          provider_token: mockAccessToken,
-          provider_token_expires_at: Date.now() / 1000 + 3600,
-        },
+        user_metadata: {},
         aud: "authenticated",
         created_at: new Date().toISOString(),
       } as User,
     };
 
+    beforeEach(() => {
+      // Tokens are read from the server-only credentials store
+      mockReadSpotifyCredentials.mockResolvedValue({
+        accessToken: mockAccessToken,
+        refreshToken: "mock-refresh-token",
+        expiresAt: Math.floor(Date.now() / 1000) + 3600,
+      });
+      mockMigrateLegacySpotifyCredentials.mockResolvedValue(null);
+    });
+
     test("should save track successfully with valid token and trackId", async () => {
       mockSupabaseAuth(mockUser);
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 200,
-        // No body needed for successful PUT /me/tracks
+        text: async () => "", // Empty body for successful PUT /me/tracks
       });
 
       const result = await saveTrack(testTrackId);
@@ -115,21 +133,14 @@ describe("Spotify Server Actions", () => {
       expect(result).toEqual({
         success: false,
         error: "Authentication required.",
+        errorKind: "unauthorized",
       });
       expect(mockFetch).not.toHaveBeenCalled();
     });
 
-    test("should return error if access token is missing in metadata", async () => {
-      const userMissingToken = {
-        user: {
-          id: "user-id",
-          app_metadata: { provider: "spotify" },
-          user_metadata: {},
-          aud: "authenticated",
-          created_at: new Date().toISOString(),
-        } as User,
-      };
-      mockSupabaseAuth(userMissingToken);
+    test("should return error if no Spotify credentials are stored", async () => {
+      mockSupabaseAuth(mockUser);
+      mockReadSpotifyCredentials.mockResolvedValue(null);
 
       const result = await saveTrack(testTrackId);
 
@@ -137,9 +148,13 @@ describe("Spotify Server Actions", () => {
       // Assert against the mock resolved by createClient
       const supabaseInstance = await mockCreateClient.mock.results[0].value;
       expect(supabaseInstance.auth.getUser).toHaveBeenCalledTimes(1);
+      expect(mockMigrateLegacySpotifyCredentials).toHaveBeenCalledWith(
+        mockUser.user
+      );
       expect(result).toEqual({
         success: false,
         error: "Could not retrieve Spotify access token.",
+        errorKind: "unauthorized",
       });
       expect(mockFetch).not.toHaveBeenCalled();
     });
@@ -158,6 +173,7 @@ describe("Spotify Server Actions", () => {
       expect(result).toEqual({
         success: false,
         error: "Authentication failed. Please re-login.",
+        errorKind: "unauthorized",
       });
     });
 
@@ -175,6 +191,7 @@ describe("Spotify Server Actions", () => {
       expect(result).toEqual({
         success: false,
         error: "Permission denied (check scopes?).",
+        errorKind: "forbidden",
       });
     });
 
@@ -189,24 +206,88 @@ describe("Spotify Server Actions", () => {
       const result = await saveTrack(testTrackId);
 
       expect(mockFetch).toHaveBeenCalledTimes(1);
-      expect(result).toEqual({ success: false, error: "Track not found." });
+      expect(result).toEqual({
+        success: false,
+        error: "Track not found.",
+        errorKind: "not_found",
+      });
     });
 
-    test("should return generic error on other Spotify API errors", async () => {
+    test("should return premium_required when Spotify reports PREMIUM_REQUIRED", async () => {
       mockSupabaseAuth(mockUser);
       mockFetch.mockResolvedValueOnce({
         ok: false,
-        status: 500,
-        text: async () => "Internal Server Error",
+        status: 403,
+        text: async () =>
+          JSON.stringify({
+            error: {
+              status: 403,
+              message: "Player command failed: Premium required",
+              reason: "PREMIUM_REQUIRED",
+            },
+          }),
       });
 
       const result = await saveTrack(testTrackId);
 
-      expect(mockFetch).toHaveBeenCalledTimes(1);
       expect(result).toEqual({
         success: false,
-        error: "Failed to save track.",
-      }); // Default error message
+        error: "Spotify Premium required.",
+        errorKind: "premium_required",
+      });
+    });
+
+    test("should wait for Retry-After and retry on 429", async () => {
+      jest.useFakeTimers();
+      try {
+        mockSupabaseAuth(mockUser);
+        mockFetch
+          .mockResolvedValueOnce({
+            ok: false,
+            status: 429,
+            headers: {
+              get: (name: string) => (name === "Retry-After" ? "2" : null),
+            },
+            text: async () => "",
+          })
+          .mockResolvedValueOnce({ ok: true, status: 200, text: async () => "" });
+
+        const resultPromise = saveTrack(testTrackId);
+        await jest.advanceTimersByTimeAsync(1999);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(1);
+
+        expect(await resultPromise).toEqual({ success: true });
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    test("should retry server errors with backoff before giving up", async () => {
+      jest.useFakeTimers();
+      try {
+        mockSupabaseAuth(mockUser);
+        mockFetch.mockResolvedValue({
+          ok: false,
+          status: 500,
+          text: async () => "Internal Server Error",
+        });
+
+        const resultPromise = saveTrack(testTrackId);
+        await jest.runAllTimersAsync();
+        const result = await resultPromise;
+
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+        expect(result).toEqual({
+          success: false,
+          error: "Failed to save track.",
+          errorKind: "server_error",
+        }); // Default error message
+      } finally {
+        jest.useRealTimers();
+        mockFetch.mockReset();
+      }
     });
 
     test("should return generic error on fetch network error", async () => {
@@ -219,6 +300,7 @@ describe("Spotify Server Actions", () => {
       expect(result).toEqual({
         success: false,
         error: "An unexpected error occurred.",
+        errorKind: "network_error",
       });
     });
 
@@ -227,6 +309,6 @@ describe("Spotify Server Actions", () => {
     // Assuming getSpotifyAccessToken handles refresh, we just need to ensure saveTrack gets the token.
   });
 
-  // Add describe blocks for other actions (getSpotifyAccessToken, refreshSpotifyToken, checkTracksSaved, etc.) if needed
+  // Add describe blocks for other actions (getSpotifyAccessToken, checkTracksSaved, etc.) if needed
   // ...
 });
@@ -12,10 +12,71 @@ import * as sonner from "sonner";
 
 // Mock dependencies
 jest.mock("@/hooks/use-spotify-player-sdk");
-jest.mock("@/app/(protected)/spotify/actions");
+jest.mock("@/lib/actions/spotify.actions", () => ({
+  startPlayback: jest.fn(),
+  toggleShuffle: jest.fn(),
+  setRepeatMode: jest.fn(),
+  saveTrack: jest.fn(),
+  followPlaylist: jest.fn(),
+  checkTracksSaved: jest.fn(),
+  checkPlaylistFollowed: jest.fn(),
+  controlPlayback: jest.fn(),
+  getAvailableDevices: jest.fn(),
+  seekToPosition: jest.fn(),
+  setPlaybackVolume: jest.fn(),
+  transferPlayback: jest.fn(),
+}));
+jest.mock("@/lib/actions/supabase.actions", () => ({
+  getRoomPlaylistDetails: jest.fn(),
+  getRoomPlaybackState: jest.fn(),
+  saveRoomPlaybackState: jest.fn(),
+  recordRoomPlay: jest.fn(),
+}));
 jest.mock("next/navigation", () => ({
   usePathname: jest.fn(),
 }));
+jest.mock("@/lib/contexts/room-context", () => ({
+  useRoomContext: () => ({
+    roomId: "some-room-id",
+    permissions: {
+      isOwner: true,
+      canControlPlayback: true,
+      canAddPlaylists: true,
+      canManagePlaylists: true,
+      canModerateChat: true,
+      canManageMembers: true,
+    },
+    isLoadingRole: false,
+  }),
+}));
+jest.mock("@/hooks/use-server-clock", () => ({
+  useServerClock: () => ({
+    serverNow: () => Date.now(),
+    offsetMs: 0,
+    isSynced: true,
+  }),
+}));
+jest.mock("@/hooks/use-room-playback-sync", () => ({
+  useRoomPlaybackSync: () => ({
+    broadcastSnapshot: jest.fn(),
+    isConnected: true,
+    listenerCount: 1,
+  }),
+}));
+jest.mock("@/hooks/use-room-playlists-sync", () => ({
+  useRoomPlaylistsSync: jest.fn(),
+}));
+jest.mock("@/hooks/use-room-queue", () => ({
+  useRoomQueue: () => ({
+    queue: [],
+    queueMode: "sequential",
+    setQueueMode: jest.fn(),
+    reshuffleQueue: jest.fn(),
+    currentQueueIndex: -1,
+    upNext: [],
+    isLoadingQueue: false,
+  }),
+}));
 jest.mock("sonner", () => ({
   toast: {
     info: jest.fn(),
@@ -124,6 +185,7 @@ describe("PlayerContext - Track Relinking Logic", () => {
       isActive: true,
       currentTrack: currentTrackState, // Use mutable state
       playbackState: currentPlaybackState, // Use mutable state
+      accountError: null,
     }));
   });
 
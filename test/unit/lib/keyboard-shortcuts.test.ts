@@ -0,0 +1,54 @@
+import { findShortcut, isTypingTarget } from "@/lib/keyboard-shortcuts";
+
+const press = (key: string, modifiers: Partial<KeyboardEvent> = {}) => ({
+  key,
+  shiftKey: false,
+  ctrlKey: false,
+  metaKey: false,
+  altKey: false,
+  ...modifiers,
+});
+
+describe("findShortcut", () => {
+  test("should match keys case-insensitively", () => {
+    expect(findShortcut(press("n"))?.id).toBe("nextTrack");
+    expect(findShortcut(press(" "))?.id).toBe("togglePlay");
+    expect(findShortcut(press("ArrowUp"))?.id).toBe("volumeUp");
+  });
+
+  test("should tell letters with and without shift apart", () => {
+    expect(findShortcut(press("N", { shiftKey: true }))?.id).toBe(
+      "nextPlaylist"
+    );
+    expect(findShortcut(press("P", { shiftKey: true }))?.id).toBe(
+      "previousPlaylist"
+    );
+    expect(findShortcut(press("L", { shiftKey: true }))).toBeNull();
+  });
+
+  test("should not require shift to match for symbols", () => {
+    expect(findShortcut(press("?", { shiftKey: true }))?.id).toBe("showHelp");
+  });
+
+  test("should leave browser shortcuts alone", () => {
+    expect(findShortcut(press("l", { ctrlKey: true }))).toBeNull();
+    expect(findShortcut(press("n", { metaKey: true }))).toBeNull();
+  });
+});
+
+describe("isTypingTarget", () => {
+  test("should treat text fields as typing targets", () => {
+    expect(isTypingTarget(document.createElement("input"))).toBe(true);
+    expect(isTypingTarget(document.createElement("textarea"))).toBe(true);
+  });
+
+  test("should not treat buttons or the page as typing targets", () => {
+    const checkbox = document.createElement("input");
+    checkbox.type = "checkbox";
+
+    expect(isTypingTarget(checkbox)).toBe(false);
+    expect(isTypingTarget(document.createElement("button"))).toBe(false);
+    expect(isTypingTarget(document.body)).toBe(false);
+    expect(isTypingTarget(null)).toBe(false);
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * @jest-environment node
+ */
+import {
+  getPlaylistDetails,
+  getPlaylistTracks,
+  getPlaylistTracksPage,
+  getPlaybackState,
+  mergeRoomPlaylists,
+  setRepeatMode,
+  startPlayback,
+  transferPlayback,
+} from "@/lib/actions/spotify.actions";
+import { readSpotifyCredentials } from "@/lib/spotify/credentials";
+import { createClient } from "@/lib/supabase/server";
+import { spotifyRequest } from "@/lib/spotify/client";
+import { startMockSpotifyServer } from "@/lib/spotify/mock/http-server";
+
+// Server actions import the cookie-based Supabase client and the
+// credentials store; user-level tests stub both
+jest.mock("@/lib/supabase/server", () => ({ createClient: jest.fn() }));
+jest.mock("@/lib/spotify/credentials", () => ({
+  readSpotifyCredentials: jest.fn(),
+  migrateLegacySpotifyCredentials: jest.fn(),
+}));
+
+// Signs in a user whose stored Spotify token is the mock's user token
+function signInWith(supabase: Record<string, unknown>) {
+  (readSpotifyCredentials as jest.Mock).mockResolvedValue({
+    accessToken: "mock-user-token",
+    refreshToken: "mock-refresh-token",
+    expiresAt: Math.floor(Date.now() / 1000) + 3600,
+  });
+  (createClient as jest.Mock).mockResolvedValue({
+    auth: {
+      getUser: async () => ({ data: { user: { id: "user-id" } }, error: null }),
+    },
+    ...supabase,
+  });
+}
+
+describe("mock Spotify API", () => {
+  let server: Awaited<ReturnType<typeof startMockSpotifyServer>>;
+  const token = "mock-user-token";
+
+  beforeAll(async () => {
+    server = await startMockSpotifyServer();
+    process.env.SPOTIFY_API_BASE_URL = `${server.url}/v1`;
+    process.env.SPOTIFY_ACCOUNTS_BASE_URL = `${server.url}/accounts`;
+    process.env.SPOTIFY_CLIENT_ID = "mock-client-id";
+    process.env.SPOTIFY_CLIENT_SECRET = "mock-client-secret";
+  });
+
+  afterAll(async () => {
+    await server.close();
+    delete process.env.SPOTIFY_API_BASE_URL;
+    delete process.env.SPOTIFY_ACCOUNTS_BASE_URL;
+  });
+
+  beforeEach(() => {
+    server.mock.reset();
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("serves seeded playlists via the client-credentials flow", async () => {
+    const playlist = await getPlaylistDetails("mockplaylist01");
+
+    expect(playlist).toMatchObject({
+      id: "mockplaylist01",
+      name: "Late Night Mix",
+      snapshot_id: "mocksnapshot01",
+      tracks: { total: 4 },
+    });
+    expect(server.mock.requests.map((request) => request.path)).toEqual([
+      "/api/token",
+      "/playlists/mockplaylist01",
+    ]);
+  });
+
+  test("plays a playlist on a known device and reports the state", async () => {
+    const play = await spotifyRequest(token, "/me/player/play", {
+      method: "PUT",
+      query: { device_id: "mockdevice01" },
+      body: {
+        context_uri: "spotify:playlist:mockplaylist01",
+        offset: { uri: "spotify:track:mocktrack02" },
+      },
+    });
+    expect(play.ok).toBe(true);
+
+    const state = await spotifyRequest<{
+      is_playing: boolean;
+      item: { uri: string };
+      device: { id: string };
+    }>(token, "/me/player");
+    expect(state.ok && state.data).toMatchObject({
+      is_playing: true,
+      item: { uri: "spotify:track:mocktrack02" },
+      device: { id: "mockdevice01" },
+    });
+  });
+
+  test("returns no_active_device for unknown devices", async () => {
+    const result = await spotifyRequest(token, "/me/player/play", {
+      method: "PUT",
+      query: { device_id: "missing-device" },
+    });
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error.kind).toBe("no_active_device");
+  });
+
+  test("returns premium_required for free accounts", async () => {
+    server.mock.fixtures.user.product = "free";
+
+    const result = await spotifyRequest(token, "/me/player/pause", {
+      method: "PUT",
+    });
+
+    expect(!result.ok && result.error.kind).toBe("premium_required");
+  });
+
+  test("retries a scripted 429 after Retry-After", async () => {
+    server.mock.fail({
+      kind: "rate_limited",
+      path: "/me/tracks",
+      retryAfterSeconds: 0,
+    });
+
+    const result = await spotifyRequest(token, "/me/tracks", {
+      method: "PUT",
+      body: { ids: ["mocktrack01"] },
+    });
+    const saved = await spotifyRequest<boolean[]>(
+      token,
+      "/me/tracks/contains",
+      { query: { ids: "mocktrack01,mocktrack02" } }
+    );
+
+    expect(result.ok).toBe(true);
+    expect(saved.ok && saved.data).toEqual([true, false]);
+    expect(
+      server.mock.requests.map(({ method, path, status }) =>
+        [method, path, status].join(" ")
+      )
+    ).toEqual([
+      "PUT /me/tracks 429",
+      "PUT /me/tracks 200",
+      "GET /me/tracks/contains 200",
+    ]);
+  });
+
+  test("doesn't retry server errors on POST requests", async () => {
+    server.mock.fail({ kind: "server_error", path: "/me/player/next" });
+
+    const result = await spotifyRequest(token, "/me/player/next", {
+      method: "POST",
+    });
+
+    expect(!result.ok && result.error.kind).toBe("server_error");
+    expect(
+      server.mock.requests.map(({ method, path, status }) =>
+        [method, path, status].join(" ")
+      )
+    ).toEqual(["POST /me/player/next 500"]);
+  });
+
+  test("accepts scripted failures over the control endpoint", async () => {
+    await fetch(`${server.url}/__control/failures`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ kind: "not_found", path: "/playlists" }),
+    });
+
+    const result = await spotifyRequest(token, "/playlists/mockplaylist02");
+
+    expect(!result.ok && result.error.kind).toBe("not_found");
+  });
+
+  test("pages playlist tracks with absolute next links", async () => {
+    const page = await spotifyRequest<{ items: unknown[]; next: string }>(
+      token,
+      "/playlists/mockplaylist02/tracks",
+      { query: { limit: 2 } }
+    );
+
+    expect(page.ok && page.data.items).toHaveLength(2);
+    expect(page.ok && page.data.next).toBe(
+      `${server.url}/v1/playlists/mockplaylist02/tracks?offset=2&limit=2`
+    );
+  });
+
+  test("loads every track of a playlist for the room queue", async () => {
+    const result = await getPlaylistTracks("mockplaylist02");
+
+    expect(result.error).toBeUndefined();
+    expect(result.tracks.map((track) => track.id)).toEqual([
+      "mocktrack05",
+      "mocktrack06",
+      "mocktrack07",
+      "mocktrack08",
+      "mocktrack03",
+    ]);
+    expect(result.tracks[0]).toMatchObject({
+      uri: "spotify:track:mocktrack05",
+      name: "Copper Sky",
+      artists: ["Field Notes"],
+      albumName: "Almanac",
+      durationMs: 178000,
+    });
+  });
+
+  test("loads a page of playlist tracks with their playlist positions", async () => {
+    const page = await getPlaylistTracksPage("mockplaylist02", 2);
+
+    expect(page).toMatchObject({ nextOffset: null, total: 5 });
+    expect(page.tracks.map((track) => [track.id, track.position])).toEqual([
+      ["mocktrack07", 2],
+      ["mocktrack08", 3],
+      ["mocktrack03", 4],
+    ]);
+  });
+
+  test("starts a playlist at a track position", async () => {
+    signInWith({});
+
+    const result = await startPlayback("mockdevice01", {
+      contextUri: "spotify:playlist:mockplaylist02",
+      offset: { position: 3 },
+    });
+    const { state } = await getPlaybackState();
+
+    expect(result.success).toBe(true);
+    expect(state?.item?.uri).toBe("spotify:track:mocktrack08");
+  });
+
+  test("merges a room's playlists into a new playlist without duplicates", async () => {
+    signInWith({
+      from: (table: string) => {
+        const result =
+          table === "rooms"
+            ? { data: { name: "Gym Room" }, error: null }
+            : {
+                data: [
+                  { spotify_playlist_id: "mockplaylist01" },
+                  { spotify_playlist_id: "mockplaylist02" },
+                ],
+                error: null,
+              };
+        const query = {
+          select: () => query,
+          eq: () => query,
+          order: async () => result,
+          maybeSingle: async () => result,
+        };
+        return query;
+      },
+    });
+
+    const result = await mergeRoomPlaylists("room-id");
+
+    expect(result.success).toBe(true);
+    expect(result.progress).toMatchObject({ added: 8 });
+    const created = server.mock.fixtures.playlists.find(
+      (playlist) => playlist.id === result.progress?.playlistId
+    );
+    expect(created).toMatchObject({ name: "Gym Room", public: false });
+    // mocktrack03 is in both playlists
+    expect(created?.trackIds).toEqual([
+      "mocktrack01",
+      "mocktrack02",
+      "mocktrack03",
+      "mocktrack04",
+      "mocktrack05",
+      "mocktrack06",
+      "mocktrack07",
+      "mocktrack08",
+    ]);
+  });
+
+  test("transfers playback to another device and reports its state", async () => {
+    signInWith({});
+
+    expect(await transferPlayback("mockdevice01", false)).toEqual({
+      success: true,
+    });
+    const { state } = await getPlaybackState();
+
+    expect(state?.device).toMatchObject({ id: "mockdevice01", is_active: true });
+    expect((await transferPlayback("missing-device")).errorKind).toBe(
+      "no_active_device"
+    );
+  });
+
+  test("sets the repeat mode of the active device", async () => {
+    signInWith({});
+    await transferPlayback("mockdevice01", false);
+
+    expect(await setRepeatMode("track", "mockdevice01")).toEqual({
+      success: true,
+    });
+    const { state } = await getPlaybackState();
+
+    expect(state?.repeat_state).toBe("track");
+  });
+});
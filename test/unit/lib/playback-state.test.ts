@@ -0,0 +1,278 @@
+import {
+  detectContextEnd,
+  detectRemoteContextEnd,
+  getNextRepeatState,
+  toPreviewPlaybackState,
+  toSdkPlaybackState,
+  type SpotifyApiPlaybackState,
+} from "@/lib/spotify/playback-state";
+
+const track = (id: string) =>
+  ({ id, uri: `spotify:track:${id}` }) as Spotify.Track;
+
+// Minimal SDK state; only the fields detectContextEnd reads
+const state = ({
+  contextUri = "spotify:playlist:room1",
+  current = "t3",
+  previous = ["t1", "t2"],
+  next = [] as string[],
+  paused = false,
+  position = 120000,
+}: {
+  contextUri?: string | null;
+  current?: string;
+  previous?: string[];
+  next?: string[];
+  paused?: boolean;
+  position?: number;
+} = {}) =>
+  ({
+    context: { uri: contextUri, metadata: null },
+    paused,
+    position,
+    track_window: {
+      current_track: track(current),
+      previous_tracks: previous.map(track),
+      next_tracks: next.map(track),
+    },
+  }) as unknown as Spotify.PlaybackState;
+
+describe("detectContextEnd", () => {
+  test("should report a finished context when the last track plays out", () => {
+    const ended = state({ paused: true, position: 0, previous: ["t2", "t3"] });
+
+    expect(detectContextEnd(state(), ended)).toEqual({
+      contextUri: "spotify:playlist:room1",
+      nextContextUri: null,
+      reason: "finished",
+    });
+  });
+
+  test("should report autoplay when Spotify moves on to another context", () => {
+    const radio = state({
+      contextUri: "spotify:station:track:t3",
+      current: "r1",
+      previous: ["t3"],
+      next: ["r2"],
+    });
+
+    expect(detectContextEnd(state(), radio)).toEqual({
+      contextUri: "spotify:playlist:room1",
+      nextContextUri: "spotify:station:track:t3",
+      reason: "autoplay",
+    });
+  });
+
+  test("should ignore tracks that aren't the last one", () => {
+    const before = state({ current: "t2", previous: ["t1"], next: ["t3"] });
+
+    expect(detectContextEnd(before, state())).toBeNull();
+  });
+
+  test("should ignore pausing the last track", () => {
+    expect(
+      detectContextEnd(state(), state({ paused: true, position: 120500 }))
+    ).toBeNull();
+  });
+
+  test("should only report the end once", () => {
+    const ended = state({ paused: true, position: 0, previous: ["t2", "t3"] });
+
+    expect(detectContextEnd(ended, ended)).toBeNull();
+  });
+});
+
+describe("detectRemoteContextEnd", () => {
+  // Polled states carry no previous or next tracks; t3 has 3s left at 1000
+  const polled = (
+    overrides: Parameters<typeof state>[0] = {},
+    timestamp = 1000
+  ) =>
+    ({
+      ...state({ previous: [], ...overrides }),
+      duration: 123000,
+      timestamp,
+    }) as Spotify.PlaybackState;
+
+  test("should report a finished context when playback stops at the start", () => {
+    const ended = polled({ paused: true, position: 0 }, 4000);
+
+    expect(detectRemoteContextEnd(polled(), ended, 4000)).toEqual({
+      contextUri: "spotify:playlist:room1",
+      nextContextUri: null,
+      reason: "finished",
+    });
+  });
+
+  test("should report a finished context when nothing plays anymore", () => {
+    expect(detectRemoteContextEnd(polled(), null, 4000)).toMatchObject({
+      reason: "finished",
+    });
+  });
+
+  test("should report autoplay when Spotify moves on to another context", () => {
+    const radio = polled(
+      { contextUri: "spotify:station:track:t3", current: "r1", position: 500 },
+      4000
+    );
+
+    expect(detectRemoteContextEnd(polled(), radio, 4000)).toEqual({
+      contextUri: "spotify:playlist:room1",
+      nextContextUri: "spotify:station:track:t3",
+      reason: "autoplay",
+    });
+  });
+
+  test("should ignore the next track of the same context", () => {
+    const next = polled({ current: "t4", position: 500 }, 4000);
+
+    expect(detectRemoteContextEnd(polled(), next, 4000)).toBeNull();
+  });
+
+  test("should ignore changes before the track could have ended", () => {
+    const other = polled(
+      { contextUri: "spotify:playlist:other", current: "o1" },
+      2000
+    );
+
+    expect(detectRemoteContextEnd(polled(), other, 2000)).toBeNull();
+    expect(detectRemoteContextEnd(polled(), null, 2000)).toBeNull();
+  });
+
+  test("should only report the end once", () => {
+    const ended = polled({ paused: true, position: 0 }, 4000);
+
+    expect(detectRemoteContextEnd(ended, ended, 7000)).toBeNull();
+  });
+});
+
+describe("toSdkPlaybackState", () => {
+  const apiState: SpotifyApiPlaybackState = {
+    device: {
+      id: "phone",
+      name: "Phone",
+      type: "Smartphone",
+      is_active: true,
+      is_restricted: false,
+      volume_percent: 70,
+    },
+    repeat_state: "context",
+    shuffle_state: true,
+    context: { uri: "spotify:playlist:room1" },
+    timestamp: 1700000000000,
+    progress_ms: 42000,
+    is_playing: true,
+    item: {
+      id: "t1",
+      uri: "spotify:track:t1",
+      name: "Track t1",
+      type: "track",
+      duration_ms: 180000,
+      artists: [{ name: "Artist", uri: "spotify:artist:a1" }],
+      album: { name: "Album", uri: "spotify:album:b1", images: [] },
+    },
+    actions: { disallows: { resuming: true } },
+  };
+
+  test("should map a Web API state onto the SDK's shape", () => {
+    const state = toSdkPlaybackState(apiState, 5000);
+
+    expect(state).toMatchObject({
+      context: { uri: "spotify:playlist:room1" },
+      duration: 180000,
+      paused: false,
+      position: 42000,
+      timestamp: 5000, // Local receive time, not Spotify's clock
+      repeat_mode: 1,
+      shuffle: true,
+      disallows: { resuming: true },
+    });
+    expect(state?.track_window.current_track).toMatchObject({
+      uri: "spotify:track:t1",
+      artists: [{ name: "Artist" }],
+      album: { name: "Album" },
+    });
+  });
+
+  test("should return null when no track is loaded", () => {
+    expect(toSdkPlaybackState({ ...apiState, item: null }, 5000)).toBeNull();
+  });
+});
+
+describe("toPreviewPlaybackState", () => {
+  const playlistTrack = (id: string) => ({
+    id,
+    uri: `spotify:track:${id}`,
+    name: `Track ${id}`,
+    artists: ["Artist"],
+    albumName: "Album",
+    imageUrl: `https://i.scdn.co/image/${id}`,
+    durationMs: 200000,
+    previewUrl: `https://p.scdn.co/mp3-preview/${id}`,
+  });
+
+  test("should describe the clip rather than the full track", () => {
+    const state = toPreviewPlaybackState(
+      {
+        track: playlistTrack("t1"),
+        nextTracks: [playlistTrack("t2")],
+        positionMs: 12000,
+        durationMs: 30000,
+        paused: false,
+      },
+      5000
+    );
+
+    expect(state).toMatchObject({
+      context: { uri: null },
+      duration: 30000,
+      position: 12000,
+      timestamp: 5000,
+      paused: false,
+      disallows: { skipping_next: false, toggling_shuffle: true },
+    });
+    expect(state.track_window.current_track).toMatchObject({
+      uri: "spotify:track:t1",
+      artists: [{ name: "Artist" }],
+      album: { name: "Album", images: [{ url: "https://i.scdn.co/image/t1" }] },
+    });
+    expect(state.track_window.next_tracks.map((track) => track.uri)).toEqual([
+      "spotify:track:t2",
+    ]);
+  });
+
+  test("should disallow skipping past the last preview", () => {
+    const state = toPreviewPlaybackState(
+      {
+        track: playlistTrack("t1"),
+        nextTracks: [],
+        positionMs: 0,
+        durationMs: 30000,
+        paused: true,
+      },
+      5000
+    );
+
+    expect(state.disallows.skipping_next).toBe(true);
+  });
+});
+
+describe("getNextRepeatState", () => {
+  test("should cycle off, playlist, track", () => {
+    expect(getNextRepeatState("off")).toBe("context");
+    expect(getNextRepeatState("context")).toBe("track");
+    expect(getNextRepeatState("track")).toBe("off");
+  });
+
+  test("should skip repeat modes the player disallows", () => {
+    expect(getNextRepeatState("off", { toggling_repeat_context: true })).toBe(
+      "track"
+    );
+    expect(
+      getNextRepeatState("off", {
+        toggling_repeat_context: true,
+        toggling_repeat_track: true,
+      })
+    ).toBe("off");
+  });
+});
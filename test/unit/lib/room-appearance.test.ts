@@ -0,0 +1,65 @@
+import {
+  getMosaicCoverUrls,
+  getRoomCoverUrlPrefix,
+  getRoomDisplayName,
+  normalizeAccentColor,
+} from "@/lib/room-appearance";
+
+describe("room-appearance", () => {
+  describe("getRoomDisplayName", () => {
+    test("should use the room's name", () => {
+      expect(getRoomDisplayName({ id: "abcdef123456", name: "Disco" })).toBe(
+        "Disco"
+      );
+    });
+
+    test("should fall back to the start of the ID", () => {
+      expect(getRoomDisplayName({ id: "abcdef123456", name: null })).toBe(
+        "Room abcdef12..."
+      );
+    });
+  });
+
+  describe("normalizeAccentColor", () => {
+    test("should lowercase #rrggbb colors", () => {
+      expect(normalizeAccentColor(" #14B8A6 ")).toBe("#14b8a6");
+    });
+
+    test.each([null, undefined, "", "#fff", "teal", "#14b8a6ff"])(
+      "should reject %p",
+      (color) => {
+        expect(normalizeAccentColor(color)).toBeNull();
+      }
+    );
+  });
+
+  describe("getMosaicCoverUrls", () => {
+    test("should take each first cover once", () => {
+      expect(
+        getMosaicCoverUrls([
+          { images: [{ url: "a" }, { url: "a-small" }] },
+          { images: [] },
+          { images: [{ url: "a" }] },
+          {},
+          { images: [{ url: "b" }] },
+        ])
+      ).toEqual(["a", "b"]);
+    });
+
+    test("should stop at four covers", () => {
+      expect(
+        getMosaicCoverUrls(
+          ["a", "b", "c", "d", "e"].map((url) => ({ images: [{ url }] }))
+        )
+      ).toEqual(["a", "b", "c", "d"]);
+    });
+  });
+
+  describe("getRoomCoverUrlPrefix", () => {
+    test("should point at the room's folder in the covers bucket", () => {
+      expect(getRoomCoverUrlPrefix("https://x.supabase.co/", "room-1")).toBe(
+        "https://x.supabase.co/storage/v1/object/public/room-covers/room-1/"
+      );
+    });
+  });
+});
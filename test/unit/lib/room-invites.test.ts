@@ -0,0 +1,48 @@
+import { buildRoomInviteUrl, getRoomInviteStatus } from "@/lib/room-invites";
+
+const NOW = Date.parse("2025-05-23T12:00:00Z");
+
+describe("room-invites", () => {
+  describe("buildRoomInviteUrl", () => {
+    test("should add the token as a query parameter", () => {
+      expect(
+        buildRoomInviteUrl("https://discovered.fm", "room-1", "abc_123-x")
+      ).toBe("https://discovered.fm/rooms/room-1?invite=abc_123-x");
+    });
+
+    test("should return the bare room URL without a token", () => {
+      expect(buildRoomInviteUrl("https://discovered.fm/", "room-1")).toBe(
+        "https://discovered.fm/rooms/room-1"
+      );
+    });
+  });
+
+  describe("getRoomInviteStatus", () => {
+    test("should be active without expiry or use limit", () => {
+      expect(
+        getRoomInviteStatus(
+          { expiresAt: null, maxUses: null, useCount: 40 },
+          NOW
+        )
+      ).toBe("active");
+    });
+
+    test("should be expired once the expiry has passed", () => {
+      expect(
+        getRoomInviteStatus(
+          { expiresAt: "2025-05-23T11:59:59Z", maxUses: null, useCount: 0 },
+          NOW
+        )
+      ).toBe("expired");
+    });
+
+    test("should be used up when every use is taken", () => {
+      expect(
+        getRoomInviteStatus(
+          { expiresAt: "2025-05-24T12:00:00Z", maxUses: 3, useCount: 3 },
+          NOW
+        )
+      ).toBe("used_up");
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { getRoomPermissions } from "@/lib/room-permissions";
+
+describe("room-permissions", () => {
+  describe("getRoomPermissions", () => {
+    test("should give the DJ every permission", () => {
+      expect(Object.values(getRoomPermissions("DJ"))).not.toContain(false);
+    });
+
+    test("should let co-DJs manage playlists and chat but not playback or members", () => {
+      expect(getRoomPermissions("co_dj")).toEqual({
+        isOwner: false,
+        canControlPlayback: false,
+        canAddPlaylists: true,
+        canManagePlaylists: true,
+        canModerateChat: true,
+        canManageMembers: false,
+      });
+    });
+
+    test("should give members and non-members no permissions", () => {
+      expect(Object.values(getRoomPermissions("member"))).not.toContain(true);
+      expect(Object.values(getRoomPermissions(null))).not.toContain(true);
+    });
+  });
+});
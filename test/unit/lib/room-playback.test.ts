@@ -0,0 +1,42 @@
+import { parseRoomPlaybackSnapshot } from "@/lib/room-playback";
+
+const SNAPSHOT = {
+  contextUri: "spotify:playlist:abc",
+  trackUri: "spotify:track:123",
+  positionMs: 42000,
+  isPaused: false,
+  timestamp: 1747000000000,
+};
+
+describe("room-playback", () => {
+  describe("parseRoomPlaybackSnapshot", () => {
+    test("should accept a snapshot", () => {
+      expect(parseRoomPlaybackSnapshot(SNAPSHOT)).toEqual(SNAPSHOT);
+    });
+
+    test("should accept a snapshot without a context", () => {
+      expect(
+        parseRoomPlaybackSnapshot({ ...SNAPSHOT, contextUri: null })
+      ).toEqual({ ...SNAPSHOT, contextUri: null });
+    });
+
+    test("should drop extra fields", () => {
+      expect(
+        parseRoomPlaybackSnapshot({ ...SNAPSHOT, extra: "<script>" })
+      ).toEqual(SNAPSHOT);
+    });
+
+    test.each([
+      null,
+      "spotify:track:123",
+      { ...SNAPSHOT, trackUri: "https://example.com" },
+      { ...SNAPSHOT, positionMs: -1 },
+      { ...SNAPSHOT, positionMs: "42000" },
+      { ...SNAPSHOT, isPaused: "false" },
+      { ...SNAPSHOT, timestamp: Number.NaN },
+      { ...SNAPSHOT, contextUri: 12 },
+    ])("should reject %p", (payload) => {
+      expect(parseRoomPlaybackSnapshot(payload)).toBeNull();
+    });
+  });
+});
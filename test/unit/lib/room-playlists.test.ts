@@ -0,0 +1,57 @@
+import { moveItem, remapPlaylistIndex } from "@/lib/room-playlists";
+
+const playlists = (...ids: string[]) =>
+  ids.map((id) => ({ spotify_playlist_id: id }));
+
+describe("room-playlists", () => {
+  describe("moveItem", () => {
+    test("should move an item down the list", () => {
+      expect(moveItem(["a", "b", "c", "d"], 0, 2)).toEqual([
+        "b",
+        "c",
+        "a",
+        "d",
+      ]);
+    });
+
+    test("should move an item up the list", () => {
+      expect(moveItem(["a", "b", "c", "d"], 3, 1)).toEqual([
+        "a",
+        "d",
+        "b",
+        "c",
+      ]);
+    });
+
+    test("should return an unchanged copy for out-of-range indexes", () => {
+      const list = ["a", "b"];
+      const moved = moveItem(list, 0, 5);
+      expect(moved).toEqual(["a", "b"]);
+      expect(moved).not.toBe(list);
+    });
+  });
+
+  describe("remapPlaylistIndex", () => {
+    test("should follow the current playlist to its new position", () => {
+      expect(
+        remapPlaylistIndex(playlists("a", "b", "c"), playlists("c", "a", "b"), 1)
+      ).toBe(2);
+    });
+
+    test("should keep the index when the current playlist was removed", () => {
+      expect(
+        remapPlaylistIndex(playlists("a", "b", "c"), playlists("a", "c"), 1)
+      ).toBe(1);
+    });
+
+    test("should clamp to the last playlist when the last one was removed", () => {
+      expect(
+        remapPlaylistIndex(playlists("a", "b", "c"), playlists("a", "b"), 2)
+      ).toBe(1);
+    });
+
+    test("should return 0 for an empty list", () => {
+      expect(remapPlaylistIndex(playlists("a"), [], 0)).toBe(0);
+    });
+  });
+});
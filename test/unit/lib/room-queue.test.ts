@@ -0,0 +1,88 @@
+import {
+  buildRoomQueue,
+  findQueueIndex,
+  getUpNext,
+  RoomQueueSource,
+} from "@/lib/room-queue";
+import type { SimplePlaylistTrack } from "@/lib/types/index";
+
+const track = (id: string): SimplePlaylistTrack => ({
+  id,
+  uri: `spotify:track:${id}`,
+  name: `Track ${id}`,
+  artists: ["Artist"],
+  albumName: "Album",
+  durationMs: 180000,
+});
+
+const sources: RoomQueueSource[] = [
+  { playlistId: "a", tracks: [track("a1"), track("a2"), track("a3")] },
+  { playlistId: "b", tracks: [track("b1")] },
+  { playlistId: "c", tracks: [track("c1"), track("c2")] },
+];
+
+const ids = (queue: { id: string }[]) => queue.map((item) => item.id);
+
+describe("room-queue", () => {
+  describe("buildRoomQueue", () => {
+    test("should play playlists one after another in sequential mode", () => {
+      expect(ids(buildRoomQueue(sources, "sequential"))).toEqual([
+        "a1",
+        "a2",
+        "a3",
+        "b1",
+        "c1",
+        "c2",
+      ]);
+    });
+
+    test("should take one track from each playlist in turn in interleaved mode", () => {
+      expect(ids(buildRoomQueue(sources, "interleaved"))).toEqual([
+        "a1",
+        "b1",
+        "c1",
+        "a2",
+        "c2",
+        "a3",
+      ]);
+    });
+
+    test("should shuffle every track deterministically for a seed", () => {
+      const first = buildRoomQueue(sources, "shuffled", 42);
+      const second = buildRoomQueue(sources, "shuffled", 42);
+
+      expect(ids(first)).toEqual(ids(second));
+      expect([...ids(first)].sort()).toEqual(
+        ["a1", "a2", "a3", "b1", "c1", "c2"].sort()
+      );
+    });
+
+    test("should queue a track shared by several playlists only once", () => {
+      const queue = buildRoomQueue(
+        [
+          { playlistId: "a", tracks: [track("x"), track("a1")] },
+          { playlistId: "b", tracks: [track("b1"), track("x")] },
+        ],
+        "sequential"
+      );
+
+      expect(ids(queue)).toEqual(["x", "a1", "b1"]);
+      expect(queue[0].playlistId).toBe("a");
+    });
+  });
+
+  describe("getUpNext", () => {
+    const queue = buildRoomQueue(sources, "sequential");
+
+    test("should list the tracks after the current one", () => {
+      const index = findQueueIndex(queue, "spotify:track:a3");
+      expect(ids(getUpNext(queue, index, 2))).toEqual(["b1", "c1"]);
+    });
+
+    test("should start from the top when nothing from the queue is playing", () => {
+      const index = findQueueIndex(queue, "spotify:track:unknown");
+      expect(index).toBe(-1);
+      expect(ids(getUpNext(queue, index, 2))).toEqual(["a1", "a2"]);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+import { randomBytes } from "crypto";
+import type { User } from "@supabase/supabase-js";
+import { backfillLegacySpotifyCredentials } from "@/lib/spotify/credentials";
+import { decryptToken } from "@/lib/spotify/token-crypto";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+jest.mock("@/lib/supabase/admin");
+
+const mockCreateAdminClient = createAdminClient as jest.Mock;
+
+const user = (id: string, metadata: Record<string, unknown> = {}) =>
+  ({ id, user_metadata: metadata }) as unknown as User;
+
+const legacyMetadata = {
+  name: "Listener",
+  provider_token: "legacy-access-token",
+  provider_refresh_token: "legacy-refresh-token",
+  provider_token_expires_at: 1700000000,
+};
+
+describe("backfillLegacySpotifyCredentials", () => {
+  let mockListUsers: jest.Mock;
+  let mockUpdateUserById: jest.Mock;
+  let mockUpsert: jest.Mock;
+  let storedUserIds: string[];
+
+  beforeEach(() => {
+    process.env.SPOTIFY_TOKEN_ENCRYPTION_KEY =
+      randomBytes(32).toString("base64");
+    storedUserIds = [];
+    mockListUsers = jest.fn();
+    mockUpdateUserById = jest.fn().mockResolvedValue({ error: null });
+    mockUpsert = jest.fn().mockResolvedValue({ error: null });
+
+    mockCreateAdminClient.mockReturnValue({
+      auth: {
+        admin: {
+          listUsers: mockListUsers,
+          updateUserById: mockUpdateUserById,
+        },
+      },
+      from: () => ({
+        select: () => ({
+          in: async (_column: string, ids: string[]) => ({
+            data: ids
+              .filter((id) => storedUserIds.includes(id))
+              .map((id) => ({ user_id: id })),
+            error: null,
+          }),
+        }),
+        upsert: mockUpsert,
+      }),
+    });
+  });
+
+  test("encrypts legacy tokens and clears them from the metadata", async () => {
+    mockListUsers.mockResolvedValueOnce({
+      data: { users: [user("legacy", legacyMetadata), user("fresh")] },
+      error: null,
+    });
+
+    const result = await backfillLegacySpotifyCredentials();
+
+    expect(result).toEqual({ migrated: 1, cleared: 0, failed: 0 });
+    const row = mockUpsert.mock.calls[0][0];
+    expect(row.user_id).toBe("legacy");
+    expect(decryptToken(row.access_token_encrypted)).toBe(
+      "legacy-access-token"
+    );
+    expect(decryptToken(row.refresh_token_encrypted)).toBe(
+      "legacy-refresh-token"
+    );
+    expect(mockUpdateUserById).toHaveBeenCalledTimes(1);
+    expect(mockUpdateUserById).toHaveBeenCalledWith("legacy", {
+      user_metadata: {
+        name: "Listener",
+        provider_token: null,
+        provider_refresh_token: null,
+        provider_token_expires_at: null,
+      },
+    });
+  });
+
+  test("keeps stored credentials and only clears the metadata", async () => {
+    storedUserIds = ["legacy"];
+    mockListUsers.mockResolvedValueOnce({
+      data: { users: [user("legacy", legacyMetadata)] },
+      error: null,
+    });
+
+    const result = await backfillLegacySpotifyCredentials();
+
+    expect(result).toEqual({ migrated: 0, cleared: 1, failed: 0 });
+    expect(mockUpsert).not.toHaveBeenCalled();
+    expect(mockUpdateUserById).toHaveBeenCalledTimes(1);
+  });
+
+  test("keeps the metadata of users whose tokens couldn't be saved", async () => {
+    mockUpsert.mockResolvedValueOnce({ error: { message: "boom" } });
+    mockListUsers.mockResolvedValueOnce({
+      data: { users: [user("legacy", legacyMetadata)] },
+      error: null,
+    });
+
+    const result = await backfillLegacySpotifyCredentials();
+
+    expect(result).toEqual({ migrated: 0, cleared: 0, failed: 1 });
+    expect(mockUpdateUserById).not.toHaveBeenCalled();
+  });
+
+  test("pages through every user", async () => {
+    const fullPage = Array.from({ length: 100 }, (_, index) =>
+      user(`user-${index}`)
+    );
+    mockListUsers
+      .mockResolvedValueOnce({ data: { users: fullPage }, error: null })
+      .mockResolvedValueOnce({
+        data: { users: [user("legacy", legacyMetadata)] },
+        error: null,
+      });
+
+    const result = await backfillLegacySpotifyCredentials();
+
+    expect(mockListUsers).toHaveBeenCalledTimes(2);
+    expect(mockListUsers).toHaveBeenLastCalledWith({ page: 2, perPage: 100 });
+    expect(result.migrated).toBe(1);
+  });
+});
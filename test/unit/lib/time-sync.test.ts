@@ -0,0 +1,52 @@
+import {
+  computeClockSample,
+  estimateClockOffset,
+} from "@/lib/time-sync";
+
+describe("time-sync", () => {
+  describe("computeClockSample", () => {
+    test("should assume the server clock was read halfway through the round trip", () => {
+      // Sent at 1000, server says 6050, received at 1100 -> server was at 6050 when client was at 1050
+      expect(computeClockSample(1000, 6050, 1100)).toEqual({
+        offsetMs: 5000,
+        roundTripMs: 100,
+      });
+    });
+
+    test("should handle a server clock that is behind the client", () => {
+      expect(computeClockSample(10000, 7020, 10040)).toEqual({
+        offsetMs: -3000,
+        roundTripMs: 40,
+      });
+    });
+  });
+
+  describe("estimateClockOffset", () => {
+    test("should return null without samples", () => {
+      expect(estimateClockOffset([])).toBeNull();
+    });
+
+    test("should prefer the fastest round trips", () => {
+      const offset = estimateClockOffset([
+        { offsetMs: 5000, roundTripMs: 20 },
+        { offsetMs: 5010, roundTripMs: 30 },
+        { offsetMs: 5005, roundTripMs: 25 },
+        { offsetMs: 5900, roundTripMs: 900 }, // Congested, asymmetric
+        { offsetMs: 4200, roundTripMs: 1200 },
+      ]);
+      // Fastest half: 5000, 5005, 5010 -> median 5005
+      expect(offset).toBe(5005);
+    });
+
+    test("should average the two middle offsets for an even count", () => {
+      expect(
+        estimateClockOffset([
+          { offsetMs: 100, roundTripMs: 10 },
+          { offsetMs: 200, roundTripMs: 12 },
+          { offsetMs: 900, roundTripMs: 500 },
+          { offsetMs: 800, roundTripMs: 600 },
+        ])
+      ).toBe(150);
+    });
+  });
+});
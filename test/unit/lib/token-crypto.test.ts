@@ -0,0 +1,54 @@
+import { decryptToken, encryptToken } from "@/lib/spotify/token-crypto";
+
+describe("token-crypto", () => {
+  const originalKey = process.env.SPOTIFY_TOKEN_ENCRYPTION_KEY;
+
+  beforeEach(() => {
+    process.env.SPOTIFY_TOKEN_ENCRYPTION_KEY = Buffer.alloc(32, 7).toString(
+      "base64"
+    );
+  });
+
+  afterAll(() => {
+    process.env.SPOTIFY_TOKEN_ENCRYPTION_KEY = originalKey;
+  });
+
+  test("round-trips a token without storing the plaintext", () => {
+    const encrypted = encryptToken("BQD-access-token");
+
+    expect(encrypted).toMatch(/^v1:/);
+    expect(encrypted).not.toContain("BQD-access-token");
+    expect(decryptToken(encrypted)).toBe("BQD-access-token");
+  });
+
+  test("uses a fresh IV for every encryption", () => {
+    expect(encryptToken("same-token")).not.toBe(encryptToken("same-token"));
+  });
+
+  test("rejects tampered ciphertext", () => {
+    const [version, iv, tag, ciphertext] = encryptToken("token").split(":");
+    const tampered = Buffer.from(ciphertext, "base64");
+    tampered[0] ^= 1;
+
+    expect(() =>
+      decryptToken([version, iv, tag, tampered.toString("base64")].join(":"))
+    ).toThrow();
+  });
+
+  test("rejects payloads encrypted with another key", () => {
+    const encrypted = encryptToken("token");
+    process.env.SPOTIFY_TOKEN_ENCRYPTION_KEY = Buffer.alloc(32, 8).toString(
+      "base64"
+    );
+
+    expect(() => decryptToken(encrypted)).toThrow();
+  });
+
+  test("requires a 32-byte key", () => {
+    process.env.SPOTIFY_TOKEN_ENCRYPTION_KEY = Buffer.alloc(16).toString(
+      "base64"
+    );
+
+    expect(() => encryptToken("token")).toThrow(/32 bytes/);
+  });
+});
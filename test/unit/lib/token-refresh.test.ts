@@ -0,0 +1,146 @@
+import { refreshSpotifyCredentials } from "@/lib/spotify/token-refresh";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  readSpotifyCredentials,
+  writeSpotifyCredentials,
+} from "@/lib/spotify/credentials";
+
+jest.mock("@/lib/supabase/admin");
+jest.mock("@/lib/spotify/credentials");
+
+global.fetch = jest.fn();
+
+const mockFetch = global.fetch as jest.Mock;
+const mockCreateAdminClient = createAdminClient as jest.Mock;
+const mockReadSpotifyCredentials = readSpotifyCredentials as jest.Mock;
+const mockWriteSpotifyCredentials = writeSpotifyCredentials as jest.Mock;
+
+const expiredCredentials = {
+  accessToken: "old-access-token",
+  refreshToken: "old-refresh-token",
+  expiresAt: Math.floor(Date.now() / 1000) - 10,
+};
+
+const tokenResponse = (body: object) => ({
+  ok: true,
+  status: 200,
+  text: async () => JSON.stringify(body),
+});
+
+describe("refreshSpotifyCredentials", () => {
+  let mockRpc: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.SPOTIFY_CLIENT_ID = "client-id";
+    process.env.SPOTIFY_CLIENT_SECRET = "client-secret";
+
+    mockRpc = jest.fn().mockImplementation(async (fn: string) => ({
+      data: fn === "acquire_spotify_refresh_lease" ? true : null,
+      error: null,
+    }));
+    mockCreateAdminClient.mockReturnValue({ rpc: mockRpc });
+    mockReadSpotifyCredentials.mockResolvedValue(expiredCredentials);
+    mockWriteSpotifyCredentials.mockResolvedValue(true);
+  });
+
+  test("shares one refresh between concurrent callers", async () => {
+    mockFetch.mockResolvedValueOnce(
+      tokenResponse({ access_token: "new-access-token", expires_in: 3600 })
+    );
+
+    const results = await Promise.all([
+      refreshSpotifyCredentials("user-1", "old-refresh-token"),
+      refreshSpotifyCredentials("user-1", "old-refresh-token"),
+      refreshSpotifyCredentials("user-1", "old-refresh-token"),
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockWriteSpotifyCredentials).toHaveBeenCalledTimes(1);
+    results.forEach((result) =>
+      expect(result.credentials?.accessToken).toBe("new-access-token")
+    );
+    expect(mockRpc).toHaveBeenCalledWith("release_spotify_refresh_lease", {
+      p_user_id: "user-1",
+    });
+  });
+
+  test("stores a rotated refresh token", async () => {
+    mockFetch.mockResolvedValueOnce(
+      tokenResponse({
+        access_token: "new-access-token",
+        expires_in: 3600,
+        refresh_token: "rotated-refresh-token",
+      })
+    );
+
+    const result = await refreshSpotifyCredentials(
+      "user-1",
+      "old-refresh-token"
+    );
+
+    expect(result.credentials?.refreshToken).toBe("rotated-refresh-token");
+    expect(mockWriteSpotifyCredentials).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({
+        accessToken: "new-access-token",
+        refreshToken: "rotated-refresh-token",
+      })
+    );
+  });
+
+  test("keeps the old refresh token when Spotify doesn't rotate it", async () => {
+    mockFetch.mockResolvedValueOnce(
+      tokenResponse({ access_token: "new-access-token", expires_in: 3600 })
+    );
+
+    await refreshSpotifyCredentials("user-1", "old-refresh-token");
+
+    expect(mockWriteSpotifyCredentials).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({ refreshToken: "old-refresh-token" })
+    );
+  });
+
+  test("waits for another instance holding the lease instead of refreshing", async () => {
+    mockRpc.mockResolvedValueOnce({ data: false, error: null });
+    const freshCredentials = {
+      accessToken: "refreshed-elsewhere",
+      refreshToken: "old-refresh-token",
+      expiresAt: Math.floor(Date.now() / 1000) + 3600,
+    };
+    mockReadSpotifyCredentials
+      .mockResolvedValueOnce(expiredCredentials)
+      .mockResolvedValueOnce(freshCredentials);
+
+    const result = await refreshSpotifyCredentials(
+      "user-1",
+      "old-refresh-token"
+    );
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(result.credentials).toEqual(freshCredentials);
+  });
+
+  test("returns an error when Spotify rejects the refresh token", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      text: async () =>
+        JSON.stringify({
+          error: "invalid_grant",
+          error_description: "Refresh token revoked",
+        }),
+    });
+
+    const result = await refreshSpotifyCredentials(
+      "user-1",
+      "old-refresh-token"
+    );
+
+    expect(result).toEqual({
+      error: "Failed to refresh Spotify token. Please re-login.",
+    });
+    expect(mockWriteSpotifyCredentials).not.toHaveBeenCalled();
+  });
+});